@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangleIcon, CheckCircle2Icon, DownloadIcon, ImageIcon, RefreshCwIcon } from "lucide-react"
+import { DirectorioLayout } from "@/components/directorio-layout"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Spinner } from "@/components/ui/spinner"
+import { useDataQuality } from "@/hooks/use-data-quality"
+import { useDoctors } from "@/hooks/use-doctors"
+import { downloadReport, ISSUE_KINDS, ISSUE_LABELS, verificarRetratos } from "@/lib/data-quality"
+import type { DataQualityIssue } from "@/lib/types"
+
+// Las secciones largas arrancan cerradas
+const OPEN_LIMIT = 20
+
+// Auditoría de calidad de datos: registros con campos vacíos o inconsistentes, agrupados por problema,
+// para que Historias Clínicas los corrija en el origen (lib/data-quality.ts)
+export default function CalidadPage() {
+  const { report, loading, error, refresh } = useDataQuality()
+  const { doctors } = useDoctors()
+  const [fotos, setFotos] = useState<DataQualityIssue[] | null>(null)
+  const [progreso, setProgreso] = useState<{ done: number; total: number } | null>(null)
+
+  const verificarFotos = async () => {
+    setProgreso({ done: 0, total: 0 })
+    const rotas = await verificarRetratos(doctors, (done, total) => setProgreso({ done, total }))
+    setFotos(rotas)
+    setProgreso(null)
+  }
+
+  if (loading) {
+    return (
+      <DirectorioLayout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Spinner size="lg" />
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  if (error || !report) {
+    return (
+      <DirectorioLayout>
+        <div className="error-container">
+          <h2>No se pudo generar el informe de calidad de datos</h2>
+          <button className="retry-button" onClick={() => window.location.reload()}>
+            Reintentar
+          </button>
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  const issues = [...report.issues, ...(fotos ?? [])]
+  const porTipo = ISSUE_KINDS.map((kind) => ({
+    kind,
+    ...ISSUE_LABELS[kind],
+    issues: issues.filter((issue) => issue.kind === kind),
+    pendiente: kind === "retrato-roto" && fotos === null,
+  }))
+  const { totales } = report
+
+  return (
+    <DirectorioLayout>
+      <Card className="w-full max-w-7xl">
+        <CardContent className="p-4 md:p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Calidad de datos</h1>
+              <p className="text-sm text-muted-foreground">
+                {totales.medicos} médicos · {totales.especialidades} especialidades · {totales.agendas} agendas ·{" "}
+                {totales.catalogos} registros de catálogos
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={verificarFotos} disabled={progreso !== null || doctors.length === 0}>
+                <ImageIcon aria-hidden="true" />
+                {progreso ? `Verificando fotos ${progreso.done}/${progreso.total}` : "Verificar fotos"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => downloadReport(issues, `calidad-datos-${new Date().toISOString().slice(0, 10)}`)}
+                disabled={issues.length === 0}
+              >
+                <DownloadIcon aria-hidden="true" />
+                Descargar informe
+              </Button>
+              <Button variant="outline" onClick={() => refresh()}>
+                <RefreshCwIcon aria-hidden="true" />
+                Actualizar
+              </Button>
+            </div>
+          </div>
+
+          <nav aria-label="Resumen" className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-8">
+            {porTipo.map(({ kind, titulo, issues: lista, pendiente }) => (
+              <a
+                key={kind}
+                href={`#${kind}`}
+                className={`rounded-xl border p-4 transition-colors hover:border-primary ${
+                  lista.length > 0 ? "border-[#F59E0B] bg-[#FFFBEB]" : "bg-secondary"
+                }`}
+              >
+                <span className="block text-3xl font-bold text-primary">{pendiente ? "—" : lista.length}</span>
+                <span className="text-sm font-medium">{titulo}</span>
+              </a>
+            ))}
+          </nav>
+
+          <div className="flex flex-col gap-10">
+            {porTipo.map(({ kind, titulo, descripcion, issues: lista, pendiente }) => (
+              <section key={kind} id={kind} aria-labelledby={`${kind}-titulo`}>
+                <h2 id={`${kind}-titulo`} className="flex items-center gap-2 text-xl font-bold text-primary">
+                  {lista.length > 0 ? (
+                    <AlertTriangleIcon className="h-5 w-5 text-[#B45309]" aria-hidden="true" />
+                  ) : (
+                    !pendiente && <CheckCircle2Icon className="h-5 w-5 text-green-700" aria-hidden="true" />
+                  )}
+                  {titulo} {!pendiente && `(${lista.length})`}
+                </h2>
+                <p className="mb-3 text-sm text-muted-foreground">{descripcion}</p>
+                {pendiente ? (
+                  <p>Pulse &quot;Verificar fotos&quot; para probar cada retrato.</p>
+                ) : lista.length === 0 ? (
+                  <p>Sin hallazgos.</p>
+                ) : (
+                  <details open={lista.length <= OPEN_LIMIT}>
+                    <summary className="cursor-pointer font-medium">Ver {lista.length} registros</summary>
+                    <div className="mt-3 overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Registro</TableHead>
+                            <TableHead>Detalle</TableHead>
+                            <TableHead>Origen</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lista.map((issue, i) => (
+                            <TableRow key={i}>
+                              <TableCell className="font-medium">{issue.registro}</TableCell>
+                              <TableCell className="break-all">{issue.detalle}</TableCell>
+                              <TableCell className="capitalize">{issue.origen}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </details>
+                )}
+              </section>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </DirectorioLayout>
+  )
+}
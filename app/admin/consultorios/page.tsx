@@ -0,0 +1,189 @@
+"use client"
+
+import { AlertTriangleIcon, CheckCircle2Icon, RefreshCwIcon } from "lucide-react"
+import { DirectorioLayout } from "@/components/directorio-layout"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Spinner } from "@/components/ui/spinner"
+import { useConsultorioAudit } from "@/hooks/use-agendas"
+import { FINDING_KINDS, FINDING_LABELS } from "@/lib/consultorio-audit"
+import { formatHHmmTo12h } from "@/lib/utils"
+import type { AgendaDetallada, ConsultorioFinding } from "@/lib/types"
+
+const horario = (a: AgendaDetallada) =>
+  [a.horaInicioHHmm, a.horaFinHHmm].filter(Boolean).map((h) => formatHHmmTo12h(String(h))).join(" - ")
+
+const consultorioLabel = (f: ConsultorioFinding) =>
+  !f.consultorioCodigo
+    ? "(sin consultorio)"
+    : f.consultorio !== f.consultorioCodigo
+      ? `${f.consultorio} (${f.consultorioCodigo})`
+      : f.consultorioCodigo
+
+function AgendaResumen({ agenda }: { agenda: AgendaDetallada }) {
+  return (
+    <div>
+      <p className="font-medium">{agenda.medico || agenda.codigo_prestador}</p>
+      <p className="text-sm text-muted-foreground">
+        {[agenda.especialidad, horario(agenda), agenda.tipoTexto].filter(Boolean).join(" · ")}
+      </p>
+    </div>
+  )
+}
+
+function DobleReservaTable({ findings }: { findings: ConsultorioFinding[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Consultorio</TableHead>
+          <TableHead>Día</TableHead>
+          <TableHead>Superposición</TableHead>
+          <TableHead>Agenda 1</TableHead>
+          <TableHead>Agenda 2</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {findings.map((f, i) => (
+          <TableRow key={i}>
+            <TableCell>{consultorioLabel(f)}</TableCell>
+            <TableCell>{f.dia}</TableCell>
+            <TableCell className="whitespace-nowrap">
+              {formatHHmmTo12h(f.inicio ?? "")} - {formatHHmmTo12h(f.fin ?? "")}
+            </TableCell>
+            {f.agendas.map((a, j) => (
+              <TableCell key={j}>
+                <AgendaResumen agenda={a} />
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+function CatalogoTable({ findings }: { findings: ConsultorioFinding[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Consultorio</TableHead>
+          <TableHead>Edificio</TableHead>
+          <TableHead>Piso</TableHead>
+          <TableHead>Agendas</TableHead>
+          <TableHead>Médicos</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {findings.map((f, i) => {
+          const medicos = [...new Set(f.agendas.map((a) => a.medico || String(a.codigo_prestador ?? "")))].filter(Boolean)
+          return (
+            <TableRow key={i}>
+              <TableCell>{consultorioLabel(f)}</TableCell>
+              <TableCell>{f.agendas[0]?.edificioDescripcion || f.edificioCodigo || "—"}</TableCell>
+              <TableCell>{f.pisoCodigo || "—"}</TableCell>
+              <TableCell>{f.agendas.length}</TableCell>
+              <TableCell>{medicos.join(", ")}</TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
+
+// Informe para coordinación de agendas: dobles reservas de consultorio y agendas cuyo consultorio,
+// edificio o piso no se resuelve con los catálogos (lib/consultorio-audit.ts)
+export default function ConsultoriosAuditPage() {
+  const { audit, loading, error, refresh } = useConsultorioAudit()
+
+  if (loading) {
+    return (
+      <DirectorioLayout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Spinner size="lg" />
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  if (error || !audit) {
+    return (
+      <DirectorioLayout>
+        <div className="error-container">
+          <h2>No se pudo generar el informe de consultorios</h2>
+          <button className="retry-button" onClick={() => window.location.reload()}>
+            Reintentar
+          </button>
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  const porTipo = FINDING_KINDS.map((kind) => ({
+    kind,
+    ...FINDING_LABELS[kind],
+    findings: audit.findings.filter((f) => f.kind === kind),
+  }))
+
+  return (
+    <DirectorioLayout>
+      <Card className="w-full max-w-7xl">
+        <CardContent className="p-4 md:p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Informe de consultorios</h1>
+              <p className="text-sm text-muted-foreground">
+                {audit.totalAgendas} agendas en {audit.totalConsultorios} consultorios
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => refresh()}>
+              <RefreshCwIcon aria-hidden="true" />
+              Actualizar
+            </Button>
+          </div>
+
+          <nav aria-label="Resumen" className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-8">
+            {porTipo.map(({ kind, titulo, findings }) => (
+              <a
+                key={kind}
+                href={`#${kind}`}
+                className={`rounded-xl border p-4 transition-colors hover:border-primary ${
+                  findings.length > 0 ? "border-[#F59E0B] bg-[#FFFBEB]" : "bg-secondary"
+                }`}
+              >
+                <span className="block text-3xl font-bold text-primary">{findings.length}</span>
+                <span className="text-sm font-medium">{titulo}</span>
+              </a>
+            ))}
+          </nav>
+
+          <div className="flex flex-col gap-10">
+            {porTipo.map(({ kind, titulo, descripcion, findings }) => (
+              <section key={kind} id={kind} aria-labelledby={`${kind}-titulo`}>
+                <h2 id={`${kind}-titulo`} className="flex items-center gap-2 text-xl font-bold text-primary">
+                  {findings.length > 0 ? (
+                    <AlertTriangleIcon className="h-5 w-5 text-[#B45309]" aria-hidden="true" />
+                  ) : (
+                    <CheckCircle2Icon className="h-5 w-5 text-green-700" aria-hidden="true" />
+                  )}
+                  {titulo} ({findings.length})
+                </h2>
+                <p className="mb-3 text-sm text-muted-foreground">{descripcion}</p>
+                {findings.length === 0 ? (
+                  <p>Sin hallazgos.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    {kind === "doble-reserva" ? <DobleReservaTable findings={findings} /> : <CatalogoTable findings={findings} />}
+                  </div>
+                )}
+              </section>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </DirectorioLayout>
+  )
+}
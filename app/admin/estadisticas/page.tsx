@@ -0,0 +1,211 @@
+"use client"
+
+import { useState } from "react"
+import { RefreshCwIcon } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { DirectorioLayout } from "@/components/directorio-layout"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Spinner } from "@/components/ui/spinner"
+import { useAnalyticsSummary } from "@/hooks/use-analytics"
+import type { AnalyticsCount, SearchContext } from "@/lib/types"
+
+const PERIODS = [
+  { dias: 1, label: "Hoy" },
+  { dias: 7, label: "7 días" },
+  { dias: 30, label: "30 días" },
+]
+
+const CONTEXT_LABELS: Record<SearchContext, string> = {
+  doctors: "Médicos",
+  specialties: "Especialidades",
+  symptoms: "Síntomas",
+}
+
+const chartConfig = {
+  total: { label: "Visitas", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const toggleClass = (active: boolean) =>
+  `rounded-full border-2 border-primary px-4 py-2 font-semibold transition-colors ${
+    active ? "bg-primary text-primary-foreground" : "bg-secondary text-primary hover:bg-accent1 hover:text-white"
+  }`
+
+const formatDuration = (ms: number) => {
+  const segundos = Math.round(ms / 1000)
+  return segundos < 60 ? `${segundos} s` : `${Math.floor(segundos / 60)} min ${segundos % 60} s`
+}
+
+const percent = (part: number, total: number) => (total > 0 ? `${Math.round((part / total) * 100)} %` : "—")
+
+function RankingTable({ rows, columna }: { rows: AnalyticsCount[]; columna: string }) {
+  if (rows.length === 0) return <p>Sin datos en el período.</p>
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>{columna}</TableHead>
+          <TableHead className="text-right">Visitas</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, i) => (
+          <TableRow key={row.clave}>
+            <TableCell>{i + 1}</TableCell>
+            <TableCell className="font-medium">{row.etiqueta}</TableCell>
+            <TableCell className="text-right tabular-nums">{row.total}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+// Estadísticas de uso del kiosco: qué se consulta, qué se busca sin encontrarlo y cuánto duran
+// las sesiones (lib/analytics.ts registra, lib/analytics-store.ts resume)
+export default function EstadisticasPage() {
+  const [dias, setDias] = useState(7)
+  const { summary, loading, error, refresh } = useAnalyticsSummary(dias)
+
+  if (loading) {
+    return (
+      <DirectorioLayout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Spinner size="lg" />
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  if (error || !summary) {
+    return (
+      <DirectorioLayout>
+        <div className="error-container">
+          <h2>No se pudieron cargar las estadísticas de uso</h2>
+          <button className="retry-button" onClick={() => window.location.reload()}>
+            Reintentar
+          </button>
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  const tiles = [
+    { label: "Sesiones", value: String(summary.sesiones) },
+    { label: "Duración promedio", value: summary.sesiones > 0 ? formatDuration(summary.duracionPromedioMs) : "—" },
+    {
+      label: "Terminadas por inactividad",
+      value: percent(summary.finPorInactividad, summary.sesiones),
+      detalle: `${summary.finPorInactividad} por inactividad · ${summary.finPorInicio} con "Inicio"`,
+    },
+    {
+      label: "Búsquedas sin resultado",
+      value: percent(summary.busquedasSinResultado, summary.busquedas),
+      detalle: `${summary.busquedasSinResultado} de ${summary.busquedas} búsquedas`,
+    },
+  ]
+
+  return (
+    <DirectorioLayout>
+      <Card className="w-full max-w-7xl">
+        <CardContent className="p-4 md:p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Estadísticas de uso</h1>
+              <p className="text-sm text-muted-foreground">
+                {summary.vistas} páginas vistas · {summary.eventos} eventos desde{" "}
+                {new Date(summary.desde).toLocaleString("es-ES", { dateStyle: "medium", timeStyle: "short" })}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <div role="group" aria-label="Período" className="flex gap-2">
+                {PERIODS.map((period) => (
+                  <button
+                    key={period.dias}
+                    type="button"
+                    aria-pressed={dias === period.dias}
+                    onClick={() => setDias(period.dias)}
+                    className={toggleClass(dias === period.dias)}
+                  >
+                    {period.label}
+                  </button>
+                ))}
+              </div>
+              <Button variant="outline" onClick={() => refresh()}>
+                <RefreshCwIcon aria-hidden="true" />
+                Actualizar
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-10">
+            {tiles.map((tile) => (
+              <div key={tile.label} className="rounded-xl border bg-secondary p-4">
+                <p className="text-3xl font-bold text-primary">{tile.value}</p>
+                <p className="text-sm font-medium">{tile.label}</p>
+                {tile.detalle && <p className="text-xs text-muted-foreground">{tile.detalle}</p>}
+              </div>
+            ))}
+          </div>
+
+          <section aria-labelledby="especialidades" className="mb-10">
+            <h2 id="especialidades" className="mb-4 text-xl font-bold text-primary">Especialidades más consultadas</h2>
+            {summary.topEspecialidades.length === 0 ? (
+              <p>Sin datos en el período.</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="aspect-auto h-80 w-full">
+                <BarChart data={summary.topEspecialidades} layout="vertical" margin={{ left: 8 }} accessibilityLayer>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" dataKey="total" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="etiqueta" tickLine={false} axisLine={false} width={180} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </section>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+            <section aria-labelledby="fallidas">
+              <h2 id="fallidas" className="mb-1 text-xl font-bold text-primary">Búsquedas sin resultado</h2>
+              <p className="mb-3 text-sm text-muted-foreground">
+                Lo que los pacientes escriben y el directorio no encuentra: nombres mal escritos o especialidades con
+                otro nombre.
+              </p>
+              {summary.topBusquedasFallidas.length === 0 ? (
+                <p>Sin búsquedas fallidas en el período.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Término</TableHead>
+                      <TableHead>Buscador</TableHead>
+                      <TableHead className="text-right">Veces</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.topBusquedasFallidas.map((row) => (
+                      <TableRow key={row.clave}>
+                        <TableCell className="font-medium">{row.etiqueta}</TableCell>
+                        <TableCell>{CONTEXT_LABELS[row.context]}</TableCell>
+                        <TableCell className="text-right tabular-nums">{row.total}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </section>
+
+            <section aria-labelledby="medicos">
+              <h2 id="medicos" className="mb-4 text-xl font-bold text-primary">Médicos más consultados</h2>
+              <RankingTable rows={summary.topMedicos} columna="Médico" />
+            </section>
+          </div>
+        </CardContent>
+      </Card>
+    </DirectorioLayout>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RefreshCwIcon } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { DirectorioLayout } from "@/components/directorio-layout"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { dayLabel, RoomHeatmap } from "@/components/room-heatmap"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Spinner } from "@/components/ui/spinner"
+import { useRoomUtilization } from "@/hooks/use-agendas"
+
+const round = (hours: number) => Math.round(hours * 10) / 10
+
+const toggleClass = (active: boolean) =>
+  `rounded-full border-2 border-primary px-4 py-2 font-semibold capitalize transition-colors ${
+    active ? "bg-primary text-primary-foreground" : "bg-secondary text-primary hover:bg-accent1 hover:text-white"
+  }`
+
+// Tablero de planificación de espacios: horas con agenda por edificio y, dentro del edificio elegido,
+// el mapa de calor de cada consultorio por día o por franja horaria (lib/room-utilization.ts)
+export default function OcupacionPage() {
+  const { utilization, loading, error, refresh } = useRoomUtilization()
+  const { edificioPredeterminado } = useKioskProfile()
+  const [edificio, setEdificio] = useState<string | null>(null)
+  const [day, setDay] = useState<string | null>(null)
+
+  // Arranca en el edificio predeterminado del kiosco o en el primero
+  useEffect(() => {
+    if (edificio != null || !utilization?.buildings.length) return
+    const predeterminado = utilization.buildings.find((b) => b.edificioCodigo === edificioPredeterminado)
+    setEdificio((predeterminado ?? utilization.buildings[0]).edificioCodigo)
+  }, [utilization, edificio, edificioPredeterminado])
+
+  if (loading) {
+    return (
+      <DirectorioLayout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Spinner size="lg" />
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  if (error || !utilization) {
+    return (
+      <DirectorioLayout>
+        <div className="error-container">
+          <h2>No se pudo calcular la ocupación de consultorios</h2>
+          <button className="retry-button" onClick={() => window.location.reload()}>
+            Reintentar
+          </button>
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  const { buildings, days, startHour, endHour } = utilization
+  const building = buildings.find((b) => b.edificioCodigo === edificio) ?? buildings[0]
+
+  const chartConfig = Object.fromEntries(
+    buildings.map((b, i) => [`e${i}`, { label: b.edificio, color: `hsl(var(--chart-${(i % 5) + 1}))` }])
+  ) satisfies ChartConfig
+  const chartData = days.map((d) => ({
+    dia: dayLabel(d),
+    ...Object.fromEntries(buildings.map((b, i) => [`e${i}`, round(b.horasPorDia[d])])),
+  }))
+
+  return (
+    <DirectorioLayout>
+      <Card className="w-full max-w-7xl">
+        <CardContent className="p-4 md:p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Ocupación de consultorios</h1>
+              <p className="text-sm text-muted-foreground">
+                Horas con agenda por semana, de {startHour}:00 a {endHour}:00
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => refresh()}>
+              <RefreshCwIcon aria-hidden="true" />
+              Actualizar
+            </Button>
+          </div>
+
+          <section aria-labelledby="totales" className="mb-10">
+            <h2 id="totales" className="mb-4 text-xl font-bold text-primary">Totales por edificio</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+              {buildings.map((b) => (
+                <div key={b.edificioCodigo || "sin-edificio"} className="rounded-xl border bg-secondary p-4">
+                  <p className="font-semibold">{b.edificio}</p>
+                  <p className="text-3xl font-bold text-primary">{round(b.totalHoras)} h</p>
+                  <p className="text-sm text-muted-foreground">
+                    {b.consultorios} consultorios · {b.sinAgenda} sin agenda
+                  </p>
+                </div>
+              ))}
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+              <BarChart data={chartData} accessibilityLayer>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="dia" tickLine={false} axisLine={false} className="capitalize" />
+                <YAxis tickLine={false} axisLine={false} width={40} unit=" h" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {buildings.map((_, i) => (
+                  <Bar key={i} dataKey={`e${i}`} fill={`var(--color-e${i})`} radius={4} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </section>
+
+          {building && (
+            <section aria-labelledby="mapa">
+              <h2 id="mapa" className="mb-4 text-xl font-bold text-primary">Mapa de calor por consultorio</h2>
+              <div role="group" aria-label="Edificio" className="mb-3 flex flex-wrap gap-2">
+                {buildings.map((b) => (
+                  <button
+                    key={b.edificioCodigo || "sin-edificio"}
+                    type="button"
+                    aria-pressed={b === building}
+                    onClick={() => setEdificio(b.edificioCodigo)}
+                    className={toggleClass(b === building)}
+                  >
+                    {b.edificio}
+                  </button>
+                ))}
+              </div>
+              <div role="group" aria-label="Día" className="mb-6 flex flex-wrap gap-2">
+                <button type="button" aria-pressed={day === null} onClick={() => setDay(null)} className={toggleClass(day === null)}>
+                  Semana
+                </button>
+                {days.map((d) => (
+                  <button key={d} type="button" aria-pressed={day === d} onClick={() => setDay(d)} className={toggleClass(day === d)}>
+                    {dayLabel(d)}
+                  </button>
+                ))}
+              </div>
+              <RoomHeatmap building={building} days={days} startHour={startHour} endHour={endHour} day={day} />
+            </section>
+          )}
+        </CardContent>
+      </Card>
+    </DirectorioLayout>
+  )
+}
@@ -1,171 +1,122 @@
 "use client"
 
-import { useEffect, useMemo, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ArrowDownIcon, ArrowUpDownIcon, ArrowUpIcon, DownloadIcon, FileSpreadsheetIcon, SearchIcon, XIcon } from "lucide-react"
 import { DirectorioLayout } from "@/components/directorio-layout"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { apiService } from "@/lib/api-service"
 import { Spinner } from "@/components/ui/spinner"
+import { useAgendasDetalladas } from "@/hooks/use-agendas"
+import {
+  CONSOLE_COLUMNS,
+  consoleOptions,
+  downloadCsv,
+  downloadXlsx,
+  EMPTY_CONSOLE_FILTER,
+  filterConsoleRows,
+  isConsoleFilterActive,
+  sortConsoleRows,
+  toConsoleRows,
+} from "@/lib/agenda-console"
+import { formatHHmmTo12h } from "@/lib/utils"
+import type { AgendaConsoleColumn, AgendaConsoleFilter, AgendaConsoleOption, AgendaConsoleSort } from "@/lib/types"
 
-type JsonRecord = Record<string, any>
+// Radix Select no admite value="": "todos" representa la ausencia de filtro
+const ALL = "todos"
 
-export default function AgendasPage() {
-  const [agendas, setAgendas] = useState<JsonRecord[]>([])
-  const [consultorios, setConsultorios] = useState<JsonRecord[]>([])
-  const [dias, setDias] = useState<JsonRecord[]>([])
-  const [edificios, setEdificios] = useState<JsonRecord[]>([])
-  const [pisos, setPisos] = useState<JsonRecord[]>([])
-
-  const [edificioSeleccionado, setEdificioSeleccionado] = useState<string>("")
-  const [pisoSeleccionado, setPisoSeleccionado] = useState<string>("")
+function ColumnFilter({
+  id,
+  label,
+  value,
+  options,
+  onChange,
+  disabled,
+  placeholder = "Todos",
+}: {
+  id: string
+  label: string
+  value: string | null
+  options: AgendaConsoleOption[]
+  onChange: (value: string | null) => void
+  disabled?: boolean
+  placeholder?: string
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block mb-2 font-medium">{label}</label>
+      <Select value={value ?? ALL} onValueChange={(v) => onChange(v === ALL ? null : v)} disabled={disabled}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{placeholder}</SelectItem>
+          {options.map((o) => (
+            <SelectItem key={o.value} value={o.value}>
+              {o.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
 
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+// Consola del personal: todas las agendas decodificadas con el índice compartido (consultorio ->
+// edificio -> piso), con búsqueda, filtros por columna, orden y exportación de lo filtrado
+export default function AgendasPage() {
+  const { agendas, loading, error } = useAgendasDetalladas()
+  const [filter, setFilter] = useState<AgendaConsoleFilter>(EMPTY_CONSOLE_FILTER)
+  const [sort, setSort] = useState<AgendaConsoleSort>({ column: "dia", direction: "asc" })
+  const [exporting, setExporting] = useState(false)
 
-  // Carga inicial de catálogos y agendas
+  // El filtro de edificio arranca con el edificio predeterminado del perfil del kiosco;
+  // se aplica al resolverse el perfil y después el usuario lo cambia libremente
+  const { id: perfilId, edificioPredeterminado } = useKioskProfile()
+  const perfilAplicado = useRef<string | null>(null)
   useEffect(() => {
-    let cancelled = false
-    const load = async () => {
-      try {
-        setLoading(true)
-        
-        // Usar fetch directo como en el código anterior para mejor control
-        const [agRes, consRes, diasRes, edifRes] = await Promise.all([
-          fetch(`/api/agnd-agenda`, { cache: "no-store" }),
-          fetch(`/api/catalogos/consultorios`, { cache: "no-store" }),
-          fetch(`/api/catalogos/dias`, { cache: "no-store" }),
-          fetch(`/api/catalogos/edificios`, { cache: "no-store" }),
-        ])
+    if (perfilAplicado.current === perfilId) return
+    perfilAplicado.current = perfilId
+    if (edificioPredeterminado) setFilter((f) => ({ ...f, edificio: edificioPredeterminado, piso: null }))
+  }, [perfilId, edificioPredeterminado])
 
-        if (!agRes.ok || !consRes.ok || !diasRes.ok || !edifRes.ok) {
-          throw new Error("Error al cargar datos de agendas o catálogos")
-        }
+  const rows = useMemo(() => toConsoleRows(agendas ?? []), [agendas])
 
-        const [agData, consData, diasData, edifData] = await Promise.all([
-          agRes.json(),
-          consRes.json(),
-          diasRes.json(),
-          edifRes.json(),
-        ])
-
-        if (cancelled) return
-        
-        // Normalizar campos desde AGND_AGENDA como en el código anterior
-        const rawAgendas: JsonRecord[] = Array.isArray(agData)
-          ? agData as JsonRecord[]
-          : (Array.isArray((agData as any)?.data) ? (agData as any).data as JsonRecord[] : [])
-        
-        const normalizedAgendas = (rawAgendas || []).map((a: JsonRecord) => {
-          const codigoConsultorio = a.consultorio ?? a.consultorioCodigo ?? a.consultorio_id ?? a.codigo_consultorio
-          const diaCodigo = a.dia ?? a.diaCodigo ?? a.dia_id ?? a.codigo_dia
-          const horaInicio = a.hora ?? a.horario ?? a.horaInicio ?? a.hora_inicio
-          const horaFin = a.horaFin ?? a.horarioFin ?? a.hora_fin
-          const tipo = a.tipo ?? a.type
-          
-          return {
-            ...a,
-            id: a.id ?? a.codigo_agenda ?? a.codigo ?? undefined,
-            consultorio: codigoConsultorio,
-            consultorioCodigo: String(codigoConsultorio ?? ''),
-            dia: diaCodigo,
-            diaCodigo: String(diaCodigo ?? ''),
-            hora: horaInicio,
-            horaInicio: horaInicio,
-            horaFin: horaFin,
-            tipo
-          }
-        })
-
-        setAgendas(normalizedAgendas)
-        setConsultorios(Array.isArray(consData?.data) ? consData.data : consData)
-        setDias(Array.isArray(diasData?.data) ? diasData.data : diasData)
-        setEdificios(Array.isArray(edifData?.data) ? edifData.data : edifData)
-        setError(null)
-      } catch (e) {
-        setError(e instanceof Error ? e.message : "Error desconocido")
-      } finally {
-        if (!cancelled) setLoading(false)
-      }
-    }
-
-    load()
-    return () => {
-      cancelled = true
+  // Los pisos se listan por edificio: el mismo código de piso existe en varios edificios
+  const options = useMemo(() => {
+    const delEdificio = filter.edificio ? rows.filter((r) => r.edificioCodigo === filter.edificio) : []
+    return {
+      edificio: consoleOptions(rows, "edificio"),
+      piso: consoleOptions(delEdificio, "piso"),
+      dia: consoleOptions(rows, "dia"),
+      medico: consoleOptions(rows, "medico"),
+      especialidad: consoleOptions(rows, "especialidad"),
+      consultorio: consoleOptions(rows, "consultorio"),
     }
-  }, [])
-
-  // Cuando se elige un edificio, cargar sus pisos desde el endpoint dedicado
-  useEffect(() => {
-    let cancelled = false
-    const loadFloors = async () => {
-      try {
-        if (!edificioSeleccionado) {
-          setPisos([])
-          setPisoSeleccionado("")
-          return
-        }
-        
-        const res = await fetch(`/api/catalogos/edificios/${edificioSeleccionado}/pisos`, { cache: "no-store" })
+  }, [rows, filter.edificio])
 
-        if (!res.ok) throw new Error("Error al cargar pisos del edificio")   
-        
-        const data = await res.json()
-        if (!cancelled) {
-          const pisosList = Array.isArray(data?.data) ? data.data : data
-          setPisos(pisosList)
-          setPisoSeleccionado("")
-        }
-      } catch (e) {
-        if (!cancelled) setError(e instanceof Error ? e.message : "Error cargando pisos")
-      }
-    }
-    loadFloors()
-    return () => {
-      cancelled = true
-    }
-  }, [edificioSeleccionado])
+  const visibles = useMemo(() => sortConsoleRows(filterConsoleRows(rows, filter), sort), [rows, filter, sort])
 
-  const consultorioPorCodigo: Record<string, JsonRecord> = useMemo(() => {
-    const map: Record<string, JsonRecord> = {}
-    consultorios.forEach((c) => {
-      const codigo = String(c.codigo ?? c.id ?? "")
-      if (codigo) map[codigo] = c
-    })
-    return map
-  }, [consultorios])
+  const update = (patch: Partial<AgendaConsoleFilter>) => setFilter((f) => ({ ...f, ...patch }))
 
-  const nombreDiaPorCodigo: Record<string, string> = useMemo(() => {
-    const map: Record<string, string> = {}
-    dias.forEach((d) => {
-      const codigo = String(d.codigo ?? d.id ?? "")
-      const nombre = String(d.nombre ?? d.descripcion ?? d.name ?? "")
-      if (codigo) map[codigo] = nombre
-    })
-    return map
-  }, [dias])
+  const toggleSort = (column: AgendaConsoleColumn) =>
+    setSort((s) => ({ column, direction: s.column === column && s.direction === "asc" ? "desc" : "asc" }))
 
-  const agendasFiltradas = useMemo(() => {
-    // Enriquecer agendas con datos de consultorio, edificio, piso y día como en el código anterior
-    const enriquecidas: JsonRecord[] = agendas.map((a: JsonRecord) => {
-      const codigoConsultorio = String(a.consultorio ?? a.consultorioCodigo ?? a.consultorio_id ?? a.codigo_consultorio ?? "")
-      const c = consultorioPorCodigo[codigoConsultorio]
-      return {
-        ...a,
-        consultorioCodigo: codigoConsultorio,
-        consultorioNombre: c?.nombre ?? c?.descripcion ?? "",
-        edificio: c?.edificio ?? "",
-        piso: c?.piso ?? "",
-        diaNombre: nombreDiaPorCodigo[String(a.dia ?? a.diaCodigo ?? a.dia_id ?? a.codigo_dia ?? "")] ?? "",
-      }
-    })
+  const fileName = `agendas-${new Date().toISOString().slice(0, 10)}`
 
-    return enriquecidas.filter((a) => {
-      if (edificioSeleccionado && String(a.edificio) !== String(edificioSeleccionado)) return false
-      if (pisoSeleccionado && String(a.piso) !== String(pisoSeleccionado)) return false
-      return true
-    })
-  }, [agendas, consultorioPorCodigo, nombreDiaPorCodigo, edificioSeleccionado, pisoSeleccionado])
+  const exportXlsx = async () => {
+    setExporting(true)
+    try {
+      await downloadXlsx(visibles, fileName)
+    } catch (e) {
+      console.error("[agendas] No se pudo exportar a XLSX:", e)
+    } finally {
+      setExporting(false)
+    }
+  }
 
   if (loading) {
     return (
@@ -192,66 +143,126 @@ export default function AgendasPage() {
 
   return (
     <DirectorioLayout>
-      <Card className="w-full max-w-5xl">
+      <Card className="w-full max-w-7xl">
         <CardContent className="p-4 md:p-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
             <div>
-              <label className="block mb-2 font-medium">Edificio</label>
-              <Select value={edificioSeleccionado} onValueChange={setEdificioSeleccionado}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Todos los edificios" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">Todos</SelectItem>
-                  {edificios.map((e) => (
-                    <SelectItem key={String(e.codigo ?? e.id)} value={String(e.codigo ?? e.id)}>
-                      {String(e.nombre ?? e.descripcion ?? e.name ?? e.codigo ?? e.id)}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <h1 className="text-2xl font-bold text-primary">Consola de agendas</h1>
+              <p className="text-sm text-muted-foreground" aria-live="polite">
+                {visibles.length} de {rows.length} agendas
+              </p>
             </div>
-            <div>
-              <label className="block mb-2 font-medium">Piso</label>
-              <Select value={pisoSeleccionado} onValueChange={setPisoSeleccionado}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Todos los pisos" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">Todos</SelectItem>
-                  {pisos.map((p) => (
-                    <SelectItem key={String(p.codigo ?? p.id)} value={String(p.codigo ?? p.id)}>
-                      {String(p.nombre ?? p.descripcion ?? p.name ?? p.codigo ?? p.id)}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => downloadCsv(visibles, fileName)} disabled={visibles.length === 0}>
+                <DownloadIcon aria-hidden="true" />
+                CSV
+              </Button>
+              <Button variant="outline" onClick={exportXlsx} disabled={visibles.length === 0 || exporting}>
+                <FileSpreadsheetIcon aria-hidden="true" />
+                XLSX
+              </Button>
             </div>
           </div>
 
+          <div className="relative mb-4">
+            <SearchIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+            <Input
+              type="search"
+              value={filter.busqueda}
+              onChange={(e) => update({ busqueda: e.target.value })}
+              placeholder="Buscar por médico, especialidad, consultorio, edificio, piso o día"
+              aria-label="Buscar agendas"
+              className="pl-9"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+            <ColumnFilter
+              id="filtro-edificio"
+              label="Edificio"
+              value={filter.edificio}
+              options={options.edificio}
+              onChange={(edificio) => update({ edificio, piso: null })}
+            />
+            <ColumnFilter
+              id="filtro-piso"
+              label="Piso"
+              value={filter.piso}
+              options={options.piso}
+              onChange={(piso) => update({ piso })}
+              disabled={!filter.edificio}
+              placeholder={filter.edificio ? "Todos" : "Elija un edificio"}
+            />
+            <ColumnFilter id="filtro-dia" label="Día" value={filter.dia} options={options.dia} onChange={(dia) => update({ dia })} />
+            <ColumnFilter id="filtro-medico" label="Médico" value={filter.medico} options={options.medico} onChange={(medico) => update({ medico })} />
+            <ColumnFilter
+              id="filtro-especialidad"
+              label="Especialidad"
+              value={filter.especialidad}
+              options={options.especialidad}
+              onChange={(especialidad) => update({ especialidad })}
+            />
+            <ColumnFilter
+              id="filtro-consultorio"
+              label="Consultorio"
+              value={filter.consultorio}
+              options={options.consultorio}
+              onChange={(consultorio) => update({ consultorio })}
+            />
+          </div>
+
+          {isConsoleFilterActive(filter) && (
+            <Button variant="ghost" className="mb-4" onClick={() => setFilter(EMPTY_CONSOLE_FILTER)}>
+              <XIcon aria-hidden="true" />
+              Limpiar filtros
+            </Button>
+          )}
+
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Día</TableHead>
-                  <TableHead>Consultorio</TableHead>
-                  <TableHead>Edificio</TableHead>
-                  <TableHead>Piso</TableHead>
-                  <TableHead>Hora</TableHead>
-                  <TableHead>Tipo</TableHead>
+                  {CONSOLE_COLUMNS.map(({ id, label }) => {
+                    const active = sort.column === id
+                    const SortIcon = !active ? ArrowUpDownIcon : sort.direction === "asc" ? ArrowUpIcon : ArrowDownIcon
+                    return (
+                      <TableHead
+                        key={id}
+                        aria-sort={active ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                      >
+                        <button type="button" className="inline-flex items-center gap-1 font-medium" onClick={() => toggleSort(id)}>
+                          {label}
+                          <SortIcon className={`h-4 w-4 ${active ? "" : "opacity-40"}`} aria-hidden="true" />
+                        </button>
+                      </TableHead>
+                    )
+                  })}
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {agendasFiltradas.map((a, idx) => (
-                  <TableRow key={a.id ?? idx}>
-                    <TableCell>{a.diaNombre || a.dia || ""}</TableCell>
-                    <TableCell>{a.consultorioNombre || a.consultorioCodigo}</TableCell>
-                    <TableCell>{a.edificio}</TableCell>
-                    <TableCell>{a.piso}</TableCell>
-                    <TableCell>{a.hora ?? a.horario ?? a.horaInicio ?? ""}</TableCell>
-                    <TableCell>{a.tipo ?? ''}</TableCell>
+                {visibles.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={CONSOLE_COLUMNS.length} className="py-8 text-center text-muted-foreground">
+                      Ninguna agenda coincide con los filtros
+                    </TableCell>
                   </TableRow>
-                ))}
+                ) : (
+                  visibles.map((a) => (
+                    <TableRow key={a.key}>
+                      <TableCell>{a.dia}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatHHmmTo12h(a.inicio)}
+                        {a.fin && ` - ${formatHHmmTo12h(a.fin)}`}
+                      </TableCell>
+                      <TableCell>{a.medico || a.codigoPrestador}</TableCell>
+                      <TableCell>{a.especialidad}</TableCell>
+                      <TableCell>{a.consultorio}</TableCell>
+                      <TableCell>{a.edificio}</TableCell>
+                      <TableCell>{a.piso}</TableCell>
+                      <TableCell>{a.tipo}</TableCell>
+                    </TableRow>
+                  ))
+                )}
               </TableBody>
             </Table>
           </div>
@@ -260,5 +271,3 @@ export default function AgendasPage() {
     </DirectorioLayout>
   )
 }
-
-
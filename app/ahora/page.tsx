@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Image from "next/image"
+import { Clock3Icon, DoorOpenIcon } from "lucide-react"
+import { CurrentTime } from "@/components/current-time"
+import { OfflineBanner } from "@/components/offline-banner"
+import { Spinner } from "@/components/ui/spinner"
+import { useI18n } from "@/components/i18n-provider"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { useAgendasDetalladas } from "@/hooks/use-agendas"
+import { config } from "@/lib/config"
+import { normalizeDayKey, WEEK_DAYS } from "@/lib/doctor-schedule"
+import type { Messages } from "@/lib/i18n"
+import { kioskDistance } from "@/lib/kiosk-profile"
+import { formatHHmmTo12h, hhmmToMinutes } from "@/lib/utils"
+import type { AgendaDetallada, KioskProfile, Locale } from "@/lib/types"
+
+interface BoardRow {
+  key: string
+  medico: string
+  especialidad: string
+  horario: string
+  consultorio: string
+  piso: string
+  edificio: string
+  activo: boolean
+  inicio: number
+  distancia: number // cercanía al kiosco (lib/kiosk-profile.ts)
+}
+
+// Agendas de hoy activas ahora o que empiezan dentro de la ventana configurada,
+// solo del edificio predeterminado del kiosco si el perfil define uno
+const buildRows = (
+  agendas: AgendaDetallada[],
+  now: Date,
+  profile: KioskProfile,
+  t: Messages,
+  locale: Locale
+): BoardRow[] => {
+  const { upcomingWindow, defaultSlotMinutes } = config.liveBoard
+  const today = WEEK_DAYS[(now.getDay() + 6) % 7]
+  const nowMinutes = now.getHours() * 60 + now.getMinutes()
+  const seen = new Set<string>()
+
+  return agendas
+    .flatMap((a): BoardRow[] => {
+      if (normalizeDayKey(a.diaNombre || "") !== today) return []
+      if (profile.edificioPredeterminado && a.buildingCode !== profile.edificioPredeterminado) return []
+      const inicio = hhmmToMinutes(a.horaInicioHHmm)
+      if (inicio == null) return []
+      const fin = hhmmToMinutes(a.horaFinHHmm) ?? inicio + defaultSlotMinutes
+
+      const activo = inicio <= nowMinutes && nowMinutes < fin
+      const proximo = inicio > nowMinutes && inicio - nowMinutes <= upcomingWindow
+      if (!activo && !proximo) return []
+
+      // Una fila por médico, consultorio y hora (consulta y procedimiento pueden repetirse)
+      const key = `${a.codigo_prestador}|${a.consultorioCodigo ?? a.codigo_consultorio}|${a.horaInicioHHmm}`
+      if (seen.has(key)) return []
+      seen.add(key)
+
+      const horaInicio = formatHHmmTo12h(a.horaInicioHHmm || "")
+      return [{
+        key,
+        medico: a.medico || t.defaults.doctorName,
+        especialidad: a.especialidad || "",
+        horario: a.horaFinHHmm ? `${horaInicio} - ${formatHHmmTo12h(a.horaFinHHmm)}` : horaInicio,
+        consultorio: a.consultorioDescripcion || String(a.codigo_consultorio || t.defaults.notSpecified),
+        piso: a.pisoDescripcion || t.defaults.notSpecified,
+        edificio: a.edificioDescripcion || a.buildingCode || t.defaults.notSpecified,
+        activo,
+        inicio,
+        distancia: kioskDistance(profile.ubicacion, a),
+      }]
+    })
+    .sort((a, b) =>
+      a.activo !== b.activo
+        ? (a.activo ? -1 : 1)
+        : a.distancia - b.distancia || a.inicio - b.inicio || a.medico.localeCompare(b.medico, locale)
+    )
+}
+
+export default function AhoraPage() {
+  const { agendas, loading, error, refresh } = useAgendasDetalladas()
+  const profile = useKioskProfile()
+  const { t, locale } = useI18n()
+  const [now, setNow] = useState<Date | null>(null)
+  const [page, setPage] = useState(0)
+
+  // Reloj del tablero (se inicia en el cliente para no desalinear el HTML del servidor)
+  useEffect(() => {
+    setNow(new Date())
+    const timer = setInterval(() => setNow(new Date()), config.liveBoard.clockInterval)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Recarga periódica de agendas sin intervención
+  useEffect(() => {
+    const timer = setInterval(() => {
+      refresh().catch(() => {})
+    }, config.liveBoard.refreshInterval)
+    return () => clearInterval(timer)
+  }, [refresh])
+
+  const rows = useMemo(
+    () => (agendas && now ? buildRows(agendas, now, profile, t, locale) : []),
+    [agendas, now, profile, t, locale]
+  )
+  const pageCount = Math.max(1, Math.ceil(rows.length / config.liveBoard.pageSize))
+
+  // Paginación automática
+  useEffect(() => {
+    if (pageCount <= 1) return
+    const timer = setInterval(() => setPage((p) => (p + 1) % pageCount), config.liveBoard.pageInterval)
+    return () => clearInterval(timer)
+  }, [pageCount])
+
+  // Si la lista se acorta, volver a una página válida
+  useEffect(() => {
+    if (page >= pageCount) setPage(0)
+  }, [page, pageCount])
+
+  const visibleRows = rows.slice(page * config.liveBoard.pageSize, (page + 1) * config.liveBoard.pageSize)
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background text-accent2">
+      <header className="w-full bg-[#7F0C43] text-white shadow-lg">
+        <div className="mx-auto w-full max-w-7xl px-8 h-28 flex items-center justify-between gap-6">
+          <Image src={config.images.hvqLogo} alt="Hospital Vozandes Quito" width={200} height={200} className="w-15 h-15" />
+          <h1 className="text-4xl font-bold text-center">{t.liveBoard.title}</h1>
+          <CurrentTime variant="compact" />
+        </div>
+      </header>
+
+      <OfflineBanner />
+
+      <main className="flex-1 w-full max-w-7xl mx-auto px-8 py-8">
+        {loading || !now ? (
+          <div className="flex items-center justify-center min-h-[400px]">
+            <Spinner size="lg" />
+          </div>
+        ) : error ? (
+          <p className="text-3xl text-center text-[#7F0C43] mt-24">{t.liveBoard.loadError}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-3xl text-center mt-24">{t.liveBoard.empty}</p>
+        ) : (
+          <div className="w-full" aria-live="polite">
+            <div className="grid grid-cols-[2.5fr_1.4fr_1.4fr_1fr_1fr_1.2fr] gap-4 px-6 pb-3 text-xl font-semibold text-[#7F0C43] border-b-2 border-[#7F0C43]">
+              <span>{t.liveBoard.doctor}</span>
+              <span>{t.liveBoard.hours}</span>
+              <span>{t.liveBoard.room}</span>
+              <span>{t.liveBoard.floor}</span>
+              <span>{t.liveBoard.building}</span>
+              <span>{t.liveBoard.status}</span>
+            </div>
+            <ul>
+              {visibleRows.map((row) => (
+                <li
+                  key={row.key}
+                  className="grid grid-cols-[2.5fr_1.4fr_1.4fr_1fr_1fr_1.2fr] gap-4 items-center px-6 py-4 text-2xl border-b border-[#E5E5E5]"
+                >
+                  <div>
+                    <p className="font-bold text-[#333333]">{t.doctor.title(row.medico)}</p>
+                    {row.especialidad && <p className="text-lg">{row.especialidad}</p>}
+                  </div>
+                  <span className="flex items-center gap-2">
+                    <Clock3Icon className="w-6 h-6 shrink-0" aria-hidden="true" />
+                    {row.horario}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <DoorOpenIcon className="w-6 h-6 shrink-0" aria-hidden="true" />
+                    {row.consultorio}
+                  </span>
+                  <span>{row.piso}</span>
+                  <span>{row.edificio}</span>
+                  <span
+                    className={`rounded-full px-4 py-2 text-lg font-semibold text-center ${
+                      row.activo ? "bg-green-100 text-green-800" : "bg-amber-100 text-amber-900"
+                    }`}
+                  >
+                    {row.activo ? t.liveBoard.active : t.liveBoard.upcoming}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+
+      {pageCount > 1 && (
+        <footer className="pb-8 flex flex-col items-center gap-3">
+          <div className="flex gap-3" aria-hidden="true">
+            {Array.from({ length: pageCount }, (_, i) => (
+              <span key={i} className={`w-4 h-4 rounded-full ${i === page ? "bg-[#7F0C43]" : "bg-[#E5E5E5]"}`} />
+            ))}
+          </div>
+          <p className="text-xl">{t.common.page(page + 1, pageCount)}</p>
+        </footer>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+// Estadísticas de uso del kiosco.
+// POST: lotes de eventos que envía lib/analytics.ts desde el navegador del kiosco; solo del mismo
+// origen. Se guardan en disco (lib/analytics-store.ts).
+// GET ?dias=N: resumen de los últimos N días para /admin/estadisticas (usuario del personal, middleware.ts).
+import { NextResponse, type NextRequest } from "next/server"
+import { appendEvents, readEvents, summarizeEvents } from "@/lib/analytics-store"
+import { config } from "@/lib/config"
+import { analyticsBatchSchema, formatIssues } from "@/lib/schemas"
+
+export const dynamic = "force-dynamic"
+
+const DAY_MS = 86400000
+
+// El navegador marca las peticiones con Sec-Fetch-Site y Origin (también las de sendBeacon);
+// sin ninguno de los dos no viene de una página de este sitio
+function isSameOrigin(request: NextRequest): boolean {
+  const site = request.headers.get("sec-fetch-site")
+  if (site) return site === "same-origin"
+  const origin = request.headers.get("origin")
+  if (!origin) return false
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host")
+  try {
+    return new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) {
+    return NextResponse.json({ message: "Origen no permitido" }, { status: 403 })
+  }
+
+  let payload: unknown
+  try {
+    payload = await request.json()
+  } catch {
+    return NextResponse.json({ message: "JSON inválido" }, { status: 400 })
+  }
+
+  const result = analyticsBatchSchema.safeParse(payload)
+  if (!result.success) {
+    return NextResponse.json({ message: formatIssues(result.error)[0] }, { status: 400 })
+  }
+
+  try {
+    await appendEvents(result.data.events)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("[analytics] No se pudieron guardar los eventos:", error)
+    return NextResponse.json({ message: "No se pudieron guardar los eventos" }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const dias = Number(request.nextUrl.searchParams.get("dias") ?? 7)
+  if (!Number.isInteger(dias) || dias < 1 || dias > config.analytics.retentionDays) {
+    return NextResponse.json(
+      { message: `dias debe ser un entero entre 1 y ${config.analytics.retentionDays}` },
+      { status: 400 }
+    )
+  }
+
+  const hasta = Date.now()
+  const desde = hasta - dias * DAY_MS
+  try {
+    const events = await readEvents(desde, hasta)
+    return NextResponse.json(summarizeEvents(events, desde, hasta), { headers: { "Cache-Control": "no-store" } })
+  } catch (error) {
+    console.error("[analytics] No se pudieron leer los eventos:", error)
+    return NextResponse.json({ message: "No se pudieron leer los eventos" }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+// Proxy del mismo origen hacia el middleware api3.
+// El navegador llama a /api/middleware/<ruta>; aquí se adjunta el token Bearer
+// obtenido en el servidor y se reenvía la respuesta tal cual. El token se renueva
+// antes de expirar y, si el middleware responde 401, una vez más con reintento (lib/auth.ts).
+import { NextResponse, type NextRequest } from "next/server"
+import { fetchWithAuth } from "@/lib/auth"
+import { config } from "@/lib/config"
+
+export const dynamic = "force-dynamic"
+
+// Solo se exponen los recursos que consume el directorio
+const ALLOWED_RESOURCES = ["especialidades", "medico"]
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params
+  const segments = Array.isArray(path) ? path : []
+
+  if (segments.length === 0 || !ALLOWED_RESOURCES.includes(segments[0])) {
+    return NextResponse.json({ message: "Recurso no permitido" }, { status: 404 })
+  }
+
+  const upstreamPath = segments.map((s) => encodeURIComponent(s)).join("/")
+  const url = `${config.api.authUrl}/${upstreamPath}${request.nextUrl.search}`
+
+  try {
+    const response = await fetchWithAuth(url, {
+      headers: { Accept: "application/json" },
+      cache: "no-store",
+      signal: AbortSignal.timeout(config.api.timeout),
+    })
+
+    const body = await response.text()
+    return new NextResponse(body, {
+      status: response.status,
+      headers: {
+        "Content-Type": response.headers.get("Content-Type") || "application/json",
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    const isTimeout = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")
+    return NextResponse.json(
+      { message: isTimeout ? "Request timeout" : error instanceof Error ? error.message : "Error de conexión con el middleware" },
+      { status: isTimeout ? 504 : 502 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+// Agendas de un médico para la página móvil del QR (app/movil).
+// El teléfono del paciente no alcanza el backend de la red interna (y por https sería contenido
+// mixto): aquí se consultan y decodifican en el servidor con el mismo apiService del kiosco.
+// GET ?especialidadId=N limita las agendas a esa especialidad.
+import { NextResponse, type NextRequest } from "next/server"
+import { apiService } from "@/lib/api-service"
+
+export const dynamic = "force-dynamic"
+
+// Códigos de prestador y especialidad del backend (sin barras ni parámetros extra)
+const CODE_PATTERN = /^[\w-]+$/
+
+interface RouteContext {
+  params: Promise<{ prestador: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { prestador } = await params
+  const especialidadId = request.nextUrl.searchParams.get("especialidadId") ?? undefined
+
+  if (!CODE_PATTERN.test(prestador) || (especialidadId !== undefined && !CODE_PATTERN.test(especialidadId))) {
+    return NextResponse.json({ message: "Código inválido" }, { status: 400 })
+  }
+
+  const res = await apiService.getAgendasDetalladasPorMedico(prestador, especialidadId)
+  if (!res.success) {
+    return NextResponse.json({ message: res.message || "Error de conexión con el backend" }, { status: 502 })
+  }
+  return NextResponse.json(res.data, { headers: { "Cache-Control": "no-store" } })
+}
@@ -8,15 +8,36 @@ import { VirtualKeyboard } from "@/components/virtual-keyboard"
 import { SearchIcon } from "lucide-react"
 import { DoctorCard } from "@/components/doctor-card"
 import { Spinner } from "@/components/ui/spinner"
-import { useDoctorsCache } from "@/hooks/use-doctors-cache"
+import { useDoctors } from "@/hooks/use-doctors"
+import { useSearchTracking } from "@/hooks/use-analytics"
+import { useI18n } from "@/components/i18n-provider"
+import { buildDoctorSearchIndex, searchDoctors } from "@/lib/doctor-search"
+import type { Doctor, DoctorSearchResult } from "@/lib/types"
 
 type DoctorItem = {
   id: string
   name: string
   specialtyId: string
   specialtyLabel: string
+  especialidades: Array<{ id: string; label: string }>
   photo?: string | null
-  norm: string
+  highlights?: { name: DoctorSearchResult["nameRanges"]; specialties: DoctorSearchResult["specialtyRanges"] }
+}
+
+// Los médicos ya llegan en forma canónica (lib/schemas.ts) con todas sus especialidades.
+// La especialidad principal es la que coincidió con la búsqueda o, si no, la primera.
+function toDoctorItem(d: Doctor, result?: DoctorSearchResult): DoctorItem {
+  const especialidades = d.especialidades.map((esp) => ({ id: esp.especialidadId, label: esp.descripcion }))
+  const principal = especialidades.find((esp) => esp.id === result?.matchedSpecialtyId) ?? especialidades[0]
+  return {
+    id: d.id,
+    name: d.nombres,
+    specialtyId: principal?.id ?? "",
+    specialtyLabel: principal?.label ?? "",
+    especialidades,
+    photo: d.retrato ?? null,
+    highlights: result ? { name: result.nameRanges, specialties: result.specialtyRanges } : undefined,
+  }
 }
 
 const PAGE_SIZE = 12
@@ -27,85 +48,26 @@ export default function DoctorSearchPage() {
   const [page, setPage] = useState(0)
   const [isPaginationDisabled, setIsPaginationDisabled] = useState(false)
 
-  // Usar el hook de caché para obtener los datos de médicos
-  const { doctors, loading, error } = useDoctorsCache()
+  // Médicos desde la caché unificada (lib/cache.ts)
+  const { doctors, loading, error } = useDoctors()
+  const { t } = useI18n()
 
-  // Normalizador y lista base normalizada una sola vez por cambio de doctors
-  const normalizedDoctors: DoctorItem[] = useMemo(() => {
-    const normalize = (s: string) =>
-      String(s || "")
-        .normalize("NFD")
-        .replace(/[\u0300-\u036f]/g, "")
-        .toLowerCase()
-  // Traer todas las especialidades que tenga cada médico
-    return doctors
-      .map((d: any) => {
-        const id = String(d.id ?? d.codigo ?? d.codigo_prestador ?? d.codigoPrestador ?? "")
-        const name = String(d.nombres ?? d.nombre ?? "")
-        
-        // Extraer todas las especialidades
-        let especialidades: Array<{id: string, label: string}> = []
-        
-        if (Array.isArray(d.especialidades) && d.especialidades.length > 0) {
-          especialidades = d.especialidades.map((esp: any) => {
-            if (esp && typeof esp === "object") {
-              const espId = String((esp as any).especialidadId ?? (esp as any).id ?? (esp as any).codigo ?? "")
-              const espLabel = String((esp as any).descripcion ?? (esp as any).nombre ?? espId)
-              return { id: espId, label: espLabel }
-            } else {
-              const espStr = String(esp)
-              return { id: espStr, label: espStr }
-            }
-          }).filter((esp: any) => esp.id.trim().length > 0)
-        } else {
-          // Fallback para médicos con especialidad individual
-          const singleSpecialtyId = String(d.especialidadId ?? d.especialidad ?? "")
-          if (singleSpecialtyId.trim().length > 0) {
-            especialidades = [{ id: singleSpecialtyId, label: singleSpecialtyId }]
-          }
-        }
-        
-        // Para compatibilidad con el componente actual, usar la primera especialidad como principal
-        const specialtyId = especialidades.length > 0 ? especialidades[0].id : ""
-        const specialtyLabel = especialidades.length > 0 ? especialidades[0].label : ""
-        
-        const photo = d.retrato ?? d.foto ?? null
-        return {
-          id,
-          name,
-          specialtyId, // Especialidad principal (primera)
-          specialtyLabel, // Etiqueta de especialidad principal
-          especialidades, // Todas las especialidades
-          photo,
-          norm: normalize(name),
-        }
-      })
-      .filter(d => d.name.trim().length > 0)
-  }, [doctors])
+  // Lista base e índice de búsqueda (lib/doctor-search.ts) una sola vez por cambio de doctors
+  const namedDoctors = useMemo(() => doctors.filter(d => d.nombres.trim().length > 0), [doctors])
+  const normalizedDoctors: DoctorItem[] = useMemo(() => namedDoctors.map((d) => toDoctorItem(d)), [namedDoctors])
+  const searchIndex = useMemo(() => buildDoctorSearchIndex(namedDoctors), [namedDoctors])
 
   // Resetear página al cambiar lista o el término de búsqueda
   useEffect(() => {
     setPage(0)
   }, [searchTerm, normalizedDoctors.length])
 
-  // Filtrado y/o paginación
+  // Búsqueda tolerante a errores (ordenada por relevancia) y/o paginación
   const filteredDoctors: DoctorItem[] = useMemo(() => {
-    const collator = new Intl.Collator("es", { sensitivity: "base" })
     const trimmed = searchTerm.trim()
 
     if (trimmed) {
-      const q = trimmed
-        .normalize("NFD")
-        .replace(/[\u0300-\u036f]/g, "")
-        .toLowerCase()
-
-      return normalizedDoctors
-        .filter(
-          d =>
-            d.norm.includes(q) ||
-            String(d.specialtyLabel || "").toLowerCase().includes(q)
-        )
-        .sort((a, b) => collator.compare(a.name, b.name))
+      return searchDoctors(searchIndex, trimmed).map((result) => toDoctorItem(result.doctor, result))
     }
 
     // Modo SIN búsqueda: paginar en bloques de 21, orden alfabético por nombre
@@ -117,7 +79,9 @@ export default function DoctorSearchPage() {
     const start = page * PAGE_SIZE
     const end = start + PAGE_SIZE
     return sorted.slice(start, end)
-  }, [normalizedDoctors, searchTerm, page])
+  }, [normalizedDoctors, searchIndex, searchTerm, page])
+
+  useSearchTracking("doctors", searchTerm, filteredDoctors.length, !loading)
 
   // Total de páginas solo para modo sin búsqueda
   const totalPages = useMemo(() => {
@@ -173,7 +137,7 @@ export default function DoctorSearchPage() {
   if (error) {
     return (
       <DirectorioLayout>
-        <p className="doctor-search-empty">{error}</p>
+        <p className="doctor-search-empty">{t.errors.loadingDoctors}</p>
       </DirectorioLayout>
     )
   }
@@ -183,12 +147,12 @@ export default function DoctorSearchPage() {
       <div style={{ paddingTop: "50px" }}>
         <div className="sticky top-24 z-30 w-full bg-background/90 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b">
           <div className="w-full px-4">
-            <h1 className="doctor-search-title">Buscar Doctor por Nombre</h1>
+            <h1 className="doctor-search-title">{t.doctorSearch.title}</h1>
             <div className="doctor-search-input-container" style={{ maxWidth: "100%" }}>
               <div className="doctor-search-input-wrapper" style={{ width: "100%" }}>
                 <Input
                   type="text"
-                  placeholder="Escribe el nombre del doctor..."
+                  placeholder={t.doctorSearch.placeholder}
                   value={searchTerm}
                   onFocus={() => setIsKeyboardOpen(true)}
                   readOnly
@@ -196,7 +160,7 @@ export default function DoctorSearchPage() {
                   aria-controls="virtual-kb"
                   className="doctor-search-input"
                 />
-                <SearchIcon className="doctor-search-icon" />
+                <SearchIcon className="doctor-search-icon" aria-hidden="true" />
               </div>
             </div>
           </div>
@@ -217,6 +181,7 @@ export default function DoctorSearchPage() {
                           specialtyName={specLabel}
                           basePath={`/specialties/${specSlug}`}
                           queryParams={{ source: 'doctor' }}
+                          highlights={doctor.highlights}
                         />
                       </div>
                     )
@@ -232,9 +197,9 @@ export default function DoctorSearchPage() {
                       className="px-6 py-3 bg-gradient-to-r from-[#5A0A2F] to-[#6B0F35] hover:from-[#6B0F35] hover:to-[#5A0A2F] text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-lg min-w-[100px] text-sm"
                       onClick={goToFirstPage}
                       disabled={page === 0 || isPaginationDisabled}
-                      aria-label="Ir al inicio"
+                      aria-label={t.doctorSearch.firstLabel}
                     >
-                      ⏮ Inicio
+                      {t.doctorSearch.first}
                     </button>
                     
                     {/* Botón Página anterior */}
@@ -243,15 +208,15 @@ export default function DoctorSearchPage() {
                       className="px-8 py-4 bg-gradient-to-r from-[#7F0C43] to-[#8C1843] hover:from-[#8C1843] hover:to-[#7F0C43] text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-lg min-w-[120px] text-lg"
                       onClick={goToPreviousPage}
                       disabled={page === 0 || isPaginationDisabled}
-                      aria-label="Página anterior"
+                      aria-label={t.doctorSearch.previousLabel}
                     >
-                      ← Anterior
+                      {t.doctorSearch.previous}
                     </button>
                     
                     {/* Indicador de página actual */}
                     <div className="px-6 py-3 bg-gradient-to-r from-[#F9F4F6] to-[#E5E5E5] rounded-xl shadow-md border border-[#E5E5E5]">
                       <span className="text-lg font-semibold text-[#7F0C43]">
-                        Página {page + 1} de {totalPages}
+                        {t.common.page(page + 1, totalPages)}
                       </span>
                     </div>
                     
@@ -261,9 +226,9 @@ export default function DoctorSearchPage() {
                       className="px-8 py-4 bg-gradient-to-r from-[#7F0C43] to-[#8C1843] hover:from-[#8C1843] hover:to-[#7F0C43] text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-lg min-w-[120px] text-lg"
                       onClick={goToNextPage}
                       disabled={page >= totalPages - 1 || isPaginationDisabled}
-                      aria-label="Página siguiente"
+                      aria-label={t.doctorSearch.nextLabel}
                     >
-                      Siguiente →
+                      {t.doctorSearch.next}
                     </button>
                     
                     {/* Botón Ir al final */}
@@ -272,18 +237,16 @@ export default function DoctorSearchPage() {
                       className="px-6 py-3 bg-gradient-to-r from-[#5A0A2F] to-[#6B0F35] hover:from-[#6B0F35] hover:to-[#5A0A2F] text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-lg min-w-[100px] text-sm"
                       onClick={goToLastPage}
                       disabled={page >= totalPages - 1 || isPaginationDisabled}
-                      aria-label="Ir al final"
+                      aria-label={t.doctorSearch.lastLabel}
                     >
-                      Final ⏭
+                      {t.doctorSearch.last}
                     </button>
                   </div>
                 )}
               </>
             ) : (
               <p className="doctor-search-empty">
-                {searchTerm
-                  ? "No se encontraron doctores con ese nombre."
-                  : "No hay doctores para mostrar."}
+                {searchTerm ? t.doctorSearch.empty : t.doctorSearch.none}
               </p>
             )}
           </div>
@@ -294,7 +257,7 @@ export default function DoctorSearchPage() {
             value={searchTerm}
             onChange={setSearchTerm}
             onClose={() => setIsKeyboardOpen(false)}
-            placeholder="Buscar por nombre del doctor"
+            placeholder={t.doctorSearch.keyboardPlaceholder}
             onEnter={handleEnter}
           />
         )}
@@ -1,10 +1,17 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { GeistSans } from 'geist/font/sans'
 import { GeistMono } from 'geist/font/mono'
 import './globals.css'
 import 'react-simple-keyboard/build/css/index.css'
 import IdleRedirect from '@/components/idle-redirect'
 import DisableZoomAndContext from '@/components/disable-zoom-and-context'
+import { ServiceWorkerRegister } from '@/components/service-worker-register'
+import { AnalyticsTracker } from '@/components/analytics-tracker'
+import { KioskProfileProvider } from '@/components/kiosk-profile-provider'
+import { I18nProvider } from '@/components/i18n-provider'
+import { ThemeProvider } from '@/components/theme-provider'
+import { AccessibilityProvider } from '@/components/accessibility-provider'
+import { THEMES } from '@/lib/constants'
 import { config } from '@/lib/config'
 
 export const metadata: Metadata = {
@@ -12,15 +19,22 @@ export const metadata: Metadata = {
   description: config.app.description,
 }
 
+// Pantalla del kiosco sin zoom; app/movil/layout.tsx lo vuelve a permitir en el teléfono
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  maximumScale: 1,
+  userScalable: false,
+}
+
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
   return (
-    <html lang="en">
+    <html lang="es" suppressHydrationWarning>
       <head>
-        <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no" />
         <style>{`
 html {
   font-family: ${GeistSans.style.fontFamily};
@@ -31,9 +45,27 @@ html {
       </head>
       <body>
         <DisableZoomAndContext />
-        <IdleRedirect timeoutMs={config.app.idleTimeout} homePath="/">
-          {children}
-        </IdleRedirect>
+        <KioskProfileProvider>
+          <ServiceWorkerRegister />
+          <AnalyticsTracker />
+          <I18nProvider>
+            {/* El alto contraste es un tema; se reinicia con la inactividad (AccessibilityProvider) */}
+            <ThemeProvider
+              attribute="class"
+              themes={[THEMES.DEFAULT, THEMES.HIGH_CONTRAST]}
+              defaultTheme={THEMES.DEFAULT}
+              enableSystem={false}
+              storageKey="hvq_theme"
+              disableTransitionOnChange
+            >
+              <AccessibilityProvider>
+                <IdleRedirect homePath="/" excludePaths={config.app.idleExcludedPaths}>
+                  {children}
+                </IdleRedirect>
+              </AccessibilityProvider>
+            </ThemeProvider>
+          </I18nProvider>
+        </KioskProfileProvider>
       </body>
     </html>
   )
@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import Image from "next/image"
+import { useParams, useSearchParams } from "next/navigation"
+import { AlertCircleIcon, BuildingIcon, CalendarPlusIcon, ClockIcon, DoorOpenIcon, Loader2Icon, MapPinIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/i18n-provider"
+import { useSpecialty } from "@/hooks/use-specialties"
+import { useDoctor } from "@/hooks/use-doctors"
+import { useMobileDoctorAgendas } from "@/hooks/use-agendas"
+import { config } from "@/lib/config"
+import { LOCALES } from "@/lib/i18n"
+import { buildWeeklyIcs, downloadIcs } from "@/lib/ics"
+import { WEEK_DAYS, getBuildingDisplayName, groupSchedulesByDay, scheduleTypeLabel, weekDayNumber } from "@/lib/doctor-schedule"
+import { slugify } from "@/lib/utils"
+import type { IcsWeeklyEvent, Locale } from "@/lib/types"
+
+// Página móvil que abre el QR de la ficha del médico: horario semanal, ubicación y .ics.
+// Mismos datos que la ficha del kiosco (lib/doctor-schedule.ts), sin teclado ni inactividad.
+export default function MobileSchedulePage() {
+  const { doctor: doctorSlug, specialty: specialtySlug } = useParams<{ specialty: string; doctor: string }>()
+  const searchParams = useSearchParams()
+  const source = searchParams.get("source")
+  const lang = searchParams.get("lang")
+  const { t, setLocale } = useI18n()
+
+  // El QR lleva el idioma que el paciente usaba en el kiosco
+  useEffect(() => {
+    if (lang && lang in LOCALES) setLocale(lang as Locale)
+  }, [lang, setLocale])
+
+  const { specialty, error: specialtyError } = useSpecialty(specialtySlug)
+  const { doctor, error: doctorError } = useDoctor(doctorSlug, specialty?.especialidadId ?? null)
+  const { agendas, error: agendasError } = useMobileDoctorAgendas(
+    specialty && doctor ? String(doctor.codigoPrestador) : null,
+    source === "specialty" ? specialty?.especialidadId : undefined
+  )
+  const error = specialtyError || doctorError || agendasError
+  const schedules = useMemo(() => (agendas ? groupSchedulesByDay(agendas) : null), [agendas])
+  const days = WEEK_DAYS.filter((day) => (schedules?.[day] || []).length > 0)
+
+  const doctorName = doctor?.nombres || t.defaults.doctorName
+  const specialtyName = source === "specialty" ? specialty?.descripcion || undefined : undefined
+  const buildingName = (building?: string) => getBuildingDisplayName(building, t.defaults.notSpecified)
+
+  const handleDownload = () => {
+    if (!schedules) return
+    const events: IcsWeeklyEvent[] = days.flatMap((day) =>
+      (schedules[day] || [])
+        .filter((sched) => sched.startHHmm)
+        .map((sched, i) => ({
+          uid: `${doctor?.id ?? doctorSlug}-${day}-${i}@hvq-directorio`,
+          weekday: weekDayNumber(day),
+          startHHmm: sched.startHHmm as string,
+          endHHmm: sched.endHHmm,
+          title: t.handoff.eventTitle(scheduleTypeLabel(sched.tipo, t.doctor), doctorName),
+          location: [
+            sched.room && `${t.doctor.roomLabel} ${sched.room}`,
+            sched.floor,
+            `${t.doctor.buildingLabel} ${buildingName(sched.building)}`,
+            t.handoff.hospital,
+          ].filter(Boolean).join(", "),
+          description: sched.specialtyLabel || specialtyName,
+        }))
+    )
+    downloadIcs(buildWeeklyIcs(events, t.handoff.calendarName(doctorName)), `horario-${slugify(doctorName) || doctorSlug}`)
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-lg px-4 pb-10">
+      <header className="flex items-center gap-3 py-4 border-b border-primary/20">
+        <Image src={config.images.hvqLogo} alt={t.handoff.hospital} width={48} height={48} className="w-12 h-12" />
+        <span className="text-lg font-semibold text-primary">{t.handoff.hospital}</span>
+      </header>
+
+      {error ? (
+        <div className="mt-8 rounded-xl border border-primary bg-[#F9F4F6] p-5 text-center">
+          <AlertCircleIcon className="mx-auto mb-3 h-10 w-10 text-primary" aria-hidden="true" />
+          <p className="font-semibold text-primary">{t.doctor.loadError}</p>
+          <p className="mt-1 text-sm">{error}</p>
+        </div>
+      ) : !schedules ? (
+        <div className="mt-16 flex justify-center">
+          <Loader2Icon className="h-10 w-10 animate-spin text-primary" aria-label={t.common.loading} />
+        </div>
+      ) : (
+        <main>
+          <section className="py-5">
+            <h1 className="text-2xl font-bold text-accent2">{t.doctor.title(doctorName)}</h1>
+            {specialtyName && <p className="text-lg font-medium text-primary">{specialtyName}</p>}
+          </section>
+
+          <section aria-labelledby="horario-semanal">
+            <div className="mb-3 flex items-center justify-between gap-3">
+              <h2 id="horario-semanal" className="text-xl font-bold text-primary">{t.handoff.weeklySchedule}</h2>
+              {days.length > 0 && (
+                <Button onClick={handleDownload} className="rounded-full bg-primary text-primary-foreground hover:bg-accent1">
+                  <CalendarPlusIcon className="w-5 h-5" aria-hidden="true" />
+                  {t.handoff.addToCalendar}
+                </Button>
+              )}
+            </div>
+
+            {days.length === 0 ? (
+              <p className="rounded-xl bg-white p-4 shadow-sm">{t.doctor.noSchedulesText(doctorName)}</p>
+            ) : (
+              <ol className="space-y-4">
+                {days.map((day) => (
+                  <li key={day} className="rounded-xl bg-white p-4 shadow-sm">
+                    <h3 className="mb-2 text-lg font-bold text-accent2">{t.days[day as keyof typeof t.days]}</h3>
+                    <ul className="space-y-3">
+                      {(schedules[day] || []).map((sched, i) => (
+                        <li key={i} className="border-l-4 border-primary pl-3">
+                          <p className="font-semibold text-primary">{scheduleTypeLabel(sched.tipo, t.doctor)}</p>
+                          {source !== "specialty" && sched.specialtyLabel && <p className="text-sm">{sched.specialtyLabel}</p>}
+                          <p className="flex items-center gap-2">
+                            <ClockIcon className="h-4 w-4 shrink-0 text-primary" aria-hidden="true" />
+                            {sched.time}
+                          </p>
+                          <p className="flex items-center gap-2">
+                            <DoorOpenIcon className="h-4 w-4 shrink-0 text-primary" aria-hidden="true" />
+                            {t.doctor.roomLabel} {sched.room || t.defaults.notSpecified}
+                          </p>
+                          <p className="flex items-center gap-2">
+                            <MapPinIcon className="h-4 w-4 shrink-0 text-primary" aria-hidden="true" />
+                            {t.doctor.locationLabel} {sched.floor || t.defaults.notSpecified}
+                          </p>
+                          <p className="flex items-center gap-2">
+                            <BuildingIcon className="h-4 w-4 shrink-0 text-primary" aria-hidden="true" />
+                            {t.doctor.buildingLabel} {buildingName(sched.building)}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+        </main>
+      )}
+    </div>
+  )
+}
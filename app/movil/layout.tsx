@@ -0,0 +1,18 @@
+import type { Metadata, Viewport } from 'next'
+
+// Páginas que se abren en el teléfono del paciente desde el QR del kiosco: se permite el zoom
+// (DisableZoomAndContext no actúa bajo config.handoff.path)
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  maximumScale: 5,
+  userScalable: true,
+}
+
+export const metadata: Metadata = {
+  title: 'Horario del médico - Hospital Vozandes Quito',
+}
+
+export default function MovilLayout({ children }: { children: React.ReactNode }) {
+  return <div className="min-h-screen bg-background text-accent2">{children}</div>
+}
@@ -7,15 +7,15 @@ import { DirectorioLayout } from "@/components/directorio-layout"
 import { ArrowRight} from 'lucide-react'
 import { config } from "@/lib/config"
 import { useEffect, useState } from "react"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { useI18n } from "@/components/i18n-provider"
 
 export default function HomePage() {
   const [currentBanner, setCurrentBanner] = useState(0)
   
-  const banners = [
-    "http://horizon-html:35480/public/img_directorio/Banner_Kiosco_actual.png",
-    "http://horizon-html:35480/public/img_directorio/banner_2.png",
-    "http://horizon-html:35480/public/img_directorio/banner_3.png"
-  ]
+  // Carrusel definido por el perfil del kiosco
+  const { banners } = useKioskProfile()
+  const { t } = useI18n()
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -25,6 +25,11 @@ export default function HomePage() {
     return () => clearInterval(interval)
   }, [banners.length])
 
+  // Si el perfil trae otra lista, volver al primer banner
+  useEffect(() => {
+    setCurrentBanner(0)
+  }, [banners])
+
   return (
     <DirectorioLayout showBackButton={false}>
       <div className="flex flex-col items-center justify-center h-full w-full text-center">
@@ -33,7 +38,7 @@ export default function HomePage() {
           {/* Imagen del edificio como fondo */}
           <Image
             src={config.images.homeline}
-            alt="Edificio Médico"
+            alt={t.home.buildingAlt}
             fill
             className="object-cover opacity-80"
           />
@@ -51,7 +56,7 @@ export default function HomePage() {
             {/* Botón principal - lleva a la pantalla de selección */}
             <Link href="/selection" passHref>
               <Button className="bg-primary text-primary-foreground hover:bg-accent1 text-5xl px-20 py-14 rounded-full shadow-2xl transition-all duration-300 ease-in-out transform hover:scale-105 inline-flex items-center gap-5 border-2 border-white/30">
-                ¡ Aquí !
+                {t.home.start}
                 <ArrowRight className="w-18 h-12" style={{width: '3.5rem', height: 'auto' }} />
               </Button>
             </Link>
@@ -66,7 +71,7 @@ export default function HomePage() {
                 <Image
                   key={banner}
                   src={banner}
-                  alt="Encuentra a tu especialista en nuestro Directorio Médico"
+                  alt={t.home.bannerAlt}
                   fill
                   className={`object-contain transition-opacity duration-1000 ${
                     index === currentBanner ? 'opacity-100' : 'opacity-0'
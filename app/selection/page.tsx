@@ -1,11 +1,20 @@
+"use client"
+
 import Link from "next/link"
 import Image from "next/image"
 import { Card, CardContent, CardTitle } from "@/components/ui/card"
 import "@/styles/pages.css"
 import { DirectorioLayout } from "@/components/directorio-layout"
-import { StethoscopeIcon, UserSearchIcon, FileTextIcon } from 'lucide-react'
+import { StethoscopeIcon, UserSearchIcon, PersonStandingIcon } from 'lucide-react'
+import { AttractLoop } from "@/components/attract-loop"
+import { useI18n } from "@/components/i18n-provider"
+import { useSymptomMap } from "@/hooks/use-symptom-map"
 
 export default function SelectionPage() {
+  const { t } = useI18n()
+  // La búsqueda por síntoma se ofrece solo cuando la Dirección Médica verificó el mapa (SYMPTOMS.md)
+  const { symptomMap } = useSymptomMap()
+
   return (
     <DirectorioLayout>
       <div style={{ paddingTop: '20px' }}>
@@ -20,37 +29,44 @@ export default function SelectionPage() {
         }}>
           {/* Contenedor de botones */}
           <div className="buttons-container" style={{ padding: '40px'}}>
-            <h1 className="selection-title" style={{ padding: '20px', marginBottom: '70px', fontSize: '3rem' }}>¿Cómo deseas buscar?</h1>
+            <h1 className="selection-title" style={{ padding: '20px', marginBottom: '70px', fontSize: '3rem' }}>{t.selection.title}</h1>
             
             {/* Botones de selección en disposición horizontal */}
-            <div className="flex flex-row justify-center gap-10" style={{ paddingBottom: '2rem' }}>
+            <div className="flex flex-row justify-center gap-8" style={{ paddingBottom: '2rem' }}>
               <Link href="/specialties" passHref>
-                <Card className="selection-card" style={{ height: '28rem', width: '25rem' }}>
+                <Card className="selection-card" style={{ height: '26rem', width: '20rem' }}>
                   <CardContent className="selection-card-content" style={{ height: '100%', padding: '3rem 2rem' }}>
-                    <StethoscopeIcon className="selection-card-icon" style={{ width: '8rem', height: '8rem' }} />
-                    <CardTitle className="selection-card-title">Buscar por Especialidad</CardTitle>
+                    <StethoscopeIcon className="selection-card-icon" style={{ width: '7rem', height: '7rem' }} aria-hidden="true" />
+                    <CardTitle className="selection-card-title">{t.selection.bySpecialty}</CardTitle>
                   </CardContent>
                 </Card>
               </Link>
               
               <Link href="/doctors/search" passHref>
-                <Card className="selection-card" style={{ height: '28rem', width: '25rem' }}>
+                <Card className="selection-card" style={{ height: '26rem', width: '20rem' }}>
                   <CardContent className="selection-card-content" style={{ height: '100%', padding: '3rem 2rem' }}>
-                    <UserSearchIcon className="selection-card-icon" style={{ width: '8rem', height: '8rem' }} />
-                    <CardTitle className="selection-card-title">Buscar por Médico</CardTitle>
+                    <UserSearchIcon className="selection-card-icon" style={{ width: '7rem', height: '7rem' }} aria-hidden="true" />
+                    <CardTitle className="selection-card-title">{t.selection.byDoctor}</CardTitle>
                   </CardContent>
                 </Card>
               </Link>
+
+              {symptomMap?.verificado && (
+                <Link href="/symptoms" passHref>
+                  <Card className="selection-card" style={{ height: '26rem', width: '20rem' }}>
+                    <CardContent className="selection-card-content" style={{ height: '100%', padding: '3rem 2rem' }}>
+                      <PersonStandingIcon className="selection-card-icon" style={{ width: '7rem', height: '7rem' }} aria-hidden="true" />
+                      <CardTitle className="selection-card-title">{t.selection.bySymptom}</CardTitle>
+                    </CardContent>
+                  </Card>
+                </Link>
+              )}
             </div>
           </div>
 
           {/* Contenedor del video */}
           <div className="video-container" style={{ padding: '20px', marginTop: '40px' }}>
-            <video
-              autoPlay
-              loop
-              muted
-              playsInline
+            <AttractLoop
               className="rounded-2xl"
               style={{ 
                 maxWidth: '100%', 
@@ -58,10 +74,7 @@ export default function SelectionPage() {
                 height: '100%',
                 objectFit: 'contain'
               }}
-            >
-              <source src="http://horizon-html:35480/public/img_directorio/QR_Bless_Animado.mp4" type="video/mp4" />
-              Tu navegador no soporta el elemento de video.
-            </video>
+            />
           </div>
         </div>
 
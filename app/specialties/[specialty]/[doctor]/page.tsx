@@ -5,35 +5,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import "@/styles/pages.css"
 import { notFound } from "next/navigation"
 import { useState, useEffect, useMemo, useRef } from "react"
-import { DoorOpenIcon, BuildingIcon, CalendarCheckIcon, ClockIcon, MapPinIcon, AlertCircleIcon, UserRoundIcon as UserRoundMedical, ClipboardListIcon, ScissorsIcon } from 'lucide-react'
+import { DoorOpenIcon, BuildingIcon, CalendarCheckIcon, CalendarDaysIcon, ClockIcon, MapPinIcon, AlertCircleIcon, UserRoundIcon as UserRoundMedical, ClipboardListIcon, ScissorsIcon, TableIcon } from 'lucide-react'
 import { InteractiveMap } from "@/components/interactive-map"
-import axios from "axios"
-import { getAccessToken } from "@/lib/auth"
+import { ListenButton } from "@/components/listen-button"
+import { HandoffQr } from "@/components/handoff-qr"
+import { WeeklyTimetable } from "@/components/weekly-timetable"
+import { PrintTicketButton } from "@/components/print-ticket"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
-import { useRouter, useParams } from "next/navigation"
-import { apiService } from "@/lib/api-service"
-import { extractHHmm, formatHHmmTo12h } from "@/lib/utils"
-
-// Normaliza textos a slug: minúsculas, sin acentos, sólo [a-z0-9-]
-const slugify = (input: string): string => {
-  return String(input || "")
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-}
-
-interface DoctorSchedule {
-  time: string
-  room: string
-  building: string
-  floor?: string
-  tipo?: string
-  specialtyLabel?: string
-}
+import { useRouter, useParams, useSearchParams } from "next/navigation"
+import { useSpecialty } from "@/hooks/use-specialties"
+import { useDoctor } from "@/hooks/use-doctors"
+import { useDoctorAgendas } from "@/hooks/use-agendas"
+import { useI18n } from "@/components/i18n-provider"
+import { buildDoctorTicket } from "@/lib/print-ticket"
+import { analytics } from "@/lib/analytics"
+import { WEEK_DAYS, getBuildingDisplayName, groupSchedulesByDay, isConsulta, isProcedure, normalizeDayKey, scheduleTypeLabel } from "@/lib/doctor-schedule"
 
 interface DoctorInfo {
   id: number
@@ -47,219 +35,110 @@ interface DoctorInfo {
 export default function SchedulePage() {
   const router = useRouter()
   const { doctor: doctorSlug, specialty: specialtySlug } = useParams<{ specialty: string; doctor: string }>()
-  const [doctorInfo, setDoctorInfo] = useState<DoctorInfo | null>(null)
-  const [doctorSchedules, setDoctorSchedules] = useState<Record<string, DoctorSchedule[]> | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const searchParams = useSearchParams()
+  const source = searchParams.get('source')
   const [selectedDay, setSelectedDay] = useState<string | null>(null)
   const [selectedKind, setSelectedKind] = useState<'consulta' | 'procedimiento' | null>(null)
+  // Días de consulta/procedimiento o grilla de la semana completa
+  const [scheduleView, setScheduleView] = useState<'days' | 'week'>('days')
   const detailsRef = useRef<HTMLDivElement | null>(null)
+  const autoSelectedFor = useRef<string | null>(null)
   const [photoError, setPhotoError] = useState(false)
-  const [source, setSource] = useState<string | null>(null)
-
-  const daysOfWeek = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
-  const dayNames: { [key: string]: string } = {
-    monday: "Lunes",
-    tuesday: "Martes",
-    wednesday: "Miércoles",
-    thursday: "Jueves",
-    friday: "Viernes",
-    saturday: "Sábado",
-    sunday: "Domingo",
-  }
+  const { t, formatSpokenTime } = useI18n()
+  const { ubicacion } = useKioskProfile()
 
+  const dayNames: Record<string, string> = t.days
 
-  const isProcedure = (tipo?: string) => {
-    const t = (tipo || '').toLowerCase()
-    return /(proced|qx|quir|cirug)/.test(t)
-  }
+  const tipoLabel = (tipo?: string) => scheduleTypeLabel(tipo, t.doctor)
 
-  const isConsulta = (tipo?: string) => !isProcedure(tipo)
-
-  const normalizeDayKey = (nameOrKey: string) => {
-    const key = (nameOrKey || '').toLowerCase()
-    const map: Record<string, string> = {
-      lunes: 'monday',
-      martes: 'tuesday',
-      miércoles: 'wednesday',
-      miercoles: 'wednesday',
-      jueves: 'thursday',
-      viernes: 'friday',
-      sábado: 'saturday',
-      sabado: 'saturday',
-      domingo: 'sunday',
+  // 1. Especialidad y médico por ID o slug; 2. agendas con el método de orquestación.
+  // Desde el listado de una especialidad solo se muestran las agendas de esa especialidad.
+  const { specialty: foundSpecialty, error: specialtyError } = useSpecialty(specialtySlug)
+  const { doctor: doctorData, error: doctorError } = useDoctor(doctorSlug, foundSpecialty?.especialidadId ?? null)
+  const { agendas: detalladas, error: agendasError } = useDoctorAgendas(
+    foundSpecialty && doctorData ? String(doctorData.codigoPrestador) : null,
+    source === 'specialty' ? foundSpecialty?.especialidadId : undefined
+  )
+  const error = specialtyError || doctorError || agendasError
+  const loading = !error && detalladas == null
+
+  // Información del médico con todas sus especialidades
+  const doctorInfo = useMemo<DoctorInfo | null>(() => {
+    if (!foundSpecialty || !doctorData) return null
+    let especialidades = doctorData.especialidades.map((esp) => ({ id: esp.especialidadId, label: esp.descripcion }))
+    if (especialidades.length === 0) {
+      // Fallback para médicos con especialidad individual
+      especialidades = [{
+        id: String(foundSpecialty.especialidadId),
+        label: foundSpecialty.descripcion || String(foundSpecialty.especialidadId)
+      }]
     }
-    return map[key] || key
-  }
+    return {
+      id: Number(doctorData.id),
+      name: doctorData.nombres,
+      specialty: foundSpecialty.descripcion || '',
+      specialtyId: foundSpecialty.especialidadId,
+      especialidades: especialidades,
+      photo: doctorData.retrato
+    }
+  }, [foundSpecialty, doctorData])
 
+  const doctorSchedules = useMemo(() => (detalladas ? groupSchedulesByDay(detalladas) : null), [detalladas])
+
+  // Estadísticas de uso: médicos más consultados (una vez por ficha; las revalidaciones no cuentan)
+  const medicoId = doctorData ? String(doctorData.codigoPrestador) : null
+  const medicoNombre = doctorData?.nombres ?? ''
+  const viewSpecialtyId = foundSpecialty ? String(foundSpecialty.especialidadId) : undefined
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true)
-        const token = await getAccessToken()
-
-        // 1. Resolver especialidad por ID o por slug de manera directa (sin fallbacks extra)
-        const isSpecialtyId = /^\d+$/.test(specialtySlug)
-        let foundSpecialty: any
-        if (isSpecialtyId) {
-          const res = await axios.get(`http://10.129.180.166:36560/api3/v1/especialidades/${specialtySlug}`, {
-            headers: { 'Authorization': `Bearer ${token}` }
-          })
-          foundSpecialty = res.data
-        } else {
-          const res = await axios.get('http://10.129.180.166:36560/api3/v1/especialidades/agenda', {
-            headers: { 'Authorization': `Bearer ${token}` }
-          })
-          const list = Array.isArray(res.data) ? res.data : []
-          foundSpecialty = list.find((spec: any) => slugify(String(spec.descripcion || '')) === slugify(String(specialtySlug)))
-        }
-
-        if (!foundSpecialty) throw new Error('Especialidad no encontrada')
-
-        // 2. Resolver médico por ID o por slug de manera directa
-        const isDoctorId = /^\d+$/.test(doctorSlug)
-        let doctorData: any
-        let doctorIdToUse: number
-        if (isDoctorId) {
-          const res = await axios.get(`http://10.129.180.166:36560/api3/v1/medico/agenda/${doctorSlug}`, {
-            headers: { 'Authorization': `Bearer ${token}` }
-          })
-          doctorData = res.data
-          doctorIdToUse = doctorData.id
-        } else {
-          const res = await axios.get(`http://10.129.180.166:36560/api3/v1/medico/especialidad/${foundSpecialty.especialidadId}`, {
-            headers: { 'Authorization': `Bearer ${token}` }
-          })
-          const list = Array.isArray(res.data) ? res.data : []
-          const foundDoctor = list.find((doc: any) => slugify(String(doc.nombres || '')) === slugify(String(doctorSlug)))
-          if (!foundDoctor) throw new Error('Médico no encontrado')
-          const detail = await axios.get(`http://10.129.180.166:36560/api3/v1/medico/agenda/${foundDoctor.id}`, {
-            headers: { 'Authorization': `Bearer ${token}` }
-          })
-          doctorData = detail.data
-          doctorIdToUse = foundDoctor.id
-        }
-
-        // 3. Configurar información del médico
-        // Extraer todas las especialidades usando la misma lógica que search
-        let especialidades: Array<{id: string, label: string}> = []
-        
-        if (Array.isArray(doctorData.especialidades) && doctorData.especialidades.length > 0) {
-          especialidades = doctorData.especialidades.map((esp: any) => {
-            if (esp && typeof esp === "object") {
-              const espId = String((esp as any).especialidadId ?? (esp as any).id ?? (esp as any).codigo ?? "")
-              const espLabel = String((esp as any).descripcion ?? (esp as any).nombre ?? espId)
-              return { id: espId, label: espLabel }
-            } else {
-              const espStr = String(esp)
-              return { id: espStr, label: espStr }
-            }
-          }).filter((esp: any) => esp.id.trim().length > 0)
-        } else {
-          // Fallback para médicos con especialidad individual
-          const singleSpecialtyId = String(foundSpecialty.especialidadId ?? foundSpecialty.especialidad ?? "")
-          const singleSpecialtyLabel = String(foundSpecialty.descripcion ?? foundSpecialty.nombre ?? singleSpecialtyId)
-          if (singleSpecialtyId.trim().length > 0) {
-            especialidades = [{ id: singleSpecialtyId, label: singleSpecialtyLabel }]
-          }
-        }
-
-        setDoctorInfo({
-          id: doctorData.id,
-          name: doctorData.nombres || 'Nombre no disponible',
-          specialty: foundSpecialty.descripcion || 'Especialidad no disponible',
-          specialtyId: foundSpecialty.especialidadId,
-          especialidades: especialidades,
-          photo: doctorData.retrato
-        })
-
-        // 4. Construir horarios con el método de orquestación
-        const providerId = doctorData.codigoPrestador ?? doctorData.codigo_prestador ?? doctorIdToUse
-        const urlParams = new URLSearchParams(window.location.search)
-        const fromSource = urlParams.get('source')
-        const passSpecialtyId = fromSource === 'specialty'
-        setSource(fromSource)
-        const detalladasRes = passSpecialtyId 
-          ? await apiService.getAgendasDetalladasPorMedico(String(providerId), foundSpecialty.especialidadId)
-          : await apiService.getAgendasDetalladasPorMedico(String(providerId))
-        const detalladas = Array.isArray(detalladasRes.data)
-          ? (detalladasRes.data as any[])
-          : []
-
-
-        const formattedSchedules: Record<string, DoctorSchedule[]> = {}
-        detalladas.forEach((item: any) => {
-          const dayKey = normalizeDayKey(String(item.diaNombre || ''))
-          if (!daysOfWeek.includes(dayKey)) return
-          const rawInicio = (item.horaInicioHHmm ?? item.hora_inicio ?? item.horaInicio ?? item.hora) as unknown
-          const rawFin = (item.horaFinHHmm ?? item.hora_fin ?? item.horaFin ?? item.horarioFin) as unknown
-          const inicio = formatHHmmTo12h(extractHHmm(rawInicio))
-          const fin = formatHHmmTo12h(extractHHmm(rawFin))
-          const time = fin ? `${inicio} - ${fin}` : inicio
-
-          const entry: DoctorSchedule = {
-            time,
-            room: item.consultorioDescripcion || 'No especificado',
-            building: item.edificioDescripcion || (item as any).buildingCode || 'No especificado',
-            floor: item.piso || (item as any).pisoDescripcion || (item as any).des_piso || 'No especificado',
-            tipo: item.tipoTexto || undefined,
-            specialtyLabel: (item as any).especialidad || undefined,
-          }
-          if (!formattedSchedules[dayKey]) formattedSchedules[dayKey] = []
-          formattedSchedules[dayKey].push(entry)
-        })
-
-        setDoctorSchedules(formattedSchedules)
-        
-        // Auto-expandir lógica: prioridad 1) día actual, 2) un solo día disponible
-        const availableDays = Object.keys(formattedSchedules).filter((d) => daysOfWeek.includes(d))
-        
-        // Obtener el día actual
-        const today = new Date().toLocaleDateString('es-ES', { weekday: 'long' }).toLowerCase()
-        const todayKey = normalizeDayKey(today)
-        
-        let dayToSelect: string | null = null
-        
-        // Prioridad 1: Si el día actual está disponible, seleccionarlo
-        if (availableDays.includes(todayKey)) {
-          dayToSelect = todayKey
-        }
-        // Prioridad 2: Si solo hay un día disponible, seleccionarlo
-        else if (availableDays.length === 1) {
-          dayToSelect = availableDays[0]
-        }
-        
-        if (dayToSelect) {
-          setSelectedDay(dayToSelect)
-          // Determinar el tipo automáticamente si solo hay un tipo en ese día
-          const daySchedules = formattedSchedules[dayToSelect]
-          const hasConsulta = daySchedules.some(sched => isConsulta(sched.tipo))
-          const hasProcedimiento = daySchedules.some(sched => isProcedure(sched.tipo))
-          
-          if (hasConsulta && !hasProcedimiento) {
-            setSelectedKind('consulta')
-          } else if (hasProcedimiento && !hasConsulta) {
-            setSelectedKind('procedimiento')
-          }
-          // Si tiene ambos tipos, no establecer selectedKind para mostrar todos
-        }
-        
-        setLoading(false)
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Error desconocido')
-        setLoading(false)
-      }
+    if (!medicoId || !medicoNombre) return
+    analytics.track({ type: 'doctor_view', medicoId, medico: medicoNombre, especialidadId: viewSpecialtyId })
+  }, [medicoId, medicoNombre, viewSpecialtyId])
+
+  // Auto-expandir una vez por médico (las revalidaciones de la caché no cambian la selección):
+  // prioridad 1) día actual, 2) un solo día disponible
+  useEffect(() => {
+    if (!doctorSchedules || autoSelectedFor.current === doctorSlug) return
+    autoSelectedFor.current = doctorSlug
+
+    const availableDays = Object.keys(doctorSchedules).filter((d) => WEEK_DAYS.includes(d))
+
+    // Obtener el día actual
+    const today = new Date().toLocaleDateString('es-ES', { weekday: 'long' }).toLowerCase()
+    const todayKey = normalizeDayKey(today)
+
+    let dayToSelect: string | null = null
+
+    // Prioridad 1: Si el día actual está disponible, seleccionarlo
+    if (availableDays.includes(todayKey)) {
+      dayToSelect = todayKey
+    }
+    // Prioridad 2: Si solo hay un día disponible, seleccionarlo
+    else if (availableDays.length === 1) {
+      dayToSelect = availableDays[0]
     }
 
-    fetchData()
-  }, [doctorSlug, specialtySlug])
+    if (dayToSelect) {
+      setSelectedDay(dayToSelect)
+      // Determinar el tipo automáticamente si solo hay un tipo en ese día
+      const daySchedules = doctorSchedules[dayToSelect]
+      const hasConsulta = daySchedules.some(sched => isConsulta(sched.tipo))
+      const hasProcedimiento = daySchedules.some(sched => isProcedure(sched.tipo))
+
+      if (hasConsulta && !hasProcedimiento) {
+        setSelectedKind('consulta')
+      } else if (hasProcedimiento && !hasConsulta) {
+        setSelectedKind('procedimiento')
+      }
+      // Si tiene ambos tipos, no establecer selectedKind para mostrar todos
+    }
+  }, [doctorSchedules, doctorSlug])
 
   const availableDays = useMemo(() => {
-    return Object.keys(doctorSchedules || {}).filter((d) => daysOfWeek.includes(d))
+    return Object.keys(doctorSchedules || {}).filter((d) => WEEK_DAYS.includes(d))
   }, [doctorSchedules])
 
   const consultaDays = useMemo(() => {
-    return daysOfWeek.filter((day) => {
+    return WEEK_DAYS.filter((day) => {
       const list = (doctorSchedules || {})[day]
       if (!list || list.length === 0) return false
       return list.some((s) => isConsulta(s.tipo))
@@ -267,7 +146,7 @@ export default function SchedulePage() {
   }, [doctorSchedules])
 
   const procedimientoDays = useMemo(() => {
-    return daysOfWeek.filter((day) => {
+    return WEEK_DAYS.filter((day) => {
       const list = (doctorSchedules || {})[day]
       if (!list || list.length === 0) return false
       return list.some((s) => isProcedure(s.tipo))
@@ -293,19 +172,17 @@ export default function SchedulePage() {
     return selectedKind === kind
   }
 
-  // Función para validar y mostrar el nombre del edificio según el código
-  const getBuildingDisplayName = (buildingCode: string | number | undefined): string => {
-    if (!buildingCode) return 'No especificado'
-    
-    const code = String(buildingCode).trim()
-    
-    // Validación específica para códigos 1 y 2
-    if (code === '1') return 'Principal'
-    if (code === '2') return 'Torre Bless'
-    
-    // Para otros códigos, mantener la lógica actual
-    return code
-  }
+  // Horarios del día y tipo seleccionados
+  const selectedSchedules = useMemo(() => {
+    if (!selectedDay) return []
+    return (doctorSchedules?.[selectedDay] || []).filter((sched) => {
+      if (!selectedKind) return true
+      return selectedKind === 'consulta' ? isConsulta(sched.tipo) : isProcedure(sched.tipo)
+    })
+  }, [doctorSchedules, selectedDay, selectedKind])
+
+  // Horario que se ubica en el mapa: el primero del día y tipo seleccionados
+  const mapSchedule = selectedSchedules[0]
 
   if (loading) {
     return (
@@ -340,8 +217,8 @@ export default function SchedulePage() {
       <DirectorioLayout>
         <div className="container mx-auto px-4 py-8">
           <div className="max-w-2xl mx-auto bg-[#F9F4F6] border border-[#7F0C43] rounded-lg p-6 text-center">
-            <AlertCircleIcon className="mx-auto h-12 w-12 text-[#7F0C43] mb-4" />
-            <h2 className="text-2xl font-bold text-[#7F0C43] mb-2" style={{ fontFamily: "'Century Gothic', sans-serif" }}>Error al cargar los datos</h2>
+            <AlertCircleIcon className="mx-auto h-12 w-12 text-[#7F0C43] mb-4" aria-hidden="true" />
+            <h2 className="text-2xl font-bold text-[#7F0C43] mb-2" style={{ fontFamily: "'Century Gothic', sans-serif" }}>{t.doctor.loadError}</h2>
             <p className="text-[#7F0C43] mb-6" style={{ fontFamily: "Arial, sans-serif" }}>{error}</p>
             <div className="flex justify-center gap-4">
               <Button
@@ -350,7 +227,7 @@ export default function SchedulePage() {
                 className="bg-[#7F0C43] hover:bg-[#C84D80] text-white"
                 style={{ fontFamily: "Arial, sans-serif" }}
               >
-                Reintentar
+                {t.common.retry}
               </Button>
               <Button
                 variant="outline"
@@ -358,7 +235,7 @@ export default function SchedulePage() {
                 className="text-white hover:bg-[#C84D80]"
                 style={{ fontFamily: "Arial, sans-serif", backgroundColor: '#8C3048' }}
               >
-                Volver atrás
+                {t.common.goBack}
               </Button>
             </div>
           </div>
@@ -371,6 +248,39 @@ export default function SchedulePage() {
     notFound()
   }
 
+  const doctorName = doctorInfo.name || t.defaults.doctorName
+
+  // Lo que lee el botón "Escuchar": una frase por horario del día y tipo seleccionados
+  const spokenText = selectedDay
+    ? selectedSchedules
+        .filter((sched) => sched.startHHmm)
+        .map((sched) => t.speech.schedule({
+          doctor: doctorName,
+          day: t.speech.days[selectedDay as keyof typeof t.speech.days] ?? dayNames[selectedDay],
+          start: formatSpokenTime(sched.startHHmm || ''),
+          end: sched.endHHmm ? formatSpokenTime(sched.endHHmm) : undefined,
+          room: sched.room || undefined,
+          floor: sched.floor,
+          building: sched.building ? getBuildingDisplayName(sched.building, t.defaults.notSpecified) : undefined,
+          procedure: isProcedure(sched.tipo),
+        }))
+        .join(' ')
+    : ''
+
+  // Ticket "Imprimir indicaciones" con los horarios del día y tipo seleccionados
+  const printTicket = selectedDay && selectedSchedules.length > 0
+    ? buildDoctorTicket({
+        doctorName,
+        specialty: source === 'specialty'
+          ? doctorInfo.specialty
+          : doctorInfo.especialidades.map((esp) => esp.label).join(', '),
+        dayName: dayNames[selectedDay],
+        schedules: selectedSchedules,
+        kiosk: ubicacion,
+        t,
+      })
+    : null
+
   return (
     <DirectorioLayout>
       <div className="container mx-auto px-4 py-8">
@@ -381,7 +291,7 @@ export default function SchedulePage() {
               {doctorInfo.photo && !photoError ? (
                 <img
                   src={doctorInfo.photo}
-                  alt={`Foto del Dr. ${doctorInfo.name}`}
+                  alt={t.doctor.photoAlt(doctorName)}
                   className="w-full h-full object-cover"
                   onError={() => setPhotoError(true)}
                 />
@@ -391,14 +301,14 @@ export default function SchedulePage() {
             </div>
 
             <div className="text-center md:text-left">
-              <h1 className="text-3xl font-bold text-[#333333] mb-1" style={{ fontFamily: "'Century Gothic', sans-serif" }}>Dr. {doctorInfo.name}</h1>
+              <h1 className="text-3xl font-bold text-[#333333] mb-1" style={{ fontFamily: "'Century Gothic', sans-serif" }}>{t.doctor.title(doctorName)}</h1>
               
               {/* Mostrar especialidades según el origen */}
               <div className="mb-3">
                 {source === 'specialty' ? (
                   // Desde búsqueda por especialidad: mostrar solo la especialidad seleccionada
                   <p className="text-lg text-[#7F0C43] font-medium" style={{ fontFamily: "'Century Gothic', sans-serif" }}>
-                    {doctorInfo.specialty}
+                    {doctorInfo.specialty || t.defaults.specialtyName}
                   </p>
                 ) : (
                   // Desde búsqueda por médico: mostrar todas las especialidades
@@ -416,7 +326,7 @@ export default function SchedulePage() {
                     </div>
                   ) : (
                     <p className="text-lg text-[#7F0C43] font-medium" style={{ fontFamily: "'Century Gothic', sans-serif" }}>
-                      {doctorInfo.specialty}
+                      {doctorInfo.specialty || t.defaults.specialtyName}
                     </p>
                   )
                 )}
@@ -425,8 +335,8 @@ export default function SchedulePage() {
               <div className="flex flex-wrap justify-center md:justify-start gap-2">
                 {availableDays.length > 0 && (
                   <span className="inline-flex items-center px-3 py-1 rounded-full bg-[#F9F4F6] text-[#7F0C43] text-sm font-medium border border-[#C84D80]" style={{ fontFamily: "Arial, sans-serif" }}>
-                    <CalendarCheckIcon className="h-4 w-4 mr-1" />
-                    {availableDays.length} día{availableDays.length !== 1 ? 's' : ''} disponible{availableDays.length !== 1 ? 's' : ''}
+                    <CalendarCheckIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+                    {t.doctor.daysAvailable(availableDays.length)}
                   </span>
                 )}
               </div>
@@ -436,18 +346,40 @@ export default function SchedulePage() {
 
         {/* Schedule Section */}
         <section className="mb-12 flex flex-col items-center">
-          <h1 className="doctor-schedule-title">Horarios de atención</h1>
+          <h1 className="doctor-schedule-title">{t.doctor.scheduleTitle}</h1>
+
+          {availableDays.length > 0 && (
+            <div role="group" aria-label={t.timetable.label} className="flex justify-center gap-3 mb-8">
+              {([
+                { view: 'days', label: t.timetable.viewDays, Icon: CalendarDaysIcon },
+                { view: 'week', label: t.timetable.viewWeek, Icon: TableIcon },
+              ] as const).map(({ view, label, Icon }) => (
+                <button
+                  key={view}
+                  type="button"
+                  aria-pressed={scheduleView === view}
+                  onClick={() => setScheduleView(view)}
+                  className={`flex items-center gap-2 rounded-full border-2 border-[#7F0C43] px-6 py-3 text-xl font-bold transition-colors ${
+                    scheduleView === view ? 'bg-[#7F0C43] text-white' : 'bg-white text-[#7F0C43]'
+                  }`}
+                >
+                  <Icon className="h-6 w-6" aria-hidden="true" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
 
           {availableDays.length === 0 && (
             <div className="no-schedule-message w-full max-w-2xl mx-auto">
               <Card className="no-schedule-card border border-[#E5E5E5] shadow-lg">
                 <CardHeader>
-                  <CardTitle className="no-schedule-title text-2xl font-bold text-[#7F0C43] text-center" style={{ fontFamily: "'Century Gothic', sans-serif" }}>Sin horarios disponibles</CardTitle>
+                  <CardTitle className="no-schedule-title text-2xl font-bold text-[#7F0C43] text-center" style={{ fontFamily: "'Century Gothic', sans-serif" }}>{t.doctor.noSchedules}</CardTitle>
                 </CardHeader>
                 <CardContent className="no-schedule-content text-center">
-                  <AlertCircleIcon className="mx-auto h-12 w-12 text-[#7F0C43] mb-4" />
-                  <p className="text-[#333333] mb-4" style={{ fontFamily: "Arial, sans-serif" }}>El Dr. {doctorInfo.name} no tiene horarios de consulta programados actualmente.</p>
-                  <p className="text-[#666666]" style={{ fontFamily: "Arial, sans-serif" }}>Por favor, contacta directamente con información o regresa más tarde.</p>
+                  <AlertCircleIcon className="mx-auto h-12 w-12 text-[#7F0C43] mb-4" aria-hidden="true" />
+                  <p className="text-[#333333] mb-4" style={{ fontFamily: "Arial, sans-serif" }}>{t.doctor.noSchedulesText(doctorName)}</p>
+                  <p className="text-[#666666]" style={{ fontFamily: "Arial, sans-serif" }}>{t.doctor.noSchedulesHint}</p>
                   <div className="mt-6">
                     <Button
                       variant="outline"
@@ -455,7 +387,7 @@ export default function SchedulePage() {
                       className="text-white hover:bg-[#C84D80]"
                       style={{ fontFamily: "Arial, sans-serif", backgroundColor: '#8C3048' }}
                     >
-                      Volver atrás
+                      {t.common.goBack}
                     </Button>
                   </div>
                 </CardContent>
@@ -463,6 +395,18 @@ export default function SchedulePage() {
             </div>
           )}
 
+          {scheduleView === 'week' && availableDays.length > 0 ? (
+            <div className="w-full max-w-6xl mx-auto">
+              {/* Tocar un bloque muestra sus detalles y el mapa como al elegir el día */}
+              <WeeklyTimetable
+                schedules={doctorSchedules}
+                onSelect={(day, sched) => {
+                  setSelectedDay(day)
+                  setSelectedKind(isProcedure(sched.tipo) ? 'procedimiento' : 'consulta')
+                }}
+              />
+            </div>
+          ) : (
           <div className="w-full max-w-6xl mx-auto">
             {/* Layout horizontal para las cards de consulta y procedimiento */}
             <div className={`flex gap-6 ${
@@ -489,23 +433,25 @@ export default function SchedulePage() {
                         alignItems: 'center',
                         justifyContent: 'center'
                       }}>
-                        <ClipboardListIcon className="h-6 w-6 text-white" />
+                        <ClipboardListIcon className="h-6 w-6 text-white" aria-hidden="true" />
                       </div>
-                      <h3 className="text-2xl font-bold text-[#7F0C43]" style={{ 
+                      <h3 id="dias-consulta" className="text-2xl font-bold text-[#7F0C43]" style={{ 
                         fontFamily: "'Century Gothic', sans-serif",
                         textAlign: 'center'
                       }}>
-                      Días de Consulta
+                      {t.doctor.consultaDays}
                       </h3>
                     </div>
                   </div>
                   
-                  <div className="flex flex-wrap gap-3 justify-center items-center">
+                  <div role="group" aria-labelledby="dias-consulta" className="flex flex-wrap gap-3 justify-center items-center">
                     {consultaDays.map((day) => {
                       const isSelected = isDaySelected(day, 'consulta')
                       return (
-                        <div
+                        <button
+                          type="button"
                           key={day}
+                          aria-pressed={isSelected}
                           onClick={() => { setSelectedDay(day); setSelectedKind('consulta') }}
                           className="consultation-day-card flex flex-col items-center justify-center text-center cursor-pointer transition-all duration-300"
                           style={{
@@ -526,7 +472,7 @@ export default function SchedulePage() {
                           }`} style={{ fontFamily: "'Century Gothic', sans-serif" }}>
                             {dayNames[day]}
                           </h4>
-                          </div>
+                        </button>
                       )
                     })}
                   </div>
@@ -552,23 +498,25 @@ export default function SchedulePage() {
                         alignItems: 'center',
                         justifyContent: 'center'
                       }}>
-                        <ScissorsIcon className="h-6 w-6 text-white" />
+                        <ScissorsIcon className="h-6 w-6 text-white" aria-hidden="true" />
                       </div>
-                      <h3 className="text-2xl font-bold text-[#7F0C43]" style={{ 
+                      <h3 id="dias-procedimiento" className="text-2xl font-bold text-[#7F0C43]" style={{ 
                         fontFamily: "'Century Gothic', sans-serif",
                         textAlign: 'center'
                       }}>
-                      Días de Procedimiento
+                      {t.doctor.procedureDays}
                       </h3>
                     </div>
                   </div>
                   
-                  <div className="flex flex-wrap gap-3 justify-center items-center">
+                  <div role="group" aria-labelledby="dias-procedimiento" className="flex flex-wrap gap-3 justify-center items-center">
                     {procedimientoDays.map((day) => {
                       const isSelected = isDaySelected(day, 'procedimiento')
                       return (
-                        <div
+                        <button
+                          type="button"
                           key={day}
+                          aria-pressed={isSelected}
                           onClick={() => { setSelectedDay(day); setSelectedKind('procedimiento') }}
                           className="procedure-day-card flex flex-col items-center justify-center text-center cursor-pointer transition-all duration-300"
                           style={{
@@ -589,7 +537,7 @@ export default function SchedulePage() {
                           }`} style={{ fontFamily: "'Century Gothic', sans-serif" }}>
                             {dayNames[day]}
                           </h4>
-                          </div>
+                        </button>
                       )
                     })}
                   </div>
@@ -597,62 +545,70 @@ export default function SchedulePage() {
             )}
             </div>
           </div>
+          )}
+
+          {/* QR hacia la página móvil con el horario semanal y el .ics */}
+          {availableDays.length > 0 && (
+            <div className="mt-10">
+              <HandoffQr
+                path={`/${specialtySlug}/${doctorSlug}${source === 'specialty' ? '?source=specialty' : ''}`}
+                doctorName={doctorName}
+              />
+            </div>
+          )}
         </section>
 
         {/* Selected Day Details */}
         <div ref={detailsRef} />
         {selectedDay && doctorSchedules?.[selectedDay] && (
           <div className="w-full flex flex-col items-center">
-            <h2 className="text-2xl font-bold text-[#7F0C43] mb-6 text-center" style={{ fontFamily: "'Century Gothic', sans-serif" }}>
-              Detalles día {dayNames[selectedDay]}
-
-              
+            <h2 className="text-2xl font-bold text-[#7F0C43] mb-4 text-center" style={{ fontFamily: "'Century Gothic', sans-serif" }}>
+              {t.doctor.dayDetails(dayNames[selectedDay])}
             </h2>
+            <div className="flex flex-wrap items-start justify-center gap-4 mb-6">
+              <ListenButton text={spokenText} />
+              <PrintTicketButton ticket={printTicket} />
+            </div>
             
             <div className="w-full max-w-4xl mx-auto space-y-3">
-              {(doctorSchedules[selectedDay] || [])
-                .filter(sched => {
-                  if (!selectedKind) return true
-                  return selectedKind === 'consulta' ? isConsulta(sched.tipo) : isProcedure(sched.tipo)
-                })
-                .map((sched, idx) => (
+              {selectedSchedules.map((sched, idx) => (
                   <Card key={idx} className="doctor-schedule-details-card w-full mx-auto border border-[#E5E5E5] shadow-sm">
                     <CardHeader className="doctor-schedule-details-header">
                       <CardTitle className="doctor-schedule-details-title text-xl font-bold text-[#7F0C43] text-center" style={{ fontFamily: "'Century Gothic', sans-serif" }}>
-                        {sched.tipo || 'Horario'}
+                        {tipoLabel(sched.tipo)}
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="doctor-schedule-details-content">
                       <div className="space-y-2">
                           {source !== 'specialty' && sched.specialtyLabel && (
                           <div className="flex items-center gap-2">
-                            <ClipboardListIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" />
-                            <span className="doctor-schedule-details-label font-medium">Especialidad:</span>
+                            <ClipboardListIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" aria-hidden="true" />
+                            <span className="doctor-schedule-details-label font-medium">{t.doctor.specialtyLabel}</span>
                             <span className="text-2xl">{sched.specialtyLabel}</span>
                           </div>
                         )}
                         <div className="flex items-center gap-2">
-                          <CalendarCheckIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" />
-                          <span className="doctor-schedule-details-label font-medium">Horario:</span>
+                          <CalendarCheckIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" aria-hidden="true" />
+                          <span className="doctor-schedule-details-label font-medium">{t.doctor.hoursLabel}</span>
                           <span className="text-2xl">{sched.time}</span>
                         </div>
                         
                         <div className="flex items-center gap-2">
-                          <DoorOpenIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" />
-                          <span className="doctor-schedule-details-label font-medium">Consultorio:</span>
-                          <span className="text-2xl">{sched.room}</span>
+                          <DoorOpenIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" aria-hidden="true" />
+                          <span className="doctor-schedule-details-label font-medium">{t.doctor.roomLabel}</span>
+                          <span className="text-2xl">{sched.room || t.defaults.notSpecified}</span>
                         </div>
                         
                         <div className="flex items-center gap-2">
-                          <BuildingIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" />
-                          <span className="doctor-schedule-details-label font-medium">Edificio:</span>
-                          <span className="text-2xl">{getBuildingDisplayName(sched.building)}</span>
+                          <BuildingIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" aria-hidden="true" />
+                          <span className="doctor-schedule-details-label font-medium">{t.doctor.buildingLabel}</span>
+                          <span className="text-2xl">{getBuildingDisplayName(sched.building, t.defaults.notSpecified)}</span>
                         </div>
                         
                         <div className="flex items-center gap-2">
-                          <MapPinIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" />
-                          <span className="doctor-schedule-details-label font-medium">Ubicación:</span>
-                          <span className="text-2xl">{sched.floor || 'No especificado'}</span>
+                          <MapPinIcon className="doctor-schedule-details-icon h-5 w-5 text-[#7F0C43]" aria-hidden="true" />
+                          <span className="doctor-schedule-details-label font-medium">{t.doctor.locationLabel}</span>
+                          <span className="text-2xl">{sched.floor || t.defaults.notSpecified}</span>
                         </div>
       
                       </div>
@@ -664,21 +620,12 @@ export default function SchedulePage() {
             {/* Mapa interactivo - usar la primera consulta/procedimiento para el mapa */}
             <div className="w-full max-w-3xl mx-auto mt-8">
               <InteractiveMap
-                consultorio={((doctorSchedules[selectedDay] || [])
-                  .filter(sched => {
-                    if (!selectedKind) return true
-                    return selectedKind === 'consulta' ? isConsulta(sched.tipo) : isProcedure(sched.tipo)
-                  })[0])?.room}
-                building={getBuildingDisplayName(((doctorSchedules[selectedDay] || [])
-                  .filter(sched => {
-                    if (!selectedKind) return true
-                    return selectedKind === 'consulta' ? isConsulta(sched.tipo) : isProcedure(sched.tipo)
-                  })[0])?.building)}
-                floor={((doctorSchedules[selectedDay] || [])
-                  .filter(sched => {
-                    if (!selectedKind) return true
-                    return selectedKind === 'consulta' ? isConsulta(sched.tipo) : isProcedure(sched.tipo)
-                  })[0])?.floor}
+                consultorio={mapSchedule?.room ?? ""}
+                building={getBuildingDisplayName(mapSchedule?.building, t.defaults.notSpecified)}
+                floor={mapSchedule?.floor}
+                consultorioCodigo={mapSchedule?.roomCode}
+                buildingCode={mapSchedule?.buildingCode}
+                pisoCodigo={mapSchedule?.floorCode}
               />
             </div>
           </div>
@@ -686,12 +633,12 @@ export default function SchedulePage() {
 
         {selectedDay && !doctorSchedules?.[selectedDay] && (
           <Card className="doctor-schedule-empty-card">
-            <CardTitle className="doctor-schedule-empty-title">¡Atención!</CardTitle>
+            <CardTitle className="doctor-schedule-empty-title">{t.doctor.attention}</CardTitle>
             <p className="doctor-schedule-empty-text">
-              El Dr. {doctorInfo.name} no tiene horario disponible para el <b>{dayNames[selectedDay]}</b>.
+              {t.doctor.noScheduleForDay(doctorName)} <b>{dayNames[selectedDay]}</b>.
             </p>
             <p className="doctor-schedule-empty-subtext">
-              Por favor, selecciona otro día o regresa a la lista de doctores.
+              {t.doctor.selectOtherDay}
             </p>
           </Card>
         )}
@@ -3,36 +3,21 @@
 import { DirectorioLayout } from "@/components/directorio-layout"
 import { notFound } from "next/navigation"
 import { DoctorCard } from "@/components/doctor-card"
-import { useState, useEffect, useMemo } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { use } from "react"
-import axios from "axios"
-import { getAccessToken } from "@/lib/auth"
+import { useSpecialty } from "@/hooks/use-specialties"
+import { useAgendaDoctors } from "@/hooks/use-doctors"
+import { useAgendasDetalladas } from "@/hooks/use-agendas"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { kioskDistance } from "@/lib/kiosk-profile"
+import { analytics } from "@/lib/analytics"
+import { useI18n } from "@/components/i18n-provider"
 import { Spinner } from "@/components/ui/spinner"
-
-// Normaliza textos a slug: minúsculas, sin acentos, sólo [a-z0-9-]
-const slugify = (input: string): string => {
-  return String(input || "")
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-}
-
-interface Especialidad {
-  especialidadId: number
-  descripcion: string
-  tipo?: string
-  icono?: string
-}
-
-interface Medico {
-  id: number
-  nombres: string
-  retrato?: string
-  especialidades: Especialidad[]
-}
+import { PrintTicketButton } from "@/components/print-ticket"
+import { buildSpecialtyTicket } from "@/lib/print-ticket"
+import { AvailabilityFilters } from "@/components/availability-filters"
+import { EMPTY_AVAILABILITY_FILTER, countAvailability, doctorMatches, isFilterActive } from "@/lib/doctor-availability"
+import type { AgendaDetallada, AvailabilityFilter } from "@/lib/types"
 
 interface DoctorsPageProps {
   params: Promise<{
@@ -43,119 +28,81 @@ interface DoctorsPageProps {
 export default function DoctorsPage({ params }: DoctorsPageProps) {
   // Desempaquetar los parámetros con React.use()
   const { specialty: specialtyId } = use(params)
-  const [allDoctors, setAllDoctors] = useState<Medico[]>([])
-  const [specialtyName, setSpecialtyName] = useState<string>("")
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [resolvedSpecialtyId, setResolvedSpecialtyId] = useState<string | null>(null)
+  const { specialty, loading: specialtyLoading, error: specialtyError } = useSpecialty(specialtyId)
+  const { doctors, loading: doctorsLoading, error: doctorsError } = useAgendaDoctors()
+  const { ubicacion, impresora } = useKioskProfile()
+  const { t } = useI18n()
+  const [filter, setFilter] = useState<AvailabilityFilter>(EMPTY_AVAILABILITY_FILTER)
+
+  const specialtyName = specialty?.descripcion ?? ""
+  const resolvedSpecialtyId = specialty ? String(specialty.especialidadId) : null
+  // Agendas de la especialidad: filtros de disponibilidad, orden por cercanía y ticket impreso
+  const { agendas } = useAgendasDetalladas(
+    { especialidadId: resolvedSpecialtyId ?? undefined },
+    resolvedSpecialtyId != null
+  )
+  const loading = specialtyLoading || doctorsLoading
+  const error = specialtyError || doctorsError ? t.errors.loadingDoctors : null
+
+  // Médicos con agenda que atienden la especialidad; los más cercanos al kiosco primero
+  const allDoctors = useMemo(() => {
+    if (!resolvedSpecialtyId) return []
+    const filtered = doctors.filter((doctor) =>
+      doctor.especialidades.some((esp) => esp.especialidadId === resolvedSpecialtyId)
+    )
+    if (!agendas?.length || ubicacion == null) return filtered
+
+    const distancia = new Map<string, number>()
+    agendas.forEach((a) => {
+      const codigo = String(a.codigo_prestador ?? "")
+      const d = kioskDistance(ubicacion, a)
+      distancia.set(codigo, Math.min(distancia.get(codigo) ?? Infinity, d))
+    })
+    const rank = (doctor: (typeof filtered)[number]) =>
+      distancia.get(doctor.codigoPrestador) ?? distancia.get(doctor.id) ?? Number.MAX_SAFE_INTEGER
+    return [...filtered].sort((a, b) => rank(a) - rank(b))
+  }, [doctors, resolvedSpecialtyId, agendas, ubicacion])
+
+  // Agendas de cada médico del listado (por código de prestador o, si no, por id)
+  const doctorAgendas = useMemo(() => {
+    const byCodigo = new Map<string, AgendaDetallada[]>()
+    ;(agendas ?? []).forEach((a) => {
+      const codigo = String(a.codigo_prestador ?? "")
+      byCodigo.set(codigo, [...(byCodigo.get(codigo) ?? []), a])
+    })
+    return new Map(
+      allDoctors.map((doctor) => [doctor.id, byCodigo.get(doctor.codigoPrestador) ?? byCodigo.get(doctor.id) ?? []])
+    )
+  }, [agendas, allDoctors])
+
+  // Sin filtros se muestran todos; con filtros, solo quienes tienen una agenda que los cumple
+  const visibleDoctors = useMemo(
+    () => allDoctors.filter((doctor) => doctorMatches(doctorAgendas.get(doctor.id) ?? [], filter)),
+    [allDoctors, doctorAgendas, filter]
+  )
+  const availabilityCounts = useMemo(
+    () => countAvailability([...doctorAgendas.values()], filter),
+    [doctorAgendas, filter]
+  )
 
+  // Ticket "Imprimir lista": médicos en pantalla (con los filtros aplicados) con consultorio y días
+  const printTicket = useMemo(() => {
+    if (!impresora || !specialtyName || !visibleDoctors.length) return null
+    return buildSpecialtyTicket({
+      specialtyName,
+      doctors: visibleDoctors.map((doctor) => ({
+        name: doctor.nombres,
+        agendas: doctorAgendas.get(doctor.id) ?? [],
+      })),
+      t,
+    })
+  }, [impresora, specialtyName, visibleDoctors, doctorAgendas, t])
+
+  // Estadísticas de uso: especialidades más consultadas
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const token = await getAccessToken()
-
-        // 1. Obtener información de la especialidad sin fallbacks cruzados
-        const isId = /^\d+$/.test(String(specialtyId))
-        let resolvedIdForFilter = String(specialtyId)
-        if (isId) {
-          const specialtyResponse = await axios.get(`http://10.129.180.166:36560/api3/v1/especialidades/${specialtyId}`, {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Accept': 'application/json'
-            }
-          })
-          if (!specialtyResponse.data?.descripcion) throw new Error('Especialidad no encontrada')
-          setSpecialtyName(specialtyResponse.data.descripcion)
-          resolvedIdForFilter = String(specialtyResponse.data.especialidadId ?? specialtyId)
-          setResolvedSpecialtyId(resolvedIdForFilter)
-        } else {
-          const res = await axios.get('http://10.129.180.166:36560/api3/v1/especialidades/agenda', {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Accept': 'application/json'
-            }
-          })
-          const list = Array.isArray(res.data) ? res.data : []
-          const match = list.find((spec: any) => slugify(String(spec.descripcion || '')) === slugify(String(specialtyId)))
-          if (!match) throw new Error('Especialidad no encontrada')
-          setSpecialtyName(match.descripcion)
-          resolvedIdForFilter = String(match.especialidadId)
-          setResolvedSpecialtyId(resolvedIdForFilter)
-        }
-
-        // 2. Obtener todos los médicos con sus detalles
-        const allDoctorsResponse = await axios.get('http://10.129.180.166:36560/api3/v1/medico/agenda2', {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Accept': 'application/json'
-          }
-        })
-
-        // Verificar si la respuesta es un array de IDs o de objetos completos
-        const isArrayOfIds = Array.isArray(allDoctorsResponse.data) &&
-          allDoctorsResponse.data.every((item: any) => typeof item === 'number')
-
-        let doctorsData: Medico[] = []
-
-        if (isArrayOfIds) {
-          // 3a. Si es array de IDs, obtener detalles de cada médico
-          const successfulDoctors: Medico[] = []
-
-          // Usar Promise.allSettled para manejar errores individuales
-          const results = await Promise.allSettled(
-            allDoctorsResponse.data.map(async (doctorId: number) => {
-              try {
-                const doctorResponse = await axios.get(`http://10.129.180.166:36560/api3/v1/medico/agenda2/${doctorId}`, {
-                  headers: {
-                    'Authorization': `Bearer ${token}`,
-                    'Accept': 'application/json'
-                  }
-                })
-                return doctorResponse.data
-              } catch (err) {
-                // En producción, no deberíamos loggear errores de usuario
-                // console.error(`Error obteniendo médico ${doctorId}:`, (err as Error).message)
-                return null
-              }
-            })
-          )
-
-          // Filtrar médicos válidos y que pertenecen a la especialidad
-          results.forEach(result => {
-            if (result.status === 'fulfilled' && result.value) {
-              const doctor = result.value
-              if (
-                doctor.especialidades?.some(
-                  (esp: Especialidad) => String(esp.especialidadId) === String(resolvedIdForFilter)
-                )
-              ) {
-                successfulDoctors.push(doctor)
-              }
-            }
-          })
-
-          doctorsData = successfulDoctors
-        } else {
-          // 3b. Si ya son objetos completos, filtrar directamente
-          doctorsData = allDoctorsResponse.data.filter((doctor: Medico) =>
-            doctor.especialidades?.some(
-              (esp: Especialidad) => String(esp.especialidadId) === String(resolvedIdForFilter)
-            )
-          )
-        }
-
-        setAllDoctors(doctorsData)
-      } catch (err) {
-        // En producción, no deberíamos loggear errores de usuario
-        // console.error('Error fetching doctors:', err)
-        setError('Error al cargar los doctores. Intente nuevamente más tarde.')
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchData()
-  }, [specialtyId])
+    if (!resolvedSpecialtyId || !specialtyName) return
+    analytics.track({ type: "specialty_view", especialidadId: resolvedSpecialtyId, especialidad: specialtyName })
+  }, [resolvedSpecialtyId, specialtyName])
 
   if (loading) {
     return (
@@ -171,13 +118,13 @@ export default function DoctorsPage({ params }: DoctorsPageProps) {
     return (
       <DirectorioLayout>
         <div className="error-container">
-          <h2>Error</h2>
+          <h2>{t.common.error}</h2>
           <p>{error}</p>
           <button
             className="retry-button"
             onClick={() => window.location.reload()}
           >
-            Reintentar
+            {t.common.retry}
           </button>
         </div>
       </DirectorioLayout>
@@ -188,9 +135,9 @@ export default function DoctorsPage({ params }: DoctorsPageProps) {
     return (
       <DirectorioLayout>
         <div style={{ paddingTop: '50px' }}>
-          <h1 className="text-4xl font-bold text-primary mb-10 text-center">Doctores en {specialtyName || 'esta especialidad'}</h1>
+          <h1 className="text-4xl font-bold text-primary mb-10 text-center">{t.specialties.doctorsIn(specialtyName || t.specialties.thisSpecialty)}</h1>
           <p className="text-2xl text-accent2 col-span-full text-center">
-            No se encontraron doctores para esta especialidad.
+            {t.specialties.noDoctors}
           </p>
         </div>
       </DirectorioLayout>
@@ -200,19 +147,34 @@ export default function DoctorsPage({ params }: DoctorsPageProps) {
   return (
     <DirectorioLayout>
       <div style={{ paddingTop: '200px' }}>
-        <h1 className="text-4xl font-bold text-primary mb-10 text-center">DOCTORES EN  {specialtyName}</h1>
-        
-        {/* Mostrar todos los doctores sin filtro */}
+        <h1 className="text-4xl font-bold text-primary mb-10 text-center">{t.specialties.doctorsTitle(specialtyName)}</h1>
+        <PrintTicketButton ticket={printTicket} label={t.print.list} className="mb-10" />
+
+        {/* Filtros de disponibilidad: aparecen cuando llegan las agendas de la especialidad */}
+        {agendas && agendas.length > 0 && (
+          <div className="mx-auto mb-10 w-full max-w-6xl px-4">
+            <AvailabilityFilters filter={filter} counts={availabilityCounts} onChange={setFilter} />
+            {isFilterActive(filter) && (
+              <p role="status" className="mt-3 text-center text-xl font-semibold text-accent2">
+                {t.availability.showing(visibleDoctors.length, allDoctors.length)}
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="w-full flex justify-center">
           <div className="w-full max-w-6xl">
+            {visibleDoctors.length === 0 && (
+              <p className="text-2xl text-accent2 text-center">{t.availability.noMatches}</p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8 justify-items-center">
-              {allDoctors.map((doctor, index) => {
-                const isLastOdd = allDoctors.length % 2 === 1 && index === allDoctors.length - 1
+              {visibleDoctors.map((doctor, index) => {
+                const isLastOdd = visibleDoctors.length % 2 === 1 && index === visibleDoctors.length - 1
                 return (
                   <div key={doctor.id} className={`flex justify-center ${isLastOdd ? 'md:col-span-2' : ''}`}>
                     <DoctorCard
                       doctor={{
-                        id: doctor.id.toString(),
+                        id: doctor.id,
                         name: doctor.nombres,
                         photo: doctor.retrato,
                       }}
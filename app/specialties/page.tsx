@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react"
+import { useState, useMemo } from "react"
 import Link from "next/link"
 import { Input } from "@/components/ui/input"
 import "@/styles/pages.css"
@@ -8,37 +8,74 @@ import "@/styles/especialidades.css"
 import { Card, CardContent, CardTitle } from "@/components/ui/card"
 import { DirectorioLayout } from "@/components/directorio-layout"
 import { VirtualKeyboard } from "@/components/virtual-keyboard"
-import { SearchIcon } from 'lucide-react'
-import axios from "axios"
-import { getAccessToken } from "../../lib/auth"
+import { BuildingIcon, SearchIcon, ArrowDownAZIcon } from 'lucide-react'
 import { Spinner } from "@/components/ui/spinner"
-import { config } from "@/lib/config"
+import { useSpecialties } from "@/hooks/use-specialties"
+import { useSearchTracking } from "@/hooks/use-analytics"
+import { useI18n } from "@/components/i18n-provider"
+import { ALPHABET, groupSpecialtiesByFloor, groupSpecialtiesByLetter } from "@/lib/specialty-directory"
 import type { Especialidad } from "@/lib/types"
 // import { apiService } from "@/lib/api-service" // Ya no necesario para obtener ubicaciones
 
+// Tarjeta de una especialidad con su ícono y piso
+function SpecialtyCard({ specialty }: { specialty: Especialidad }) {
+  const { t } = useI18n()
+
+  return (
+    <Link
+      href={`/specialties/${specialty.especialidadId}`}
+      passHref
+    >
+      <Card className="specialties-card group">
+        <CardContent className="specialties-card-content">
+          {specialty.icono ? (
+            <div className="specialties-icon-container">
+              <img
+                src={specialty.icono}
+                alt={t.specialties.iconAlt(specialty.descripcion || "")}
+                className="specialties-card-icon"
+                onError={(e) => {
+                  (e.target as HTMLImageElement).style.display = 'none'
+                }}
+              />
+            </div>
+          ) : (
+            <div className="specialties-default-icon">
+              <span className="text-2xl" aria-hidden="true">🏥</span>
+            </div>
+          )}
+          <CardTitle className="specialties-card-title">
+            {specialty.descripcion || t.specialties.unnamed}
+          </CardTitle>
+          {specialty.piso && (
+            <p className="font-semibold" style={{ fontFamily: "Arial, sans-serif", fontSize: '1rem', fontWeight: 'bold' }}>
+              {specialty.piso}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </Link>
+  )
+}
+
 export default function SpecialtiesPage() {
   const [searchTerm, setSearchTerm] = useState("")
   const [isKeyboardOpen, setIsKeyboardOpen] = useState(false)
-  const [specialties, setSpecialties] = useState<Especialidad[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  // Vista alfabética con índice A–Z o vista del edificio agrupada por piso
+  const [view, setView] = useState<"alphabetical" | "floors">("alphabetical")
+  const [selectedFloorKey, setSelectedFloorKey] = useState<string | null>(null)
+  const { specialties, loading, error: loadError } = useSpecialties()
+  const { t } = useI18n()
+  const error = loadError ? t.errors.loadingSpecialties : null
 
   // FUNCIÓN COMENTADA: Ya no necesaria porque la API externa ahora trae el piso directamente
   /*
   // Función para obtener la ubicación más común de una especialidad
   const getEspecialidadLocation = async (especialidadId: number): Promise<string> => {
     try {
-      const token = await getAccessToken()
       // Obtener médicos de la especialidad
-      const doctorsResponse = await axios.get(`${config.api.authUrl}/medico/especialidad/${especialidadId}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/json'
-        },
-        timeout: config.api.timeout
-      })
-
-      const doctors = Array.isArray(doctorsResponse.data) ? doctorsResponse.data : []
+      const doctorsResponse = await api3Service.getMedicosPorEspecialidad(especialidadId)
+      const doctors = doctorsResponse.data
       if (doctors.length === 0) return 'Sin agendas'
 
       // Contador de ubicaciones
@@ -49,10 +86,7 @@ export default function SpecialtiesPage() {
       
       for (const doctor of doctorsToCheck) {
         try {
-          const providerId = doctor.codigoPrestador ?? doctor.codigo_prestador ?? doctor.id
-          if (!providerId) continue
-
-          const agendasRes = await apiService.getAgendasDetalladasPorMedico(String(providerId))
+          const agendasRes = await apiService.getAgendasDetalladasPorMedico(doctor.codigoPrestador)
           if (agendasRes.success && Array.isArray(agendasRes.data)) {
             agendasRes.data.forEach((agenda) => {
               const piso = agenda.piso || agenda.pisoDescripcion
@@ -82,51 +116,6 @@ export default function SpecialtiesPage() {
   }
   */
 
-  useEffect(() => {
-    const fetchSpecialties = async () => {
-      try {
-        // Cacheado simple en sessionStorage (v5: piso viene directo de API externa)
-        const cacheKey = 'specialties_agenda_cache_v5'
-        const cached = typeof window !== 'undefined' ? sessionStorage.getItem(cacheKey) : null
-        if (cached) {
-          const parsed = JSON.parse(cached)
-          if (parsed?.ts && Date.now() - parsed.ts < config.cache.specialties && Array.isArray(parsed.data)) {
-            setSpecialties(parsed.data)
-            return
-          }
-        }
-
-        const token = await getAccessToken()
-        const response = await axios.get(`${config.api.authUrl}/especialidades/agenda`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Accept': 'application/json'
-          },
-          timeout: config.api.timeout
-        })
-
-        // Traer TODAS las especialidades válidas (ahora ya incluyen el piso), ordenadas alfabéticamente
-        const finalList = (response.data as Especialidad[])
-          .filter((esp: Especialidad) => Boolean(esp.descripcion))
-          .sort((a: Especialidad, b: Especialidad) => (a.descripcion || '').localeCompare(b.descripcion || ''))
-        
-        // ¡Ya no necesitamos consultas adicionales! El piso viene directamente de la API externa
-        setSpecialties(finalList)
-        if (typeof window !== 'undefined') {
-          sessionStorage.setItem(cacheKey, JSON.stringify({ ts: Date.now(), data: finalList }))
-        }
-      } catch (err) {
-        // En producción, no deberíamos loggear errores de usuario
-        // console.error('Error fetching specialties:', err)
-        setError('Error al cargar las especialidades. Intente nuevamente más tarde.')
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchSpecialties()
-  }, [])
-
   // Filtrar especialidades según el término de búsqueda
   const filteredSpecialties = useMemo(() => {
     return searchTerm
@@ -135,6 +124,16 @@ export default function SpecialtiesPage() {
       : specialties
   }, [searchTerm, specialties])
 
+  useSearchTracking("specialties", searchTerm, filteredSpecialties.length, !loading)
+
+  const letterGroups = useMemo(() => groupSpecialtiesByLetter(filteredSpecialties), [filteredSpecialties])
+  const floorGroups = useMemo(() => groupSpecialtiesByFloor(filteredSpecialties), [filteredSpecialties])
+  const selectedFloor = floorGroups.find((group) => group.key === selectedFloorKey) ?? null
+
+  const scrollToLetter = (letter: string) => {
+    document.getElementById(`letra-${letter}`)?.scrollIntoView({ behavior: "smooth", block: "start" })
+  }
+
   const handleEnter = () => {
     setIsKeyboardOpen(false)
   }
@@ -153,13 +152,13 @@ export default function SpecialtiesPage() {
     return (
       <DirectorioLayout>
         <div className="error-container">
-          <h2>Error</h2>
+          <h2>{t.common.error}</h2>
           <p>{error}</p>
           <button
             className="retry-button"
             onClick={() => window.location.reload()}
           >
-            Reintentar
+            {t.common.retry}
           </button>
         </div>
       </DirectorioLayout>
@@ -171,72 +170,134 @@ export default function SpecialtiesPage() {
       <div className="specialties-container" style={{ paddingTop: '10px' }}>
         <div className="sticky top-24 z-30 w-full bg-background/90 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b">
           <div className="w-full px-4">
-            <h1 className="specialties-title">Especialidades Médicas</h1>
+            <h1 className="specialties-title">{t.specialties.title}</h1>
             <div className="doctor-search-input-container" style={{ maxWidth: '100%' }}>
               <div className="doctor-search-input-wrapper" style={{ width: '100%' }}>
                 <Input
                   type="text"
-                  placeholder="Buscar especialidad..."
+                  placeholder={t.specialties.searchPlaceholder}
                   value={searchTerm}
                   onFocus={() => setIsKeyboardOpen(true)}
                   readOnly
                   className="doctor-search-input"
                 />
-                <SearchIcon className="doctor-search-icon" />
+                <SearchIcon className="doctor-search-icon" aria-hidden="true" />
               </div>
             </div>
+            <div role="group" aria-label={t.specialties.viewLabel} className="specialties-view-toggle">
+              <button
+                type="button"
+                aria-pressed={view === "alphabetical"}
+                onClick={() => setView("alphabetical")}
+                className="specialties-view-button"
+              >
+                <ArrowDownAZIcon className="w-6 h-6" aria-hidden="true" />
+                {t.specialties.viewAlphabetical}
+              </button>
+              <button
+                type="button"
+                aria-pressed={view === "floors"}
+                onClick={() => setView("floors")}
+                className="specialties-view-button"
+              >
+                <BuildingIcon className="w-6 h-6" aria-hidden="true" />
+                {t.specialties.viewByFloor}
+              </button>
+            </div>
           </div>
         </div>
 
-        <div className="w-full">
-          <div className="w-full">
-            {filteredSpecialties.length > 0 ? (
-              <div className="doctor-search-three-columns-layout" style={{ marginTop: '2rem' }}>
-                {filteredSpecialties.map((specialty) => (
-                  <div key={specialty.especialidadId} className="doctor-search-column">
-                    <Link
-                      href={`/specialties/${specialty.especialidadId}`}
-                      passHref
-                    >
-                      <Card className="specialties-card group">
-                        <CardContent className="specialties-card-content">
-                          {specialty.icono ? (
-                            <div className="specialties-icon-container">
-                              <img
-                                src={specialty.icono}
-                                alt={`Icono de ${specialty.descripcion}`}
-                                className="specialties-card-icon"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).style.display = 'none'
-                                }}
-                              />
-                            </div>
-                          ) : (
-                            <div className="specialties-default-icon">
-                              <span className="text-2xl">🏥</span>
-                            </div>
-                          )}
-                          <CardTitle className="specialties-card-title">
-                            {specialty.descripcion || 'Especialidad sin nombre'}
-                          </CardTitle>
-                          {specialty.piso && (
-                            <p className="font-semibold" style={{ fontFamily: "Arial, sans-serif", fontSize: '1rem', fontWeight: 'bold' }}>
-                              {specialty.piso}
-                            </p>
-                          )}
-                        </CardContent>
-                      </Card>
-                    </Link>
-                  </div>
+        {view === "alphabetical" ? (
+          filteredSpecialties.length > 0 ? (
+            <div className="specialties-alphabetical">
+              <div className="w-full">
+                {letterGroups.map((group) => (
+                  <section
+                    key={group.letter}
+                    id={`letra-${group.letter}`}
+                    className="specialties-letter-section"
+                    aria-labelledby={`letra-${group.letter}-titulo`}
+                  >
+                    <h2 id={`letra-${group.letter}-titulo`} className="specialties-letter-heading">{group.letter}</h2>
+                    <div className="doctor-search-three-columns-layout">
+                      {group.specialties.map((specialty) => (
+                        <div key={specialty.especialidadId} className="doctor-search-column">
+                          <SpecialtyCard specialty={specialty} />
+                        </div>
+                      ))}
+                    </div>
+                  </section>
                 ))}
               </div>
-            ) : (
-              <p className="specialties-empty">
-                {searchTerm ? "No se encontraron especialidades." : "Empieza a escribir para buscar una especialidad."}
-              </p>
-            )}
+
+              {/* Índice A–Z: salta a la letra sin tener que desplazar la lista larga */}
+              <nav aria-label={t.specialties.letterIndex} className="specialties-letter-rail">
+                {[...ALPHABET, "#"].map((letter) => {
+                  const available = letterGroups.some((g) => g.letter === letter)
+                  if (letter === "#" && !available) return null
+                  return (
+                    <button
+                      key={letter}
+                      type="button"
+                      disabled={!available}
+                      aria-label={t.specialties.goToLetter(letter)}
+                      onClick={() => scrollToLetter(letter)}
+                      className="specialties-letter-rail-button"
+                    >
+                      {letter}
+                    </button>
+                  )
+                })}
+              </nav>
+            </div>
+          ) : (
+            <p className="specialties-empty">
+              {searchTerm ? t.specialties.empty : t.specialties.prompt}
+            </p>
+          )
+        ) : floorGroups.length > 0 ? (
+          <div className="specialties-floor-view">
+            {/* Edificio: pisos de arriba hacia abajo */}
+            <div role="group" aria-label={t.specialties.floorsLabel} className="specialties-floor-stack">
+              <div className="specialties-floor-roof" aria-hidden="true" />
+              {floorGroups.map((group) => (
+                <button
+                  key={group.key}
+                  type="button"
+                  aria-pressed={group.key === selectedFloor?.key}
+                  onClick={() => setSelectedFloorKey(group.key === selectedFloor?.key ? null : group.key)}
+                  className="specialties-floor-button"
+                >
+                  <span className="specialties-floor-name">{group.label ?? t.specialties.noFloor}</span>
+                  <span className="specialties-floor-count">{t.specialties.floorCount(group.specialties.length)}</span>
+                </button>
+              ))}
+            </div>
+
+            <section aria-live="polite" className="w-full">
+              {selectedFloor ? (
+                <>
+                  <h2 className="specialties-floor-title">
+                    {selectedFloor.label ? t.specialties.floorTitle(selectedFloor.label) : t.specialties.noFloor}
+                  </h2>
+                  <div className="doctor-search-three-columns-layout">
+                    {selectedFloor.specialties.map((specialty) => (
+                      <div key={specialty.especialidadId} className="doctor-search-column">
+                        <SpecialtyCard specialty={specialty} />
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <p className="specialties-empty">{t.specialties.chooseFloor}</p>
+              )}
+            </section>
           </div>
-        </div>
+        ) : (
+          <p className="specialties-empty">
+            {searchTerm ? t.specialties.empty : t.specialties.prompt}
+          </p>
+        )}
       </div>
 
       {isKeyboardOpen && (
@@ -0,0 +1,227 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { ChevronRightIcon, InfoIcon, SearchIcon } from "lucide-react"
+import "@/styles/pages.css"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardTitle } from "@/components/ui/card"
+import { Spinner } from "@/components/ui/spinner"
+import { DirectorioLayout } from "@/components/directorio-layout"
+import { VirtualKeyboard } from "@/components/virtual-keyboard"
+import { BodyDiagram, BODY_DIAGRAM_ZONES } from "@/components/body-diagram"
+import { useI18n } from "@/components/i18n-provider"
+import { useSpecialties } from "@/hooks/use-specialties"
+import { useSymptomMap } from "@/hooks/use-symptom-map"
+import { useSearchTracking } from "@/hooks/use-analytics"
+import { localizedText, matchSymptoms, suggestSpecialties, symptomsInZone } from "@/lib/symptoms"
+import type { SymptomEntry } from "@/lib/types"
+
+// Buscador por síntoma o parte del cuerpo: sugiere especialidades con agenda según el mapa
+// curado por la Dirección Médica (SYMPTOMS.md) y enlaza a /specialties/[specialty]
+export default function SymptomsPage() {
+  const { t, locale } = useI18n()
+  const { symptomMap, loading: mapLoading, error: mapError } = useSymptomMap()
+  const { specialties, loading: specialtiesLoading, error: specialtiesError } = useSpecialties()
+  const [zoneId, setZoneId] = useState<string | null>(null)
+  const [symptom, setSymptom] = useState<SymptomEntry | null>(null)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [isKeyboardOpen, setIsKeyboardOpen] = useState(false)
+
+  const zone = symptomMap?.zonas.find((z) => z.id === zoneId) ?? null
+  const otherZones = symptomMap?.zonas.filter((z) => !BODY_DIAGRAM_ZONES.includes(z.id)) ?? []
+  const query = searchTerm.trim()
+
+  // Lo escrito busca en todas las zonas; sin texto, se listan los síntomas de la zona elegida
+  const symptoms = useMemo(() => {
+    if (!symptomMap) return []
+    if (query) return matchSymptoms(symptomMap, query)
+    return zoneId ? symptomsInZone(symptomMap, zoneId) : []
+  }, [symptomMap, query, zoneId])
+
+  const suggestions = useMemo(() => {
+    if (symptom) return suggestSpecialties([symptom], null, specialties)
+    if (!query && !zone) return []
+    return suggestSpecialties(symptoms, query ? null : zone, specialties)
+  }, [symptom, symptoms, query, zone, specialties])
+
+  useSearchTracking("symptoms", query, symptoms.length, !!symptomMap)
+
+  const handleZone = (id: string | null) => {
+    setZoneId(id)
+    setSymptom(null)
+    setSearchTerm("")
+  }
+
+  const handleSearch = (value: string) => {
+    setSearchTerm(value)
+    setSymptom(null)
+  }
+
+  if (mapLoading || specialtiesLoading) {
+    return (
+      <DirectorioLayout>
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Spinner size="lg" />
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  if (mapError || specialtiesError || !symptomMap) {
+    return (
+      <DirectorioLayout>
+        <div className="error-container">
+          <h2>{t.common.error}</h2>
+          <p>{mapError ? t.symptoms.loadError : t.errors.loadingSpecialties}</p>
+          <button className="retry-button" onClick={() => window.location.reload()}>
+            {t.common.retry}
+          </button>
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  // Mapa sin verificar (IDs de ejemplo): la opción no se ofrece en /selection ni aquí
+  if (!symptomMap.verificado) {
+    return (
+      <DirectorioLayout>
+        <div className="error-container">
+          <h2>{t.symptoms.unavailable}</h2>
+          <Link href="/selection" className="retry-button">
+            {t.common.back}
+          </Link>
+        </div>
+      </DirectorioLayout>
+    )
+  }
+
+  const hasSelection = Boolean(query || zone)
+
+  return (
+    <DirectorioLayout>
+      <div style={{ paddingTop: "10px" }}>
+        <div className="sticky top-24 z-30 w-full bg-background/90 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b">
+          <div className="w-full px-4">
+            <h1 className="doctor-search-title" style={{ marginBottom: "0.5rem" }}>{t.symptoms.title}</h1>
+            <p className="text-center text-xl text-accent2 mb-6">{t.symptoms.hint}</p>
+            <div className="doctor-search-input-container" style={{ maxWidth: "100%" }}>
+              <div className="doctor-search-input-wrapper" style={{ width: "100%" }}>
+                <Input
+                  type="text"
+                  placeholder={t.symptoms.placeholder}
+                  value={searchTerm}
+                  onFocus={() => setIsKeyboardOpen(true)}
+                  readOnly
+                  aria-haspopup="dialog"
+                  aria-controls="virtual-kb"
+                  className="doctor-search-input"
+                />
+                <SearchIcon className="doctor-search-icon" aria-hidden="true" />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-8 px-6 py-8">
+          <div className="flex flex-col items-center gap-6">
+            <BodyDiagram zones={symptomMap.zonas} selected={zoneId} onSelect={handleZone} />
+            {otherZones.length > 0 && (
+              <div role="group" aria-label={t.symptoms.otherZones} className="flex flex-wrap justify-center gap-3">
+                {otherZones.map((z) => (
+                  <button
+                    key={z.id}
+                    type="button"
+                    aria-pressed={z.id === zoneId}
+                    onClick={() => handleZone(z.id === zoneId ? null : z.id)}
+                    className={`rounded-full border-2 border-primary px-5 py-3 text-xl font-semibold transition-colors ${
+                      z.id === zoneId ? "bg-primary text-primary-foreground" : "bg-secondary text-primary hover:bg-accent1 hover:text-white"
+                    }`}
+                  >
+                    {localizedText(z.nombre, locale)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-8">
+            {hasSelection && (
+              <section aria-labelledby="sintomas">
+                <h2 id="sintomas" className="mb-4 text-2xl font-bold text-primary">
+                  {zone && !query ? localizedText(zone.nombre, locale) : t.symptoms.symptomsTitle}
+                </h2>
+                {symptoms.length === 0 ? (
+                  <p className="text-xl text-accent2">{t.symptoms.noMatches}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-3">
+                    {symptoms.map((s) => (
+                      <button
+                        key={s.nombre.es}
+                        type="button"
+                        aria-pressed={s === symptom}
+                        onClick={() => setSymptom(s === symptom ? null : s)}
+                        className={`rounded-xl border-2 border-primary/40 px-4 py-3 text-lg font-medium transition-colors ${
+                          s === symptom ? "bg-primary text-primary-foreground" : "bg-white text-accent2 hover:border-primary"
+                        }`}
+                      >
+                        {localizedText(s.nombre, locale)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </section>
+            )}
+
+            {hasSelection && (symptoms.length > 0 || (zone && !query)) && (
+              <section aria-labelledby="sugerencias" aria-live="polite">
+                <h2 id="sugerencias" className="mb-4 text-2xl font-bold text-primary">{t.symptoms.suggestionsTitle}</h2>
+                {suggestions.length === 0 ? (
+                  <p className="text-xl text-accent2">{t.symptoms.noSpecialties}</p>
+                ) : (
+                  <ul className="flex flex-col gap-4">
+                    {suggestions.map(({ especialidad, sintomas }) => (
+                      <li key={especialidad.especialidadId}>
+                        <Link href={`/specialties/${especialidad.especialidadId}`}>
+                          <Card className="group bg-secondary text-accent2 hover:bg-primary hover:text-primary-foreground transition-colors rounded-2xl shadow-md">
+                            <CardContent className="flex items-center justify-between gap-4 p-5">
+                              <div>
+                                <CardTitle className="text-2xl">{especialidad.descripcion || t.specialties.unnamed}</CardTitle>
+                                {sintomas.length > 0 && !symptom && (
+                                  <p className="mt-1 text-lg">
+                                    {t.symptoms.forSymptoms(sintomas.map((s) => localizedText(s.nombre, locale)).join(", "))}
+                                  </p>
+                                )}
+                                {especialidad.piso && <p className="mt-1 font-semibold">{especialidad.piso}</p>}
+                              </div>
+                              <ChevronRightIcon className="h-8 w-8 shrink-0" aria-hidden="true" />
+                            </CardContent>
+                          </Card>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
+
+            <p className="flex items-start gap-3 rounded-xl bg-[#F9F4F6] p-4 text-lg text-accent2">
+              <InfoIcon className="mt-1 h-6 w-6 shrink-0 text-primary" aria-hidden="true" />
+              {t.symptoms.disclaimer}
+            </p>
+          </div>
+        </div>
+
+        {isKeyboardOpen && (
+          <VirtualKeyboard
+            value={searchTerm}
+            onChange={handleSearch}
+            onClose={() => setIsKeyboardOpen(false)}
+            placeholder={t.symptoms.keyboardPlaceholder}
+            onEnter={() => setIsKeyboardOpen(false)}
+          />
+        )}
+      </div>
+    </DirectorioLayout>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useId, useRef, useState } from "react"
+import { AccessibilityIcon, ContrastIcon, ArrowDownToLineIcon, TypeIcon, RotateCcwIcon, XIcon } from "lucide-react"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { useI18n } from "@/components/i18n-provider"
+
+// Botón flotante (abajo a la izquierda, al alcance desde una silla de ruedas) con las opciones de accesibilidad
+export function AccessibilityMenu() {
+  const { highContrast, largeText, reachMode, setHighContrast, setLargeText, setReachMode, reset } = useAccessibility()
+  const { t } = useI18n()
+  const [open, setOpen] = useState(false)
+  const panelId = useId()
+  const firstOptionRef = useRef<HTMLButtonElement>(null)
+
+  // Al abrir, el foco pasa a la primera opción; Escape cierra el panel
+  useEffect(() => {
+    if (!open) return
+    firstOptionRef.current?.focus()
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false)
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [open])
+
+  const options = [
+    { label: t.a11y.highContrast, icon: ContrastIcon, checked: highContrast, toggle: () => setHighContrast(!highContrast) },
+    { label: t.a11y.largeText, icon: TypeIcon, checked: largeText, toggle: () => setLargeText(!largeText) },
+    { label: t.a11y.reach, hint: t.a11y.reachHint, icon: ArrowDownToLineIcon, checked: reachMode, toggle: () => setReachMode(!reachMode) },
+  ]
+
+  return (
+    // Con "bajar contenido" sube un poco para no tapar la barra de navegación fijada abajo
+    <div className={`fixed ${reachMode ? "bottom-32" : "bottom-12"} left-6 z-50 flex flex-col items-start gap-3`}>
+      {open && (
+        <div
+          id={panelId}
+          role="dialog"
+          aria-label={t.a11y.menu}
+          className="a11y-panel w-[22rem] rounded-2xl bg-white text-accent2 shadow-2xl border-2 border-primary p-4 flex flex-col gap-3"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-primary">{t.a11y.menu}</h2>
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              aria-label={t.a11y.close}
+              className="rounded-full p-2 hover:bg-primary/10"
+            >
+              <XIcon className="w-7 h-7" aria-hidden="true" />
+            </button>
+          </div>
+          {options.map(({ label, hint, icon: Icon, checked, toggle }, i) => (
+            <button
+              key={label}
+              ref={i === 0 ? firstOptionRef : undefined}
+              type="button"
+              role="switch"
+              aria-checked={checked}
+              onClick={toggle}
+              className={`flex items-center gap-4 rounded-xl border-2 px-4 py-3 text-left text-xl font-semibold transition-colors ${
+                checked ? "bg-primary text-primary-foreground border-primary" : "bg-white border-primary/30 hover:bg-primary/10"
+              }`}
+            >
+              <Icon className="w-8 h-8 shrink-0" aria-hidden="true" />
+              <span className="flex flex-col">
+                {label}
+                {hint && <span className="text-base font-normal">{hint}</span>}
+              </span>
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={reset}
+            className="flex items-center justify-center gap-2 rounded-xl px-4 py-3 text-lg font-semibold text-primary hover:bg-primary/10"
+          >
+            <RotateCcwIcon className="w-6 h-6" aria-hidden="true" />
+            {t.a11y.reset}
+          </button>
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        aria-controls={open ? panelId : undefined}
+        aria-label={t.a11y.menu}
+        className="rounded-full bg-primary text-primary-foreground p-5 shadow-2xl border-4 border-white hover:bg-accent1"
+      >
+        <AccessibilityIcon className="w-12 h-12" aria-hidden="true" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import { useTheme } from "next-themes"
+import { KIOSK_IDLE_EVENT, THEMES } from "@/lib/constants"
+
+interface AccessibilityContextValue {
+  highContrast: boolean
+  largeText: boolean
+  reachMode: boolean // "bajar contenido": controles al alcance desde una silla de ruedas
+  setHighContrast: (value: boolean) => void
+  setLargeText: (value: boolean) => void
+  setReachMode: (value: boolean) => void
+  reset: () => void
+}
+
+const AccessibilityContext = createContext<AccessibilityContextValue | null>(null)
+
+// Preferencias de accesibilidad del visitante actual. El alto contraste es un tema de next-themes;
+// texto grande y "bajar contenido" son clases en <html> (app/globals.css). Todo vuelve al estado
+// inicial cuando IdleRedirect detecta inactividad.
+export function AccessibilityProvider({ children }: { children: React.ReactNode }) {
+  const { resolvedTheme, setTheme } = useTheme()
+  const [largeText, setLargeText] = useState(false)
+  const [reachMode, setReachMode] = useState(false)
+  const highContrast = resolvedTheme === THEMES.HIGH_CONTRAST
+
+  const setHighContrast = useCallback(
+    (value: boolean) => setTheme(value ? THEMES.HIGH_CONTRAST : THEMES.DEFAULT),
+    [setTheme]
+  )
+
+  const reset = useCallback(() => {
+    setTheme(THEMES.DEFAULT)
+    setLargeText(false)
+    setReachMode(false)
+  }, [setTheme])
+
+  useEffect(() => {
+    window.addEventListener(KIOSK_IDLE_EVENT, reset)
+    return () => window.removeEventListener(KIOSK_IDLE_EVENT, reset)
+  }, [reset])
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("a11y-large-text", largeText)
+  }, [largeText])
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("a11y-reach", reachMode)
+  }, [reachMode])
+
+  const value = useMemo<AccessibilityContextValue>(
+    () => ({ highContrast, largeText, reachMode, setHighContrast, setLargeText, setReachMode, reset }),
+    [highContrast, largeText, reachMode, setHighContrast, reset]
+  )
+
+  return <AccessibilityContext.Provider value={value}>{children}</AccessibilityContext.Provider>
+}
+
+export function useAccessibility(): AccessibilityContextValue {
+  const context = useContext(AccessibilityContext)
+  if (!context) throw new Error("useAccessibility debe usarse dentro de AccessibilityProvider")
+  return context
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { useEffect } from "react"
+import { usePathname } from "next/navigation"
+import { analytics } from "@/lib/analytics"
+import { KIOSK_IDLE_EVENT } from "@/lib/constants"
+
+// Registra las páginas vistas, cierra la sesión cuando IdleRedirect vuelve al inicio por
+// inactividad y envía lo pendiente antes de que se cierre o recargue la página (lib/analytics.ts)
+export function AnalyticsTracker() {
+  const pathname = usePathname()
+
+  useEffect(() => {
+    analytics.track({ type: "page_view" })
+  }, [pathname])
+
+  useEffect(() => {
+    const onIdle = () => analytics.endSession("idle")
+    const onPageHide = () => void analytics.flush(true)
+    window.addEventListener(KIOSK_IDLE_EVENT, onIdle)
+    window.addEventListener("pagehide", onPageHide)
+    return () => {
+      window.removeEventListener(KIOSK_IDLE_EVENT, onIdle)
+      window.removeEventListener("pagehide", onPageHide)
+    }
+  }, [])
+
+  return null
+}
@@ -0,0 +1,36 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { useI18n } from "@/components/i18n-provider"
+
+// Videos de atracción del perfil del kiosco, uno tras otro y en bucle
+export function AttractLoop({ className, style }: { className?: string; style?: React.CSSProperties }) {
+  const { videos } = useKioskProfile()
+  const { t } = useI18n()
+  const [current, setCurrent] = useState(0)
+
+  useEffect(() => {
+    setCurrent(0)
+  }, [videos])
+
+  const src = videos[current] ?? videos[0]
+  if (!src) return null
+
+  return (
+    <video
+      key={src}
+      src={src}
+      autoPlay
+      // Con un solo video se repite; con varios, al terminar pasa al siguiente
+      loop={videos.length === 1}
+      onEnded={() => setCurrent((i) => (i + 1) % videos.length)}
+      muted
+      playsInline
+      className={className}
+      style={style}
+    >
+      {t.common.videoUnsupported}
+    </video>
+  )
+}
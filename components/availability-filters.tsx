@@ -0,0 +1,120 @@
+"use client"
+
+import { FilterXIcon } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { CONSULTA_TYPES } from "@/lib/constants"
+import { EMPTY_AVAILABILITY_FILTER, TIME_BANDS, isFilterActive } from "@/lib/doctor-availability"
+import { WEEK_DAYS } from "@/lib/doctor-schedule"
+import type { AvailabilityCounts, AvailabilityFilter } from "@/lib/types"
+
+function FilterChip({
+  label,
+  count,
+  pressed,
+  onClick,
+}: {
+  label: string
+  count: number
+  pressed: boolean
+  onClick: () => void
+}) {
+  const { t } = useI18n()
+
+  return (
+    <button
+      type="button"
+      aria-pressed={pressed}
+      aria-label={t.availability.chipLabel(label, count)}
+      // Una opción sin médicos no se puede elegir, pero la elegida siempre se puede quitar
+      disabled={count === 0 && !pressed}
+      onClick={onClick}
+      className={`flex items-center gap-2 rounded-full border-2 border-primary px-4 py-2 text-lg font-semibold transition-colors disabled:opacity-40 ${
+        pressed ? "bg-primary text-primary-foreground" : "bg-white text-primary hover:bg-secondary"
+      }`}
+    >
+      {label}
+      <span
+        aria-hidden="true"
+        className={`min-w-[1.75rem] rounded-full px-2 text-base ${pressed ? "bg-white text-primary" : "bg-primary text-primary-foreground"}`}
+      >
+        {count}
+      </span>
+    </button>
+  )
+}
+
+// Chips de día, franja y tipo de agenda con la cantidad de médicos que quedan al elegir cada uno
+export function AvailabilityFilters({
+  filter,
+  counts,
+  onChange,
+}: {
+  filter: AvailabilityFilter
+  counts: AvailabilityCounts
+  onChange: (filter: AvailabilityFilter) => void
+}) {
+  const { t } = useI18n()
+  const toggle = <K extends keyof AvailabilityFilter>(key: K, value: AvailabilityFilter[K]) =>
+    onChange({ ...filter, [key]: filter[key] === value ? null : value })
+
+  const tipos = [
+    { value: CONSULTA_TYPES.CONSULTA, label: t.doctor.consulta },
+    { value: CONSULTA_TYPES.PROCEDIMIENTO, label: t.doctor.procedure },
+  ]
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl bg-[#F9F4F6] p-5">
+      <div role="group" aria-labelledby="filtro-dia" className="flex flex-wrap items-center gap-3">
+        <span id="filtro-dia" className="w-32 text-xl font-bold text-accent2">{t.availability.day}</span>
+        {WEEK_DAYS.filter((day) => counts.day[day] > 0 || filter.day === day).map((day) => (
+          <FilterChip
+            key={day}
+            label={t.days[day as keyof typeof t.days]}
+            count={counts.day[day]}
+            pressed={filter.day === day}
+            onClick={() => toggle("day", day)}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-10 gap-y-4">
+        <div role="group" aria-labelledby="filtro-franja" className="flex flex-wrap items-center gap-3">
+          <span id="filtro-franja" className="w-32 text-xl font-bold text-accent2">{t.availability.band}</span>
+          {TIME_BANDS.map((band) => (
+            <FilterChip
+              key={band}
+              label={t.availability[band]}
+              count={counts.band[band]}
+              pressed={filter.band === band}
+              onClick={() => toggle("band", band)}
+            />
+          ))}
+        </div>
+
+        <div role="group" aria-labelledby="filtro-tipo" className="flex flex-wrap items-center gap-3">
+          <span id="filtro-tipo" className="text-xl font-bold text-accent2">{t.availability.tipo}</span>
+          {tipos.map(({ value, label }) => (
+            <FilterChip
+              key={value}
+              label={label}
+              count={counts.tipo[value]}
+              pressed={filter.tipo === value}
+              onClick={() => toggle("tipo", value)}
+            />
+          ))}
+        </div>
+
+        {isFilterActive(filter) && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_AVAILABILITY_FILTER)}
+            className="ml-auto flex items-center gap-2 rounded-full px-4 py-2 text-lg font-semibold text-primary underline"
+          >
+            <FilterXIcon className="h-5 w-5" aria-hidden="true" />
+            {t.availability.clear}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { useI18n } from "@/components/i18n-provider"
+import { localizedText } from "@/lib/symptoms"
+import type { SymptomZone } from "@/lib/types"
+
+// Figura de frente en un lienzo de 200x420. Las zonas pequeñas (ojos, oídos, boca) van al final
+// para quedar encima de la cabeza y recibir el toque.
+const BODY_SHAPES: Record<string, ReactNode> = {
+  cabeza: <ellipse cx={100} cy={48} rx={32} ry={38} />,
+  pecho: <rect x={58} y={104} width={84} height={72} rx={18} />,
+  abdomen: <rect x={62} y={176} width={76} height={56} rx={10} />,
+  pelvis: <path d="M62 232 H138 L132 268 H68 Z" />,
+  brazos: (
+    <>
+      <rect x={30} y={108} width={24} height={150} rx={12} />
+      <rect x={146} y={108} width={24} height={150} rx={12} />
+    </>
+  ),
+  piernas: (
+    <>
+      <rect x={68} y={270} width={28} height={140} rx={12} />
+      <rect x={104} y={270} width={28} height={140} rx={12} />
+    </>
+  ),
+  "oidos-nariz-garganta": (
+    <>
+      <ellipse cx={66} cy={50} rx={7} ry={12} />
+      <ellipse cx={134} cy={50} rx={7} ry={12} />
+      <rect x={88} y={84} width={24} height={20} rx={4} />
+    </>
+  ),
+  ojos: <rect x={78} y={32} width={44} height={14} rx={7} />,
+  boca: <ellipse cx={100} cy={66} rx={11} ry={6} />,
+}
+
+// Zonas que se dibujan en la figura; el resto de zonas del mapa se muestran como botones
+export const BODY_DIAGRAM_ZONES = Object.keys(BODY_SHAPES)
+
+// Diagrama del cuerpo con zonas tocables. Solo se dibujan las zonas presentes en el mapa de síntomas.
+export function BodyDiagram({
+  zones,
+  selected,
+  onSelect,
+}: {
+  zones: SymptomZone[]
+  selected: string | null
+  onSelect: (zoneId: string | null) => void
+}) {
+  const { t, locale } = useI18n()
+  const byId = new Map(zones.map((zone) => [zone.id, zone]))
+
+  return (
+    <svg viewBox="0 0 200 420" role="group" aria-label={t.symptoms.diagramLabel} className="h-full w-full max-h-[60vh]">
+      {BODY_DIAGRAM_ZONES.filter((id) => byId.has(id)).map((id) => {
+        const zone = byId.get(id) as SymptomZone
+        const isSelected = id === selected
+        const toggle = () => onSelect(isSelected ? null : id)
+        return (
+          <g
+            key={id}
+            role="button"
+            tabIndex={0}
+            aria-label={localizedText(zone.nombre, locale)}
+            aria-pressed={isSelected}
+            onClick={toggle}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault()
+                toggle()
+              }
+            }}
+            fill={isSelected ? "#7F0C43" : "#F9F4F6"}
+            stroke="#7F0C43"
+            strokeWidth={2}
+            className="cursor-pointer transition-colors hover:fill-[#C84D80]"
+          >
+            <title>{localizedText(zone.nombre, locale)}</title>
+            {BODY_SHAPES[id]}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge" 
+import { useI18n } from "@/components/i18n-provider"
 import type { CurrentTimeProps } from "@/lib/types"
 
 export function CurrentTime({ variant = 'full' }: CurrentTimeProps) {
@@ -10,53 +11,30 @@ export function CurrentTime({ variant = 'full' }: CurrentTimeProps) {
   const [compactTime, setCompactTime] = useState("")
   const [compactDate, setCompactDate] = useState("")
   const [mounted, setMounted] = useState(false)
+  const { formatClock, formatLongDate, formatShortDate } = useI18n()
 
   useEffect(() => {
     setMounted(true)
     const update = () => {
       const d = new Date()
-      
-      // Formato de hora (más grande)
-      const h24 = d.getHours()
-      const mm = d.getMinutes().toString().padStart(2, '0')
-      const ss = d.getSeconds().toString().padStart(2, '0')
-      const h12 = ((h24 + 11) % 12) + 1
-      const ampm = h24 >= 12 ? 'PM' : 'AM'
-      setNowText(`${h12}:${mm}:${ss} ${ampm}`)
-      
-      // Formato de fecha en español
-      const dias = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado']
-      const meses = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre']
-      
-      const diaSemana = dias[d.getDay()]
-      const dia = d.getDate()
-      const mes = meses[d.getMonth()]
-      const año = d.getFullYear()
-      
-      setDateText(`${diaSemana} ${dia} de ${mes} ${año}`)
-      
-      // Formato compacto para el nuevo header
-      const diasCortos = ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb']
-      const mesesCortos = ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sep', 'oct', 'nov', 'dic']
-      
-      const diaSemanaCorto = diasCortos[d.getDay()]
-      const mesCorto = mesesCortos[d.getMonth()]
-      
-      setCompactTime(`${h12}:${mm} ${ampm}`)
-      // En compacto, sólo la fecha debajo (sin hora)
-      setCompactDate(`${diaSemanaCorto} ${dia} ${mesCorto} ${año}`)
+      // Hora grande con segundos y fecha larga en el idioma elegido
+      setNowText(formatClock(d, true))
+      setDateText(formatLongDate(d))
+      // Formato compacto para el nuevo header: hora y, debajo, solo la fecha
+      setCompactTime(formatClock(d))
+      setCompactDate(formatShortDate(d))
     }
     update()
     const timer = setInterval(update, 1000)
     return () => clearInterval(timer)
-  }, [])
+  }, [formatClock, formatLongDate, formatShortDate])
 
   if (variant === 'compact') {
     return (
       <div className="flex items-center justify-center gap-2">
         <div className="flex flex-col items-center">
-          <span className="text-3xl md:text-4xl font-semibold">{mounted ? compactTime : "9:52 AM"}</span>
-          <span className="text-sm md:text-base">{mounted ? compactDate : "mié 21 may 2025"}</span>
+          <span className="text-3xl md:text-4xl font-semibold">{mounted ? compactTime : "\u00A0"}</span>
+          <span className="text-sm md:text-base">{mounted ? compactDate : "\u00A0"}</span>
         </div>
       </div>
     )
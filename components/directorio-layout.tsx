@@ -6,21 +6,30 @@ import { Button } from "@/components/ui/button"
 import { HomeIcon, ArrowLeftIcon, ChevronUpIcon } from 'lucide-react'
 import { CurrentTime } from "@/components/current-time"
 import { Footer } from "@/components/footer"
+import { OfflineBanner } from "@/components/offline-banner"
+import { LanguageToggle } from "@/components/language-toggle"
+import { AccessibilityMenu } from "@/components/accessibility-menu"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { useI18n } from "@/components/i18n-provider"
 import type { ReactNode } from "react"
 import Image from "next/image"
 import { config } from "@/lib/config"
+import { analytics } from "@/lib/analytics"
 import type { DirectorioLayoutProps } from "@/lib/types"
 
 export function DirectorioLayout({ children, showBackButton = true }: DirectorioLayoutProps) {
   const router = useRouter()
   const pathname = usePathname()
   const [showScrollTop, setShowScrollTop] = React.useState(false)
+  const { t } = useI18n()
+  const { reachMode } = useAccessibility()
 
   const handleGoBack = () => {
     router.back()
   }
 
   const handleGoHome = () => {
+    analytics.endSession("home")
     router.push("/")
   }
 
@@ -37,6 +46,13 @@ export function DirectorioLayout({ children, showBackButton = true }: Directorio
 
   return (
     <div className="relative flex flex-col min-h-screen bg-transparent text-accent2">
+      <a
+        href="#contenido"
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[60] focus:rounded-full focus:bg-primary focus:px-6 focus:py-3 focus:text-2xl focus:text-primary-foreground"
+      >
+        {t.a11y.skipToContent}
+      </a>
+
       {/* Header según la página */}
       {isHomePage ? (
         // Header original para la página de inicio
@@ -46,8 +62,8 @@ export function DirectorioLayout({ children, showBackButton = true }: Directorio
             <div className="flex items-center gap-4">
               {displayBackButton && (
                 <Button onClick={handleGoBack} className="bg-primary text-primary-foreground hover:bg-accent1 px-5 md:px-6 py-3 md:py-4 text-2xl md:text-3xl rounded-full shadow-md flex items-center gap-3">
-                  <ArrowLeftIcon className="w-6 h-6" />
-                  Volver
+                  <ArrowLeftIcon className="w-6 h-6" aria-hidden="true" />
+                  {t.common.back}
                 </Button>
               )}
               <div className="flex items-center gap-3">
@@ -66,12 +82,13 @@ export function DirectorioLayout({ children, showBackButton = true }: Directorio
               <CurrentTime />
             </div>
             
-            {/* Botón de inicio */}
+            {/* Idioma y botón de inicio */}
             <div className="flex items-center gap-2">
+              <LanguageToggle variant="light" />
               {pathname !== "/" && (
                 <Button onClick={handleGoHome} className="bg-primary text-primary-foreground hover:bg-accent1 px-5 md:px-6 py-3 md:py-4 text-2xl md:text-3xl rounded-full shadow-md flex items-center gap-3">
-                  <HomeIcon className="w-6 h-6" />
-                  Inicio
+                  <HomeIcon className="w-6 h-6" aria-hidden="true" />
+                  {t.common.home}
                 </Button>
               )}
             </div>
@@ -83,7 +100,7 @@ export function DirectorioLayout({ children, showBackButton = true }: Directorio
           <header className="sticky top-0 z-40 w-full bg-[#7F0C43] text-white rounded-b-2xl shadow-lg">
             <div className="mx-auto w-full max-w-6xl px-4 md:px-8 lg:px-12 h-24 flex items-center justify-between gap-3">
               {/* Logo y nombre del hospital */}
-              <div className="flex items-center gap-3 cursor-pointer" onClick={handleGoHome}>
+              <button type="button" className="flex items-center gap-3 cursor-pointer" onClick={handleGoHome} aria-label={t.common.home}>
                 <Image
                   src={config.images.hvqLogo}
                   alt="Hospital Vozandes Quito"
@@ -91,63 +108,79 @@ export function DirectorioLayout({ children, showBackButton = true }: Directorio
                   height={200}
                   className="w-15 h-15"
                 />
-              </div>
+              </button>
               
               {/* Hora y fecha centrada (sin duplicar la hora en la segunda línea) */}
               <div className="flex items-center justify-center gap-2">
                 <CurrentTime variant="compact" />
               </div>
               
-              {/* Mensaje de bienvenida (sin icono) */}
-              <div className="flex items-center gap-2">
+              {/* Mensaje de bienvenida (sin icono) y selector de idioma */}
+              <div className="flex items-center gap-4">
                 <div className="flex flex-col">
-                  <span className="text-xl md:text-2xl font-semibold">Bienvenido</span>
+                  <span className="text-xl md:text-2xl font-semibold">{t.common.welcome}</span>
                 </div>
+                <LanguageToggle />
               </div>
             </div>
           </header>
         </>
       )}
 
-      {/* Barra fija de navegación bajo el header (oculta solo en inicio) */}
-      <div className={`sticky ${isHomePage ? 'top-32' : 'top-24'} z-40 w-full bg-background/90 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b ${isHomePage ? 'hidden' : ''}`}>
+      {/* Barra fija de navegación bajo el header (oculta solo en inicio).
+          Con "bajar contenido" se fija en la parte baja de la pantalla, sobre el footer. */}
+      <nav
+        aria-label={t.a11y.navigation}
+        className={`${reachMode ? 'fixed bottom-12 inset-x-0 border-t' : `sticky ${isHomePage ? 'top-32' : 'top-24'} border-b`} z-40 w-full bg-background/90 backdrop-blur supports-[backdrop-filter]:bg-background/80 ${isHomePage ? 'hidden' : ''}`}
+      >
         <div className="mx-auto w-full max-w-6xl px-4 md:px-8 lg:px-12 h-16 flex items-center justify-between gap-3">
           <div className="flex items-center gap-2">
             {displayBackButton && (
               <Button onClick={handleGoBack} className="bg-primary text-primary-foreground hover:bg-accent1 px-5 md:px-6 py-3 md:py-4 text-2xl md:text-3xl rounded-full shadow-md flex items-center gap-3">
-                <ArrowLeftIcon className="w-6 h-6" />
-                Volver
+                <ArrowLeftIcon className="w-6 h-6" aria-hidden="true" />
+                {t.common.back}
               </Button>
             )}
           </div>
           <div className="flex items-center gap-2">
             {pathname !== "/" && (
               <Button onClick={handleGoHome} className="bg-primary text-primary-foreground hover:bg-accent1 px-5 md:px-6 py-3 md:py-4 text-2xl md:text-3xl rounded-full shadow-md flex items-center gap-3">
-                <HomeIcon className="w-6 h-6" />
-                Inicio
+                <HomeIcon className="w-6 h-6" aria-hidden="true" />
+                {t.common.home}
               </Button>
             )}
           </div>
         </div>
-      </div>
+      </nav>
 
-      <main className="flex-1 flex flex-col items-center w-full max-w-6xl mx-auto px-4 md:px-8 lg:px-12 py-8 bg-transparent">
+      {/* Aviso de modo offline (datos del último snapshot) */}
+      <OfflineBanner />
+
+      <main
+        id="contenido"
+        tabIndex={-1}
+        className={`flex-1 flex flex-col items-center w-full max-w-6xl mx-auto px-4 md:px-8 lg:px-12 py-8 bg-transparent focus:outline-none ${reachMode ? 'pb-40' : ''}`}
+      >
+        {/* "Bajar contenido": espacio vacío arriba para que los controles queden a media altura */}
+        {reachMode && <div className="h-[35vh] shrink-0" aria-hidden="true" />}
         {children}
       </main>
 
       {/* Botón flotante Volver Arriba (centrado abajo sobre el footer) */}
       {showScrollTop && (
-        <div className="fixed bottom-12 inset-x-0 flex justify-center z-50">
+        <div className={`fixed ${reachMode ? 'bottom-32' : 'bottom-12'} inset-x-0 flex justify-center z-50`}>
           <Button
             onClick={() => window.scrollTo({ top: 0, behavior: 'smooth' })}
-            aria-label="Volver Arriba"
+            aria-label={t.common.scrollTop}
             className="bg-primary text-primary-foreground hover:bg-accent1 p-12 rounded-full shadow-2xl"
           >
-            <ChevronUpIcon className="w-40 h-40" />
+            <ChevronUpIcon className="w-40 h-40" aria-hidden="true" />
           </Button>
         </div>
       )}
 
+      <AccessibilityMenu />
+
       <Footer />
     </div>
   )
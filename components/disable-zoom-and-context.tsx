@@ -1,9 +1,17 @@
 "use client"
 
 import { useEffect } from 'react'
+import { usePathname } from 'next/navigation'
+import { config } from '@/lib/config'
 
 export default function DisableZoomAndContext() {
+  const pathname = usePathname()
+  // La página móvil del QR se abre en el teléfono del paciente: ahí no se bloquea nada
+  const isHandoffPage = pathname === config.handoff.path || pathname.startsWith(`${config.handoff.path}/`)
+
   useEffect(() => {
+    if (isHandoffPage) return
+
     const preventDefault = (event: Event) => {
       event.preventDefault()
     }
@@ -137,7 +145,7 @@ export default function DisableZoomAndContext() {
         style.parentNode.removeChild(style)
       }
     }
-  }, [])
+  }, [isHandoffPage])
 
   return null
 }
\ No newline at end of file
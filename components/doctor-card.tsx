@@ -3,6 +3,9 @@ import { Card, CardContent, CardTitle } from "@/components/ui/card"
 import { UserRoundIcon as UserRoundMedical, Loader2 as Loader2Icon } from 'lucide-react'
 import { memo, useEffect, useRef, useState } from "react"
 import { Skeleton } from "@/components/ui/skeleton"
+import { useI18n } from "@/components/i18n-provider"
+import { HighlightText } from "@/components/highlight-text"
+import type { TextRange } from "@/lib/types"
 import "@/styles/doctores.css"
 
 interface DoctorCardProps {
@@ -17,15 +20,21 @@ interface DoctorCardProps {
   className?: string
   variant?: 'default' | 'compact'
   queryParams?: Record<string, string>
+  // Tramos a resaltar en el nombre y en cada especialidad (por id) al venir de una búsqueda
+  highlights?: {
+    name: TextRange[]
+    specialties: Record<string, TextRange[]>
+  }
 }
 
-export const DoctorCard = memo(function DoctorCard({ doctor, specialtyName, basePath, className, variant = 'default', queryParams }: DoctorCardProps) {
+export const DoctorCard = memo(function DoctorCard({ doctor, specialtyName, basePath, className, variant = 'default', queryParams, highlights }: DoctorCardProps) {
   const [hasImageError, setHasImageError] = useState(false)
   const [isImageLoading, setIsImageLoading] = useState(Boolean(doctor.photo))
   const [showIconFallback, setShowIconFallback] = useState(false)
   const [isInView, setIsInView] = useState(false)
   const [imgSrc, setImgSrc] = useState<string | null>(null)
   const cardRef = useRef<HTMLDivElement | null>(null)
+  const { t } = useI18n()
 
   // IntersectionObserver: solo activar carga de imagen cuando el card esté visible
   useEffect(() => {
@@ -119,14 +128,14 @@ export const DoctorCard = memo(function DoctorCard({ doctor, specialtyName, base
                 <>
                   <Skeleton className="doctor-card-skeleton" />
                   <div className="absolute inset-0 flex items-center justify-center">
-                    <Loader2Icon className="w-4 h-4 text-primary animate-spin" aria-label="Cargando" />
+                    <Loader2Icon className="w-4 h-4 text-primary animate-spin" aria-label={t.common.loading} />
                   </div>
                 </>
               )}
               {/* eslint-disable-next-line @next/next/no-img-element */}
               <img
                 src={imgSrc as string}
-                alt={`Foto de ${doctor.name}`}
+                alt={t.doctor.cardPhotoAlt(doctor.name)}
                 width={80}
                 height={80}
                 loading="lazy"
@@ -163,7 +172,7 @@ export const DoctorCard = memo(function DoctorCard({ doctor, specialtyName, base
           )}
           <div className="w-full">
             <CardTitle className={`doctor-card-name ${nameSize} text-center leading-tight mb-2 line-clamp-2`}>
-              {doctor.name}
+              <HighlightText text={doctor.name} ranges={highlights?.name} />
             </CardTitle>
             {!isCompact && (
               <div className={`doctor-card-specialty ${specialtySize} text-accent2 group-hover:text-primary-foreground text-center leading-tight`}>
@@ -171,13 +180,18 @@ export const DoctorCard = memo(function DoctorCard({ doctor, specialtyName, base
                   <div className="space-y-1">
                     {doctor.especialidades.map((esp, index) => (
                       <p key={esp.id} className="line-clamp-1">
-                        {esp.label}
+                        <HighlightText text={esp.label} ranges={highlights?.specialties[esp.id]} />
                       </p>
                     ))}
                   </div>
                 ) : (
                   <p className="line-clamp-2">
-                    {specialtyName}
+                    {highlights && doctor.especialidades?.length === 1 ? (
+                      <HighlightText
+                        text={doctor.especialidades[0].label}
+                        ranges={highlights.specialties[doctor.especialidades[0].id]}
+                      />
+                    ) : specialtyName}
                   </p>
                 )}
               </div>
@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import QRCode from "qrcode"
+import { SmartphoneIcon } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { config } from "@/lib/config"
+
+// Código QR (generado en el navegador, sin servicios externos) hacia la página móvil del médico.
+// path es relativo a config.handoff.path: "/<especialidad>/<médico>?..."
+export function HandoffQr({ path, doctorName }: { path: string; doctorName: string }) {
+  const { locale, t } = useI18n()
+  const [dataUrl, setDataUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const base = config.handoff.publicUrl || window.location.origin
+    const url = new URL(`${config.handoff.path}${path}`, base)
+    // El teléfono abre la página en el idioma que el paciente usaba en el kiosco
+    if (locale !== "es") url.searchParams.set("lang", locale)
+
+    let cancelled = false
+    QRCode.toDataURL(url.toString(), { errorCorrectionLevel: "M", margin: 1, width: 360, color: { dark: "#400913", light: "#FFFFFF" } })
+      .then((result) => { if (!cancelled) setDataUrl(result) })
+      .catch((error) => {
+        console.warn("[qr] No se pudo generar el código:", error)
+        if (!cancelled) setDataUrl(null)
+      })
+    return () => { cancelled = true }
+  }, [path, locale])
+
+  if (!dataUrl) return null
+
+  return (
+    <div className="flex items-center gap-6 rounded-2xl border-2 border-primary/30 bg-white p-5 shadow-md">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={dataUrl} alt={t.handoff.qrAlt(doctorName)} width={180} height={180} className="w-44 h-44" draggable={false} />
+      <div className="flex flex-col gap-2 max-w-xs">
+        <p className="flex items-center gap-2 text-2xl font-bold text-primary">
+          <SmartphoneIcon className="w-7 h-7" aria-hidden="true" />
+          {t.handoff.qrTitle}
+        </p>
+        <p className="text-lg text-accent2">{t.handoff.qrHint}</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { Fragment, type ReactNode } from "react"
+import type { TextRange } from "@/lib/types"
+
+// Texto con los tramos coincidentes de la búsqueda resaltados en <mark>
+export function HighlightText({ text, ranges }: { text: string; ranges?: TextRange[] }) {
+  if (!ranges || ranges.length === 0) return <>{text}</>
+
+  // Ordenar y unir tramos superpuestos
+  const merged: TextRange[] = []
+  ;[...ranges].sort((a, b) => a.start - b.start).forEach((range) => {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end)
+    else merged.push({ ...range })
+  })
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  merged.forEach((range, i) => {
+    if (range.start > cursor) parts.push(<Fragment key={`t${i}`}>{text.slice(cursor, range.start)}</Fragment>)
+    parts.push(
+      <mark key={`m${i}`} className="search-highlight">
+        {text.slice(range.start, range.end)}
+      </mark>
+    )
+    cursor = range.end
+  })
+  if (cursor < text.length) parts.push(<Fragment key="rest">{text.slice(cursor)}</Fragment>)
+  return <>{parts}</>
+}
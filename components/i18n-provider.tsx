@@ -0,0 +1,67 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import { KIOSK_IDLE_EVENT } from "@/lib/constants"
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  formatClock,
+  formatDateTime,
+  formatLongDate,
+  formatShortDate,
+  formatSpokenTime,
+  messages,
+  type Messages,
+} from "@/lib/i18n"
+import type { Locale } from "@/lib/types"
+
+interface I18nContextValue {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: Messages
+  formatClock: (date: Date, withSeconds?: boolean) => string
+  formatLongDate: (date: Date) => string
+  formatShortDate: (date: Date) => string
+  formatDateTime: (date: Date) => string
+  formatSpokenTime: (hhmm: string) => string
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+// Idioma elegido por el paciente; vuelve a español cuando IdleRedirect detecta inactividad
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE)
+
+  const setLocale = useCallback((next: Locale) => {
+    if (LOCALES[next]) setLocaleState(next)
+  }, [])
+
+  useEffect(() => {
+    const reset = () => setLocaleState(DEFAULT_LOCALE)
+    window.addEventListener(KIOSK_IDLE_EVENT, reset)
+    return () => window.removeEventListener(KIOSK_IDLE_EVENT, reset)
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: messages[locale],
+    formatClock: (date, withSeconds) => formatClock(date, locale, withSeconds),
+    formatLongDate: (date) => formatLongDate(date, locale),
+    formatShortDate: (date) => formatShortDate(date, locale),
+    formatDateTime: (date) => formatDateTime(date, locale),
+    formatSpokenTime: (hhmm) => formatSpokenTime(hhmm, locale),
+  }), [locale, setLocale])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext)
+  if (!context) throw new Error("useI18n debe usarse dentro de I18nProvider")
+  return context
+}
@@ -2,27 +2,37 @@
 
 import { useEffect, useRef } from "react"
 import { usePathname, useRouter } from "next/navigation"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { KIOSK_IDLE_EVENT } from "@/lib/constants"
 
 interface IdleRedirectProps {
-  timeoutMs?: number
+  timeoutMs?: number // por defecto, el del perfil del kiosco
   homePath?: string
+  excludePaths?: readonly string[]
   children: React.ReactNode
 }
 
-export function IdleRedirect({ timeoutMs = 15000, homePath = "/", children }: IdleRedirectProps) {
+export function IdleRedirect({ timeoutMs, homePath = "/", excludePaths = [], children }: IdleRedirectProps) {
+  const { idleTimeout } = useKioskProfile()
+  const delay = timeoutMs ?? idleTimeout
   const router = useRouter()
   const pathname = usePathname()
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   useEffect(() => {
+    // Pantallas desatendidas (p. ej. tablero del lobby): sin temporizador
+    if (excludePaths.some((path) => pathname === path || pathname.startsWith(`${path}/`))) return
+
     const resetTimer = () => {
       if (timerRef.current) clearTimeout(timerRef.current)
       timerRef.current = setTimeout(() => {
+        // Avisar a quien deba volver al estado inicial (idioma, etc.)
+        window.dispatchEvent(new Event(KIOSK_IDLE_EVENT))
         // Evitar redirigir si ya estamos en inicio
         if (pathname !== homePath) {
           router.push(homePath)
         }
-      }, timeoutMs)
+      }, delay)
     }
 
     const events: Array<keyof WindowEventMap> = [
@@ -41,7 +51,7 @@ export function IdleRedirect({ timeoutMs = 15000, homePath = "/", children }: Id
       if (timerRef.current) clearTimeout(timerRef.current)
       events.forEach((ev) => window.removeEventListener(ev, resetTimer))
     }
-  }, [pathname, router, timeoutMs, homePath])
+  }, [pathname, router, delay, homePath, excludePaths])
 
   return <>{children}</>
 }
@@ -2,17 +2,157 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { MapPinIcon, LocateFixedIcon, Volume2, VolumeX } from 'lucide-react' // Importar iconos de ubicación y volumen
-import { useState, useRef } from "react"
+import { useState, useRef, useMemo } from "react"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { useI18n } from "@/components/i18n-provider"
+import { useFloorPlans } from "@/hooks/use-floor-plans"
+import { locateConsultorio, planRoute, resolveKioskLocation, type RouteLeg } from "@/lib/wayfinding"
+import type { KioskLocation } from "@/lib/types"
 
 interface InteractiveMapProps {
   consultorio: string
   building: string // Cambiado de 'tower' a 'building'
   floor?: string // Añadimos la propiedad de piso
+  // Códigos del catálogo para ubicar el consultorio en los planos
+  consultorioCodigo?: string
+  buildingCode?: string
+  pisoCodigo?: string
 }
 
-export function InteractiveMap({ consultorio, building, floor }: InteractiveMapProps) {
+// Plano SVG de un piso con el consultorio destino resaltado, el ascensor y el recorrido
+function FloorPlanView({ leg, kiosk, targetCodigo }: { leg: RouteLeg; kiosk: KioskLocation | null; targetCodigo: string }) {
+  const { floor } = leg
+  const { t } = useI18n()
+  const [selected, setSelected] = useState<string | null>(null)
+  const nodeById = (id: string) => floor.nodos.find((n) => n.id === id)
+  const elevator = nodeById(floor.ascensor)
+  const kioskNode = leg.startsAtKiosk && kiosk ? nodeById(kiosk.nodo) : undefined
+  const selectedHotspot = floor.consultorios.find((c) => c.codigo === selected)
+  const unit = Math.max(floor.width, floor.height) / 100
+
+  return (
+    <svg
+      viewBox={`0 0 ${floor.width} ${floor.height}`}
+      className="w-full h-auto bg-[#F9F4F6] rounded-lg border-2 border-primary"
+      role="group"
+      aria-label={t.map.planLabel(floor.nombre || t.map.floor(floor.piso))}
+    >
+      {floor.fondo && <image href={floor.fondo} x={0} y={0} width={floor.width} height={floor.height} />}
+
+      {/* Consultorios (tocar uno muestra su nombre) */}
+      {floor.consultorios.map((c) => {
+        const isTarget = leg.endsAtTarget && c.codigo === targetCodigo
+        const toggle = () => setSelected(c.codigo === selected ? null : c.codigo)
+        return (
+          <g
+            key={c.codigo}
+            role="button"
+            tabIndex={0}
+            aria-label={`${t.map.room} ${c.nombre || c.codigo}`}
+            aria-pressed={c.codigo === selected}
+            aria-current={isTarget ? "location" : undefined}
+            onClick={toggle}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault()
+                toggle()
+              }
+            }}
+            className="cursor-pointer"
+          >
+            <rect
+              x={c.x}
+              y={c.y}
+              width={c.width}
+              height={c.height}
+              rx={unit}
+              fill={isTarget ? "#7F0C43" : "#FFFFFF"}
+              stroke="#7F0C43"
+              strokeWidth={unit / 3}
+              className={isTarget ? "animate-pulse" : undefined}
+            />
+            <text
+              x={c.x + c.width / 2}
+              y={c.y + c.height / 2}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fontSize={unit * 2.2}
+              fontWeight={isTarget ? 700 : 400}
+              fill={isTarget ? "#FFFFFF" : "#333333"}
+            >
+              {c.codigo}
+            </text>
+          </g>
+        )
+      })}
+
+      {/* Recorrido */}
+      {leg.route.length > 1 && (
+        <polyline
+          points={leg.route.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke="#C84D80"
+          strokeWidth={unit * 0.8}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeDasharray={`${unit * 2} ${unit * 1.5}`}
+        >
+          <animate attributeName="stroke-dashoffset" from={unit * 7} to="0" dur="1s" repeatCount="indefinite" />
+        </polyline>
+      )}
+
+      {/* Ascensor */}
+      {elevator && (
+        <g aria-hidden="true">
+          <rect x={elevator.x - unit * 2} y={elevator.y - unit * 2} width={unit * 4} height={unit * 4} rx={unit / 2} fill="#333333" />
+          <text x={elevator.x} y={elevator.y - unit * 3} textAnchor="middle" fontSize={unit * 2.2} fontWeight={700} fill="#333333">
+            {t.map.elevator}
+          </text>
+        </g>
+      )}
+
+      {/* Usted está aquí */}
+      {kioskNode && (
+        <g role="img" aria-label={t.map.youAreHere}>
+          <circle cx={kioskNode.x} cy={kioskNode.y} r={unit * 2} fill="#2563EB" stroke="#FFFFFF" strokeWidth={unit / 2} />
+          <text x={kioskNode.x} y={kioskNode.y + unit * 4.5} textAnchor="middle" fontSize={unit * 2.2} fontWeight={700} fill="#2563EB">
+            {t.map.youAreHere}
+          </text>
+        </g>
+      )}
+
+      {/* Nombre del consultorio tocado */}
+      {selectedHotspot && (
+        <text
+          x={selectedHotspot.x + selectedHotspot.width / 2}
+          y={selectedHotspot.y - unit}
+          textAnchor="middle"
+          fontSize={unit * 2.4}
+          fontWeight={700}
+          fill="#7F0C43"
+        >
+          {selectedHotspot.nombre || selectedHotspot.codigo}
+        </text>
+      )}
+    </svg>
+  )
+}
+
+export function InteractiveMap({ consultorio, building, floor, consultorioCodigo, buildingCode, pisoCodigo }: InteractiveMapProps) {
   const [isMuted, setIsMuted] = useState(false)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const { plans } = useFloorPlans()
+  const { ubicacion, videoMapa } = useKioskProfile()
+  const { t } = useI18n()
+
+  // Tramos de la ruta desde el kiosco; null si el consultorio no está en los planos
+  const wayfinding = useMemo(() => {
+    if (!plans) return null
+    const target = locateConsultorio(plans, { consultorioCodigo, buildingCode, pisoCodigo })
+    if (!target) return null
+    const kiosk = resolveKioskLocation(plans, ubicacion)
+    return { target, kiosk, legs: planRoute(plans, target, kiosk) }
+  }, [plans, ubicacion, consultorioCodigo, buildingCode, pisoCodigo])
 
   const toggleMute = () => {
     if (videoRef.current) {
@@ -22,19 +162,50 @@ export function InteractiveMap({ consultorio, building, floor }: InteractiveMapP
     }
   }
 
-  // Mapeo conceptual de edificios a posiciones en el mapa (ejemplo simplificado)
-  // const buildingPositions: { [key: string]: { top: string; left: string } } = {
-  //   "kkkk": { top: "30%", left: "25%" },
-  //   "Bless": { top: "60%", left: "70%" },
-  //   // Añade más edificios y posiciones si es necesario
-  // }
-
-  // const doctorLocation = buildingPositions[building] || { top: "50%", left: "50%" } // Posición por defecto si no se encuentra el edificio
+  if (wayfinding) {
+    const { target, kiosk, legs } = wayfinding
+    const floorName = target.floor.nombre || floor || t.map.floor(target.floor.piso)
+    const otherBuilding = !kiosk || kiosk.buildingCode !== target.building.buildingCode
+    return (
+      <Card className="w-full bg-white text-accent2 rounded-xl shadow-2xl p-6 mt-8">
+        <CardHeader className="p-0 pb-4">
+          <CardTitle className="text-3xl font-bold text-primary text-center">{t.map.howToGet}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 flex flex-col gap-6">
+          <p className="text-2xl text-center">
+            <MapPinIcon className="inline w-7 h-7 mr-2 text-primary" aria-hidden="true" />
+            {t.map.room} <span className="font-semibold">{target.hotspot.nombre || consultorio}</span>,{" "}
+            {floorName}, {target.building.nombre || building}
+          </p>
+          {otherBuilding && (
+            <p className="text-xl text-center">
+              {t.map.goTo} <span className="font-semibold">{target.building.nombre || building}</span>{" "}
+              {t.map.takeElevator} <span className="font-semibold">{floorName}</span>.
+            </p>
+          )}
+          {legs.map((leg, i) => (
+            <div key={`${leg.floor.piso}-${i}`} className="flex flex-col gap-2">
+              {legs.length > 1 && (
+                <p className="text-xl font-semibold flex items-center gap-2">
+                  <LocateFixedIcon className="w-6 h-6 text-primary" aria-hidden="true" />
+                  {i + 1}. {leg.endsAtTarget
+                    ? t.map.fromElevator(leg.floor.nombre || t.map.floor(leg.floor.piso))
+                    : t.map.toElevator(leg.floor.nombre || t.map.floor(leg.floor.piso))}
+                </p>
+              )}
+              <FloorPlanView leg={leg} kiosk={kiosk} targetCodigo={target.hotspot.codigo} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    )
+  }
 
+  // Sin plano para este consultorio: video institucional y ubicación en texto
   return (
     <Card className="w-full bg-white text-accent2 rounded-xl shadow-2xl p-6 mt-8">
       <CardHeader className="p-0 pb-4">
-        <CardTitle className="text-3xl font-bold text-primary text-center">Conoce el Hospital</CardTitle>
+        <CardTitle className="text-3xl font-bold text-primary text-center">{t.map.title}</CardTitle>
       </CardHeader>
       <CardContent className="p-0 flex flex-col items-center justify-center">
         <div className="relative w-full h-64 md:h-96 bg-black rounded-lg overflow-hidden flex items-center justify-center border-2 border-primary">
@@ -43,8 +214,8 @@ export function InteractiveMap({ consultorio, building, floor }: InteractiveMapP
             <video
               ref={videoRef}
               className="absolute left-1/2 top-1/2 w-full h-full -translate-x-1/2 -translate-y-1/2 pointer-events-none object-cover"
-              src="http://prd-hvq-desarrollos:8001/videos/video_cumbre.mp4"
-              title="Mapa en video"
+              src={videoMapa}
+              title={t.map.videoTitle}
               autoPlay
               muted={isMuted}
               loop
@@ -65,7 +236,7 @@ export function InteractiveMap({ consultorio, building, floor }: InteractiveMapP
               alignItems: 'center',
               justifyContent: 'center'
             }}
-            aria-label={isMuted ? "Activar sonido" : "Silenciar"}
+            aria-label={isMuted ? t.map.unmute : t.map.mute}
           >
             {isMuted ? (
               <VolumeX className="w-7 h-7" />
@@ -74,16 +245,13 @@ export function InteractiveMap({ consultorio, building, floor }: InteractiveMapP
             )}
           </button>
         </div>
-        {/*
-        <p className="text-2xl mt-6 text-center">
-          El consultorio <span className="font-semibold">{consultorio}</span> se encuentra en el{" "}
-          <span className="font-semibold">{building}</span>.
-          {floor && <span className="block text-xl mt-1">Piso: <span className="font-semibold">{floor}</span></span>}
-        </p>
-        <p className="text-xl text-center mt-2 text-muted-foreground">
-          (Mapa conceptual del área. Para navegación interna, consulte la recepción.)
-        </p>
-        */}
+        {consultorio && (
+          <p className="text-2xl mt-6 text-center">
+            {t.map.roomIn} <span className="font-semibold">{consultorio}</span> {t.map.locatedIn}{" "}
+            <span className="font-semibold">{building}</span>.
+            {floor && <span className="block text-xl mt-1">{t.map.floorLabel} <span className="font-semibold">{floor}</span></span>}
+          </p>
+        )}
       </CardContent>
     </Card>
   )
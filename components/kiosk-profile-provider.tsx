@@ -0,0 +1,30 @@
+"use client"
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react"
+import { useCachedQuery } from "@/hooks/use-cached-query"
+import { DEFAULT_KIOSK_PROFILE, loadKioskProfiles, readKioskId, resolveKioskProfile } from "@/lib/kiosk-profile"
+import type { KioskProfile } from "@/lib/types"
+
+const KioskProfileContext = createContext<KioskProfile>(DEFAULT_KIOSK_PROFILE)
+
+// Resuelve el perfil de este kiosco y lo comparte con toda la aplicación
+export function KioskProfileProvider({ children }: { children: React.ReactNode }) {
+  // undefined hasta leer la URL/localStorage en el cliente
+  const [kioskId, setKioskId] = useState<string | null | undefined>(undefined)
+  const { data: file } = useCachedQuery("catalogs", "perfiles-kiosco", loadKioskProfiles)
+
+  useEffect(() => {
+    setKioskId(readKioskId())
+  }, [])
+
+  const profile = useMemo(
+    () => (kioskId === undefined ? DEFAULT_KIOSK_PROFILE : resolveKioskProfile(file, kioskId)),
+    [file, kioskId]
+  )
+
+  return <KioskProfileContext.Provider value={profile}>{children}</KioskProfileContext.Provider>
+}
+
+export function useKioskProfile(): KioskProfile {
+  return useContext(KioskProfileContext)
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { LOCALES } from "@/lib/i18n"
+import type { Locale } from "@/lib/types"
+
+// Selector Español / English del header ("light": sobre fondo claro, p. ej. el header de inicio)
+export function LanguageToggle({ variant = "dark" }: { variant?: "dark" | "light" }) {
+  const { locale, setLocale, t } = useI18n()
+  const light = variant === "light"
+
+  return (
+    <div
+      role="group"
+      aria-label={t.common.language}
+      className={`inline-flex rounded-full border-2 p-1 ${light ? "border-primary/40 bg-secondary" : "border-white/60 bg-black/10"}`}
+    >
+      {(Object.keys(LOCALES) as Locale[]).map((code) => {
+        const active = code === locale
+        return (
+          <button
+            key={code}
+            type="button"
+            lang={code}
+            aria-pressed={active}
+            onClick={() => setLocale(code)}
+            className={`min-w-16 px-4 py-2 rounded-full text-xl font-bold transition-colors ${
+              active
+                ? (light ? "bg-primary text-primary-foreground" : "bg-white text-[#7F0C43]")
+                : (light ? "text-primary hover:bg-primary/10" : "text-white hover:bg-white/20")
+            }`}
+          >
+            {LOCALES[code].label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
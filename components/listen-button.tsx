@@ -0,0 +1,73 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Volume2Icon, SquareIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/i18n-provider"
+import { KIOSK_IDLE_EVENT } from "@/lib/constants"
+import { LOCALES } from "@/lib/i18n"
+
+// Botón "Escuchar": lee el texto con la Web Speech API en el idioma activo.
+// Se calla al cambiar el texto, al salir de la página y cuando IdleRedirect detecta inactividad.
+export function ListenButton({ text, className }: { text: string; className?: string }) {
+  const { locale, t } = useI18n()
+  const [supported, setSupported] = useState(false)
+  const [speaking, setSpeaking] = useState(false)
+
+  useEffect(() => {
+    setSupported(typeof window !== "undefined" && "speechSynthesis" in window)
+  }, [])
+
+  useEffect(() => {
+    if (!supported) return
+    const stop = () => {
+      window.speechSynthesis.cancel()
+      setSpeaking(false)
+    }
+    window.addEventListener(KIOSK_IDLE_EVENT, stop)
+    window.addEventListener("pagehide", stop)
+    return () => {
+      window.removeEventListener(KIOSK_IDLE_EVENT, stop)
+      window.removeEventListener("pagehide", stop)
+      stop()
+    }
+  }, [supported, text, locale])
+
+  if (!supported || !text) return null
+
+  const speak = () => {
+    const synth = window.speechSynthesis
+    synth.cancel()
+    const utterance = new SpeechSynthesisUtterance(text)
+    const lang = LOCALES[locale].intl
+    utterance.lang = lang
+    // Preferir una voz del mismo país; si no, cualquiera del idioma
+    const voices = synth.getVoices()
+    utterance.voice =
+      voices.find((v) => v.lang === lang) ??
+      voices.find((v) => v.lang.toLowerCase().startsWith(locale)) ??
+      null
+    utterance.rate = 0.95
+    utterance.onend = () => setSpeaking(false)
+    utterance.onerror = () => setSpeaking(false)
+    setSpeaking(true)
+    synth.speak(utterance)
+  }
+
+  const stop = () => {
+    window.speechSynthesis.cancel()
+    setSpeaking(false)
+  }
+
+  return (
+    <Button
+      type="button"
+      onClick={speaking ? stop : speak}
+      aria-pressed={speaking}
+      className={`bg-primary text-primary-foreground hover:bg-accent1 px-6 py-4 text-2xl rounded-full shadow-md flex items-center gap-3 ${className || ""}`}
+    >
+      {speaking ? <SquareIcon className="w-6 h-6" aria-hidden="true" /> : <Volume2Icon className="w-6 h-6" aria-hidden="true" />}
+      {speaking ? t.speech.stop : t.speech.listen}
+    </Button>
+  )
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { useEffect, useSyncExternalStore } from "react"
+import { WifiOffIcon } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { getSnapshotUsage, resetSnapshotUsage, subscribeSnapshotUsage } from "@/lib/offline-store"
+
+// Aviso visible cuando la vista actual muestra datos del snapshot offline
+export function OfflineBanner() {
+  const snapshotAt = useSyncExternalStore(subscribeSnapshotUsage, getSnapshotUsage, () => null)
+  const { t, formatDateTime } = useI18n()
+
+  // Cada página nueva empieza sin aviso; se activa si alguna respuesta viene del snapshot
+  useEffect(() => {
+    resetSnapshotUsage()
+  }, [])
+
+  if (snapshotAt == null) return null
+
+  return (
+    <div
+      role="status"
+      className="w-full bg-amber-100 text-amber-900 border-b border-amber-300 px-4 py-3 flex items-center justify-center gap-3 text-xl font-semibold"
+    >
+      <WifiOffIcon className="w-6 h-6" aria-hidden="true" />
+      <span>{t.offline.banner(formatDateTime(new Date(snapshotAt)))}</span>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createPortal } from "react-dom"
+import { PrinterIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/i18n-provider"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+import { sendToPrintBridge, ticketToText } from "@/lib/print-ticket"
+import type { PrintTicketData } from "@/lib/types"
+
+// Ticket para rollo térmico de 80 mm. Solo se ve al imprimir (estilos "print-ticket" en app/globals.css)
+export function PrintTicket({ ticket, printedAt }: { ticket: PrintTicketData; printedAt: Date }) {
+  const { t, formatDateTime } = useI18n()
+
+  return (
+    <div className="print-ticket">
+      <p className="print-ticket-header">{t.handoff.hospital}</p>
+      <hr />
+      <h1>{ticket.title}</h1>
+      {ticket.subtitle && <p className="print-ticket-subtitle">{ticket.subtitle}</p>}
+      {ticket.sections.map((section, i) => (
+        <section key={i}>
+          <hr />
+          {section.heading && <h2>{section.heading}</h2>}
+          {section.lines.map((line, j) => <p key={j}>{line}</p>)}
+        </section>
+      ))}
+      {ticket.hint && (
+        <>
+          <hr />
+          <p className="print-ticket-hint">{ticket.hint}</p>
+        </>
+      )}
+      <hr />
+      <p className="print-ticket-footer">{t.print.printedAt(formatDateTime(printedAt))}</p>
+    </div>
+  )
+}
+
+type PrintStatus = "idle" | "printing" | "done" | "failed"
+
+// Botón de impresión: solo aparece en kioscos con impresora en su perfil. Con puente, envía el
+// ticket por HTTP; sin puente, lo imprime el navegador con el estilo de ticket.
+export function PrintTicketButton({ ticket, label, className }: { ticket: PrintTicketData | null; label?: string; className?: string }) {
+  const { impresora } = useKioskProfile()
+  const { t, formatDateTime } = useI18n()
+  const [status, setStatus] = useState<PrintStatus>("idle")
+  const [browserJob, setBrowserJob] = useState<Date | null>(null)
+
+  // Impresión por navegador: el ticket se monta en <body>, se imprime y se desmonta
+  useEffect(() => {
+    if (!browserJob) return
+    const timer = setTimeout(() => {
+      window.print()
+      setBrowserJob(null)
+      setStatus("done")
+    }, 50)
+    return () => clearTimeout(timer)
+  }, [browserJob])
+
+  // El aviso "Retire su ticket" desaparece solo
+  useEffect(() => {
+    if (status !== "done" && status !== "failed") return
+    const timer = setTimeout(() => setStatus("idle"), 5000)
+    return () => clearTimeout(timer)
+  }, [status])
+
+  if (!impresora || !ticket) return null
+
+  const handlePrint = async () => {
+    const printedAt = new Date()
+    setStatus("printing")
+    if (!impresora.puente) {
+      setBrowserJob(printedAt)
+      return
+    }
+    const text = ticketToText(ticket, t.handoff.hospital, t.print.printedAt(formatDateTime(printedAt)))
+    const result = await sendToPrintBridge(impresora.puente, ticket, text)
+    if (!result.success) console.warn("[impresion] Puente de impresión:", result.message)
+    setStatus(result.success ? "done" : "failed")
+  }
+
+  return (
+    <div className={`flex flex-col items-center gap-2 ${className || ""}`}>
+      <Button
+        type="button"
+        onClick={handlePrint}
+        disabled={status === "printing"}
+        className="bg-primary text-primary-foreground hover:bg-accent1 px-6 py-4 text-2xl rounded-full shadow-md flex items-center gap-3"
+      >
+        <PrinterIcon className="w-6 h-6" aria-hidden="true" />
+        {status === "printing" ? t.print.printing : label ?? t.print.directions}
+      </Button>
+      <p role="status" className="text-xl font-semibold text-primary min-h-[1.75rem]">
+        {status === "done" ? t.print.done : status === "failed" ? t.print.failed : ""}
+      </p>
+      {browserJob && createPortal(
+        <div className="print-ticket-root">
+          <PrintTicket ticket={ticket} printedAt={browserJob} />
+        </div>,
+        document.body
+      )}
+    </div>
+  )
+}
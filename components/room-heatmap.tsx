@@ -0,0 +1,101 @@
+"use client"
+
+import { DAYS_OF_WEEK } from "@/lib/constants"
+import { WEEK_DAYS } from "@/lib/doctor-schedule"
+import type { BuildingUtilization, RoomUtilizationRow } from "@/lib/types"
+
+export const dayLabel = (day: string) => DAYS_OF_WEEK[WEEK_DAYS.indexOf(day)] ?? day
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10} h`
+
+// Color de una celda según la fracción ocupada (0 a 1)
+const cellColor = (fraction: number) =>
+  fraction <= 0 ? "#F3F4F6" : `rgba(127, 12, 67, ${(0.15 + 0.85 * Math.min(fraction, 1)).toFixed(2)})`
+
+// Mapa de calor de un edificio: consultorios como filas agrupados por piso. Con day = null las
+// columnas son los días (horas del día sobre la jornada); con un día, las franjas de una hora.
+// Solo se usa en /admin/ocupacion: como todo /admin, sus textos van en español y no pasan por useI18n.
+export function RoomHeatmap({
+  building,
+  days,
+  startHour,
+  endHour,
+  day,
+}: {
+  building: BuildingUtilization
+  days: string[]
+  startHour: number
+  endHour: number
+  day: string | null
+}) {
+  const bands = Array.from({ length: endHour - startHour }, (_, i) => startHour + i)
+  const columns = day
+    ? bands.map((hour) => ({ key: String(hour), label: `${hour}h`, title: `${hour}:00 - ${hour + 1}:00` }))
+    : days.map((d) => ({ key: d, label: dayLabel(d).slice(0, 3), title: dayLabel(d) }))
+
+  const cells = (row: RoomUtilizationRow) =>
+    day
+      ? bands.map((_, band) => {
+          const minutos = row.minutos[day]?.[band] ?? 0
+          return { fraction: minutos / 60, text: `${minutos} min` }
+        })
+      : days.map((d) => ({ fraction: row.horasPorDia[d] / bands.length, text: formatHours(row.horasPorDia[d]) }))
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex items-center gap-3 text-sm text-muted-foreground" aria-hidden="true">
+        <span>Sin agenda</span>
+        {[0, 0.25, 0.5, 0.75, 1].map((fraction) => (
+          <span key={fraction} className="h-4 w-8 rounded" style={{ background: cellColor(fraction) }} />
+        ))}
+        <span>{day ? "Franja completa" : "Jornada completa"}</span>
+      </div>
+
+      {building.floors.map((floor) => (
+        <section key={floor.pisoCodigo || floor.piso} aria-label={floor.piso}>
+          <h3 className="mb-2 text-lg font-bold text-primary">{floor.piso}</h3>
+          <div className="overflow-x-auto">
+            <table className="border-separate border-spacing-1 text-sm">
+              <thead>
+                <tr>
+                  <th scope="col" className="text-left font-medium">Consultorio</th>
+                  {columns.map((column) => (
+                    <th key={column.key} scope="col" title={column.title} className="min-w-10 text-center font-medium capitalize">
+                      {column.label}
+                    </th>
+                  ))}
+                  <th scope="col" className="pl-2 text-right font-medium">Semana</th>
+                </tr>
+              </thead>
+              <tbody>
+                {floor.rooms.map((row) => (
+                  <tr key={row.consultorioCodigo}>
+                    <th scope="row" className="whitespace-nowrap pr-3 text-left font-normal">
+                      {row.consultorio}
+                      {row.totalHoras === 0 && (
+                        <span className="ml-2 rounded bg-[#FFFBEB] px-1.5 py-0.5 text-xs font-semibold text-[#B45309]">
+                          Sin agenda
+                        </span>
+                      )}
+                    </th>
+                    {cells(row).map((cell, i) => (
+                      <td
+                        key={columns[i].key}
+                        title={`${row.consultorio}, ${columns[i].title}: ${cell.text}`}
+                        className="h-8 min-w-10 rounded"
+                        style={{ background: cellColor(cell.fraction) }}
+                      >
+                        <span className="sr-only">{cell.text}</span>
+                      </td>
+                    ))}
+                    <td className="whitespace-nowrap pl-2 text-right tabular-nums">{formatHours(row.totalHoras)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
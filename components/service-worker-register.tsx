@@ -0,0 +1,43 @@
+"use client"
+
+import { useEffect } from "react"
+import { config } from "@/lib/config"
+import { useKioskProfile } from "@/components/kiosk-profile-provider"
+
+// Registra public/sw.js (solo en producción) y le pide precachear el shell y los medios del kiosco.
+// Se repite al cambiar el perfil para precachear sus banners y videos.
+export function ServiceWorkerRegister() {
+  const { banners, videos, videoMapa } = useKioskProfile()
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return
+    if (!("serviceWorker" in navigator)) return
+
+    const precache = (worker: ServiceWorker | null | undefined) => {
+      if (!worker) return
+      // Estáticos de Next ya descargados antes de que el service worker tomara control
+      const shell = performance
+        .getEntriesByType("resource")
+        .map((entry) => entry.name)
+        .filter((name) => name.startsWith(window.location.origin) && name.includes("/_next/static/"))
+      const media = [
+        ...banners,
+        ...videos,
+        videoMapa,
+        config.images.logo,
+        config.images.aplicativoLogo,
+        config.images.homeline,
+      ]
+      worker.postMessage({ type: "PRECACHE", shell, media })
+    }
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then((registration) => navigator.serviceWorker.ready.then(() => precache(registration.active)))
+      .catch(() => {
+        // Sin service worker el kiosco sigue funcionando, solo sin modo offline
+      })
+  }, [banners, videos, videoMapa])
+
+  return null
+}
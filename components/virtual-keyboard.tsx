@@ -5,10 +5,14 @@ import { XIcon, MoveIcon, ChevronsDownIcon, ChevronsUpIcon, EraserIcon, LockIcon
 import { useEffect, useRef, useState } from "react"
 import Keyboard from "react-simple-keyboard"
 import type { KeyboardLayoutObject } from "react-simple-keyboard"
+import { useI18n } from "@/components/i18n-provider"
+import { useAccessibility } from "@/components/accessibility-provider"
 import type { VirtualKeyboardProps } from "@/lib/types"
 
 export function VirtualKeyboard({ value, onChange, onClose, placeholder, onEnter }: VirtualKeyboardProps) {
   const keyboardRef = useRef<HTMLDivElement>(null)
+  const { t } = useI18n()
+  const { reachMode } = useAccessibility()
   const keyboardInstanceRef = useRef<any>(null)
   const [position, setPosition] = useState<{ top: number; left: number } | null>(null)
   const [isDragging, setIsDragging] = useState(false)
@@ -30,6 +34,9 @@ export function VirtualKeyboard({ value, onChange, onClose, placeholder, onEnter
         if (isSearchPage) {
           positionMultiplier = 0.35 // Aún más arriba para búsqueda
         }
+        if (reachMode) {
+          positionMultiplier = 0.9 // "Bajar contenido": teclado al alcance desde una silla de ruedas
+        }
         
         const tentativeTop = (window.innerHeight - rect.height) * positionMultiplier
         const top = Math.min(Math.max(20, tentativeTop), window.innerHeight - rect.height - 20)
@@ -125,7 +132,7 @@ export function VirtualKeyboard({ value, onChange, onClose, placeholder, onEnter
     "{bksp}": "⌫",
     "{enter}": "Enter",
     "{shift}": "⇧",
-    "{space}": "Espacio"
+    "{space}": t.keyboard.space
   }
 
   const handleClose = () => {
@@ -165,20 +172,20 @@ export function VirtualKeyboard({ value, onChange, onClose, placeholder, onEnter
             size="icon" 
             className="virtual-keyboard-nudge-up-btn" 
             onClick={() => setPosition((pos) => pos ? { ...pos, top: Math.max(20, pos.top - 60) } : pos)} 
-            aria-label="Subir teclado"
+            aria-label={t.keyboard.up}
             style={{ backgroundColor: '#8C3048', color: 'white' }}
           >
-            <ChevronsUpIcon className="w-5 h-5" />
+            <ChevronsUpIcon className="w-5 h-5" aria-hidden="true" />
           </Button>
           <Button 
             variant="ghost" 
             size="icon" 
             className="virtual-keyboard-nudge-btn" 
             onClick={() => setPosition((pos) => pos ? { ...pos, top: Math.min(pos.top + 60, window.innerHeight - (keyboardRef.current?.getBoundingClientRect().height || 0) - 20) } : pos)} 
-            aria-label="Bajar teclado"
+            aria-label={t.keyboard.down}
             style={{ backgroundColor: '#8C3048', color: 'white' }}
           >
-            <ChevronsDownIcon className="w-5 h-5" />
+            <ChevronsDownIcon className="w-5 h-5" aria-hidden="true" />
           </Button>
           <Button 
             variant="ghost" 
@@ -186,20 +193,20 @@ export function VirtualKeyboard({ value, onChange, onClose, placeholder, onEnter
             className="virtual-keyboard-drag-btn" 
             onMouseDown={startDragMouse} 
             onTouchStart={startDragTouch} 
-            aria-label="Mover teclado"
+            aria-label={t.keyboard.move}
             style={{ backgroundColor: '#8C3048', color: 'white' }}
           >
-            <MoveIcon className="w-5 h-5" />
+            <MoveIcon className="w-5 h-5" aria-hidden="true" />
           </Button>
           <Button 
             variant="ghost" 
             size="icon" 
             className="virtual-keyboard-clear-btn" 
             onClick={() => onChange("")} 
-            aria-label="Limpiar texto"
+            aria-label={t.keyboard.clear}
             style={{ backgroundColor: '#8C3048', color: 'white' }}
           >
-            <Trash2Icon className="w-5 h-5" />
+            <Trash2Icon className="w-5 h-5" aria-hidden="true" />
           </Button>
           <Button 
             onClick={handleClose} 
@@ -208,8 +215,8 @@ export function VirtualKeyboard({ value, onChange, onClose, placeholder, onEnter
             className="virtual-keyboard-close-btn"
             style={{ backgroundColor: '#8C3048', color: 'white' }}
           >
-            <XIcon className="w-5 h-5" />
-            <span className="sr-only">Cerrar teclado</span>
+            <XIcon className="w-5 h-5" aria-hidden="true" />
+            <span className="sr-only">{t.keyboard.close}</span>
           </Button>
         </div>
       </div>
@@ -0,0 +1,130 @@
+"use client"
+
+import { useMemo } from "react"
+import { AlertTriangleIcon } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { isProcedure, scheduleTypeLabel } from "@/lib/doctor-schedule"
+import { buildTimetable } from "@/lib/timetable"
+import { formatHHmmTo12h } from "@/lib/utils"
+import type { DoctorSchedule } from "@/lib/types"
+
+// Alto de una hora en la grilla (rem)
+const HOUR_HEIGHT = 4.5
+
+const hourLabel = (hour: number) => formatHHmmTo12h(`${String(hour).padStart(2, "0")}:00`)
+
+// Semana completa de un médico: días como columnas y horas como filas. Los bloques se colorean por
+// tipo de agenda y se marcan cuando se superponen con otro del mismo día.
+export function WeeklyTimetable({
+  schedules,
+  onSelect,
+}: {
+  schedules: Record<string, DoctorSchedule[]>
+  onSelect?: (day: string, schedule: DoctorSchedule) => void
+}) {
+  const { t } = useI18n()
+  const layout = useMemo(() => buildTimetable(schedules), [schedules])
+  const hours = Array.from({ length: layout.endHour - layout.startHour }, (_, i) => layout.startHour + i)
+  const hasOverlaps = Object.values(layout.blocks).some((blocks) => blocks.some((block) => block.overlaps))
+  const toRem = (minutes: number) => `${((minutes - layout.startHour * 60) / 60) * HOUR_HEIGHT}rem`
+
+  return (
+    <div className="w-full">
+      <div className="mb-4 flex flex-wrap items-center justify-center gap-6 text-lg text-accent2">
+        <span className="flex items-center gap-2">
+          <span className="h-5 w-5 rounded bg-[#7F0C43]" aria-hidden="true" />
+          {t.doctor.consulta}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="h-5 w-5 rounded bg-[#C84D80]" aria-hidden="true" />
+          {t.doctor.procedure}
+        </span>
+        {hasOverlaps && (
+          <span className="flex items-center gap-2 font-semibold">
+            <AlertTriangleIcon className="h-5 w-5 text-[#B45309]" aria-hidden="true" />
+            {t.timetable.overlap}
+          </span>
+        )}
+      </div>
+
+      <div
+        role="table"
+        aria-label={t.timetable.label}
+        className="grid overflow-hidden rounded-2xl border border-[#E5E5E5] bg-white shadow-sm"
+        style={{ gridTemplateColumns: `5.5rem repeat(${layout.days.length}, minmax(0, 1fr))` }}
+      >
+        <div role="row" className="contents">
+          <div role="columnheader" className="border-b border-[#E5E5E5] bg-[#F9F4F6]" />
+          {layout.days.map((day) => (
+            <div
+              key={day}
+              role="columnheader"
+              className="border-b border-l border-[#E5E5E5] bg-[#F9F4F6] py-3 text-center text-lg font-bold text-primary"
+            >
+              {t.days[day as keyof typeof t.days]}
+            </div>
+          ))}
+        </div>
+
+        <div role="row" className="contents">
+          <div role="rowheader" className="relative" style={{ height: `${hours.length * HOUR_HEIGHT}rem` }}>
+            {hours.map((hour) => (
+              <span
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-sm text-gray-600 first:translate-y-0"
+                style={{ top: toRem(hour * 60) }}
+              >
+                {hourLabel(hour)}
+              </span>
+            ))}
+          </div>
+
+          {layout.days.map((day) => (
+            <div key={day} role="cell" className="relative border-l border-[#E5E5E5]">
+              {hours.map((hour) => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-dashed border-[#E5E5E5]"
+                  style={{ top: toRem(hour * 60) }}
+                  aria-hidden="true"
+                />
+              ))}
+              {(layout.blocks[day] || []).map((block, i) => {
+                const { schedule } = block
+                const tipo = scheduleTypeLabel(schedule.tipo, t.doctor)
+                const location = [
+                  schedule.room && `${t.doctor.roomLabel} ${schedule.room}`,
+                  schedule.floor,
+                ].filter(Boolean).join(" · ")
+                return (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => onSelect?.(day, schedule)}
+                    aria-label={`${t.days[day as keyof typeof t.days]}, ${tipo}, ${schedule.time}${location ? `, ${location}` : ""}${block.overlaps ? `, ${t.timetable.overlap}` : ""}`}
+                    className={`absolute overflow-hidden rounded-lg p-1.5 text-left text-white shadow ${
+                      isProcedure(schedule.tipo) ? "bg-[#C84D80]" : "bg-[#7F0C43]"
+                    } ${block.overlaps ? "ring-4 ring-inset ring-[#F59E0B]" : ""}`}
+                    style={{
+                      top: toRem(block.start),
+                      height: `calc(${toRem(block.end)} - ${toRem(block.start)} - 2px)`,
+                      left: `calc(${(block.lane / block.lanes) * 100}% + 2px)`,
+                      width: `calc(${100 / block.lanes}% - 4px)`,
+                    }}
+                  >
+                    <span className="flex items-center gap-1 text-sm font-bold leading-tight">
+                      {block.overlaps && <AlertTriangleIcon className="h-4 w-4 shrink-0" aria-hidden="true" />}
+                      {tipo}
+                    </span>
+                    <span className="block text-xs leading-tight">{schedule.time}</span>
+                    {location && <span className="block text-xs font-semibold leading-tight">{location}</span>}
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
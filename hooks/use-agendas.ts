@@ -0,0 +1,60 @@
+import { apiService } from '@/lib/api-service'
+import { config } from '@/lib/config'
+import { fetchJson } from '@/lib/http-client'
+import { agendaDetalladaListSchema } from '@/lib/schemas'
+import type { Agenda, AgendaDetalladaFiltro } from '@/lib/types'
+import { useCachedQuery } from './use-cached-query'
+
+const EMPTY_AGENDAS: Agenda[] = []
+
+// Todas las agendas (AGND_AGENDA) en forma canónica
+export function useAgendas() {
+  const { data, ...rest } = useCachedQuery('agendas', 'all', () => apiService.getAgendas())
+  return { agendas: data ?? EMPTY_AGENDAS, ...rest }
+}
+
+// Agendas de un médico con consultorio, edificio, piso y día resueltos.
+// Con especialidadId solo se devuelven las agendas de esa especialidad.
+export function useDoctorAgendas(codigoPrestador: string | null, especialidadId?: string | number) {
+  const key = codigoPrestador ? `detalle:${codigoPrestador}:${especialidadId ?? '*'}` : null
+  const { data, ...rest } = useCachedQuery('agendas', key, () =>
+    apiService.getAgendasDetalladasPorMedico(String(codigoPrestador), especialidadId)
+  )
+  return { agendas: data, ...rest }
+}
+
+// Las mismas agendas para la página móvil del QR, desde la ruta del mismo origen (app/api/movil):
+// el teléfono del paciente no alcanza el backend de la red interna
+export function useMobileDoctorAgendas(codigoPrestador: string | null, especialidadId?: string | number) {
+  const key = codigoPrestador ? `movil:${codigoPrestador}:${especialidadId ?? '*'}` : null
+  const { data, ...rest } = useCachedQuery('agendas', key, () => {
+    const query = especialidadId == null ? '' : `?especialidadId=${encodeURIComponent(especialidadId)}`
+    return fetchJson(
+      `${config.api.movilUrl}/agendas/${encodeURIComponent(String(codigoPrestador))}${query}`,
+      agendaDetalladaListSchema
+    )
+  })
+  return { agendas: data, ...rest }
+}
+
+// Agendas decodificadas en bloque con el índice compartido: todo el hospital (tablero "ahora")
+// o solo algunos prestadores/especialidades (listados por especialidad)
+export function useAgendasDetalladas(filtro: AgendaDetalladaFiltro = {}, enabled = true) {
+  const key = enabled
+    ? `bloque:${[filtro.prestadores, filtro.especialidadId].map((v) => (v == null ? '*' : [v].flat().map(String).sort().join(','))).join(':')}`
+    : null
+  const { data, ...rest } = useCachedQuery('agendas', key, () => apiService.getAgendasDetalladas(filtro))
+  return { agendas: data, ...rest }
+}
+
+// Informe de consultorios para coordinación (dobles reservas y catálogos incompletos)
+export function useConsultorioAudit() {
+  const { data, ...rest } = useCachedQuery('agendas', 'auditoria-consultorios', () => apiService.getAuditoriaConsultorios())
+  return { audit: data, ...rest }
+}
+
+// Ocupación de consultorios por edificio, piso, día y franja
+export function useRoomUtilization() {
+  const { data, ...rest } = useCachedQuery('agendas', 'ocupacion-consultorios', () => apiService.getOcupacionConsultorios())
+  return { utilization: data, ...rest }
+}
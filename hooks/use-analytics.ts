@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react'
+import { analytics, loadAnalyticsSummary } from '@/lib/analytics'
+import { config } from '@/lib/config'
+import type { SearchContext } from '@/lib/types'
+import { useCachedQuery } from './use-cached-query'
+
+// Registra el término de una búsqueda del teclado virtual cuando se deja de escribir, con la
+// cantidad de resultados (0 = búsqueda sin salida). ready: false mientras cargan los datos,
+// para no contar como fallida una búsqueda hecha antes de tener la lista
+export function useSearchTracking(context: SearchContext, term: string, results: number, ready = true) {
+  const lastTracked = useRef('')
+
+  useEffect(() => {
+    const trimmed = term.trim()
+    if (!ready || trimmed.length < 2) return
+    const timer = setTimeout(() => {
+      const key = `${trimmed}:${results}`
+      if (key === lastTracked.current) return
+      lastTracked.current = key
+      analytics.track({ type: 'search', context, term: trimmed, results })
+    }, config.analytics.searchDebounce)
+    return () => clearTimeout(timer)
+  }, [context, term, results, ready])
+}
+
+// Resumen de uso de los últimos `dias` días (/admin/estadisticas)
+export function useAnalyticsSummary(dias: number) {
+  const { data, ...rest } = useCachedQuery('http', `estadisticas:${dias}`, () => loadAnalyticsSummary(dias))
+  return { summary: data, ...rest }
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { cacheManager } from '@/lib/cache'
+import type { ApiResponse, CacheNamespace } from '@/lib/types'
+
+interface CachedQueryState<T> {
+  data: T | null
+  loading: boolean
+  error: string | null
+  isStale: boolean
+  snapshotAt?: number
+}
+
+// Lee una clave de lib/cache.ts con stale-while-revalidate y se actualiza cuando la revalidación termina.
+// Con key null no se consulta nada (p. ej. mientras se resuelve un dato previo).
+export function useCachedQuery<T>(
+  namespace: CacheNamespace,
+  key: string | null,
+  fetcher: () => Promise<ApiResponse<T>>
+) {
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+  const keyRef = useRef(key)
+  keyRef.current = key
+
+  const readCache = useCallback((): CachedQueryState<T> => {
+    const cached = key ? cacheManager.get<T>(namespace, key) : null
+    return {
+      data: cached?.data ?? null,
+      loading: key != null && !cached,
+      error: null,
+      isStale: cached ? !cached.fresh : false,
+    }
+  }, [namespace, key])
+
+  // El primer render no lee la caché para que coincida con el HTML del servidor
+  const [state, setState] = useState<CachedQueryState<T>>({
+    data: null,
+    loading: key != null,
+    error: null,
+    isStale: false,
+  })
+
+  const load = useCallback(async (force: boolean) => {
+    if (!key) return
+    const res = await cacheManager.fetch(namespace, key, () => fetcherRef.current(), { force })
+    // Respuesta de una clave anterior (cambió el parámetro mientras se cargaba)
+    if (keyRef.current !== key) return
+    setState((prev) => {
+      if (!res.success) {
+        // Si ya hay datos (aunque viejos) se siguen mostrando
+        return prev.data != null
+          ? { ...prev, loading: false }
+          : { data: null, loading: false, error: res.message || 'Error cargando datos', isStale: false }
+      }
+      const cached = cacheManager.get<T>(namespace, key)
+      return {
+        data: res.data,
+        loading: false,
+        error: null,
+        isStale: cached ? !cached.fresh : false,
+        snapshotAt: res.snapshotAt,
+      }
+    })
+  }, [namespace, key])
+
+  useEffect(() => {
+    setState(readCache())
+    if (!key) return
+
+    let active = true
+    const unsubscribe = cacheManager.subscribe(namespace, key, () => {
+      if (!active) return
+      const cached = cacheManager.get<T>(namespace, key)
+      if (cached) {
+        setState({ data: cached.data, loading: false, error: null, isStale: !cached.fresh })
+      }
+    })
+    load(false).catch(() => {})
+
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [namespace, key, readCache, load])
+
+  // Fuerza una recarga ignorando la caché
+  const refresh = useCallback(() => load(true), [load])
+
+  return { ...state, refresh }
+}
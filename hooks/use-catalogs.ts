@@ -0,0 +1,37 @@
+import { apiService } from '@/lib/api-service'
+import type { ApiResponse, Catalogos, PisoCatalogo } from '@/lib/types'
+import { useCachedQuery } from './use-cached-query'
+
+const EMPTY_PISOS: PisoCatalogo[] = []
+
+async function fetchCatalogos(): Promise<ApiResponse<Catalogos>> {
+  const [consultorios, dias, edificios] = await Promise.all([
+    apiService.getConsultorios(),
+    apiService.getDias(),
+    apiService.getEdificios(),
+  ])
+  const failed = [consultorios, dias, edificios].find((res) => !res.success)
+  const snapshots = [consultorios, dias, edificios]
+    .map((res) => res.snapshotAt)
+    .filter((ts): ts is number => ts != null)
+  return {
+    data: { consultorios: consultorios.data, dias: dias.data, edificios: edificios.data },
+    success: !failed,
+    message: failed?.message,
+    snapshotAt: snapshots.length > 0 ? Math.min(...snapshots) : undefined,
+  }
+}
+
+// Catálogos de consultorios, días y edificios
+export function useCatalogs() {
+  const { data, ...rest } = useCachedQuery('catalogs', 'base', fetchCatalogos)
+  return { catalogos: data, ...rest }
+}
+
+// Pisos de un edificio (getPisosEdificio)
+export function useBuildingFloors(codigoEdificio: string | null) {
+  const { data, ...rest } = useCachedQuery('catalogs', codigoEdificio ? `pisos:${codigoEdificio}` : null, () =>
+    apiService.getPisosEdificio(String(codigoEdificio))
+  )
+  return { pisos: data ?? EMPTY_PISOS, ...rest }
+}
@@ -0,0 +1,39 @@
+import { apiService } from '@/lib/api-service'
+import { api3Service } from '@/lib/api3-service'
+import { auditarDatos } from '@/lib/data-quality'
+import type { ApiResponse, DataQualityReport } from '@/lib/types'
+import { useCachedQuery } from './use-cached-query'
+
+// Se piden también los catálogos sueltos para que sus reportes de validación estén al día
+// aunque el índice de agendas salga de la caché
+async function fetchDataQuality(): Promise<ApiResponse<DataQualityReport | null>> {
+  const [medicos, especialidades, agendas, index, ...catalogos] = await Promise.all([
+    apiService.getDoctores(),
+    api3Service.getEspecialidadesAgenda(),
+    apiService.getAgendas(),
+    apiService.getAgendaIndex(),
+    apiService.getConsultorios(),
+    apiService.getEdificios(),
+    apiService.getDias(),
+  ])
+  const partes = [medicos, especialidades, agendas, index, ...catalogos]
+  const failed = partes.find((res) => !res.success)
+  if (!index.data) {
+    return { data: null, success: false, message: failed?.message || 'No se pudo armar el índice de catálogos' }
+  }
+
+  const report = auditarDatos({
+    medicos: medicos.data,
+    especialidades: especialidades.data,
+    agendas: agendas.data,
+    index: index.data,
+    reports: [...apiService.getValidationReports(), ...api3Service.getValidationReports()],
+  })
+  return { data: report, success: !failed, message: failed?.message }
+}
+
+// Auditoría de calidad de datos del directorio (/admin/calidad)
+export function useDataQuality() {
+  const { data, ...rest } = useCachedQuery('agendas', 'auditoria-datos', fetchDataQuality)
+  return { report: data, ...rest }
+}
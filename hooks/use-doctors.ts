@@ -0,0 +1,44 @@
+import { apiService } from '@/lib/api-service'
+import { api3Service } from '@/lib/api3-service'
+import { slugify } from '@/lib/utils'
+import type { ApiResponse, Doctor } from '@/lib/types'
+import { useCachedQuery } from './use-cached-query'
+
+const EMPTY: Doctor[] = []
+
+// Resuelve un médico por ID o por slug de su nombre dentro de una especialidad
+async function fetchDoctor(idOrSlug: string, especialidadId: string | number | null): Promise<ApiResponse<Doctor | null>> {
+  if (/^\d+$/.test(idOrSlug)) {
+    const res = await api3Service.getMedicoAgenda(idOrSlug)
+    return res.success && !res.data ? { data: null, success: false, message: 'Médico no encontrado' } : res
+  }
+
+  if (especialidadId == null) return { data: null, success: false, message: 'Médico no encontrado' }
+  const res = await api3Service.getMedicosPorEspecialidad(especialidadId)
+  if (!res.success) return { data: null, success: false, message: res.message }
+  const found = res.data.find((doc) => slugify(doc.nombres) === slugify(idOrSlug))
+  if (!found) return { data: null, success: false, message: 'Médico no encontrado' }
+
+  const detail = await api3Service.getMedicoAgenda(found.id)
+  return detail.success && !detail.data ? { data: null, success: false, message: 'Médico no encontrado' } : detail
+}
+
+// Todos los médicos del directorio (búsqueda por nombre)
+export function useDoctors() {
+  const { data, ...rest } = useCachedQuery('doctors', 'all', () => apiService.getDoctores())
+  return { doctors: data ?? EMPTY, ...rest }
+}
+
+// Médicos con agenda activa y sus especialidades (listados por especialidad)
+export function useAgendaDoctors() {
+  const { data, ...rest } = useCachedQuery('doctors', 'agenda', () => api3Service.getMedicosAgenda2())
+  return { doctors: data ?? EMPTY, ...rest }
+}
+
+// Un médico por ID o slug; con slug se necesita la especialidad para buscarlo
+export function useDoctor(idOrSlug: string | null, especialidadId: string | number | null) {
+  const isId = idOrSlug != null && /^\d+$/.test(idOrSlug)
+  const key = idOrSlug == null ? null : isId ? `item:${idOrSlug}` : especialidadId == null ? null : `item:${especialidadId}:${idOrSlug}`
+  const { data, ...rest } = useCachedQuery('doctors', key, () => fetchDoctor(String(idOrSlug), especialidadId))
+  return { doctor: data, ...rest }
+}
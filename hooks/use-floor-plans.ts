@@ -0,0 +1,8 @@
+import { loadFloorPlans } from '@/lib/wayfinding'
+import { useCachedQuery } from './use-cached-query'
+
+// Planos de piso (public/maps/floor-plans.json), cacheados junto a los catálogos
+export function useFloorPlans() {
+  const { data, ...rest } = useCachedQuery('catalogs', 'planos', loadFloorPlans)
+  return { plans: data, ...rest }
+}
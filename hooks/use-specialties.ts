@@ -0,0 +1,51 @@
+import { cacheManager } from '@/lib/cache'
+import { api3Service } from '@/lib/api3-service'
+import { slugify } from '@/lib/utils'
+import type { ApiResponse, Especialidad } from '@/lib/types'
+import { useCachedQuery } from './use-cached-query'
+
+const EMPTY: Especialidad[] = []
+
+// Especialidades con agenda, válidas y ordenadas alfabéticamente
+async function fetchSpecialties(): Promise<ApiResponse<Especialidad[]>> {
+  const res = await api3Service.getEspecialidadesAgenda()
+  if (!res.success) return res
+  const data = res.data
+    .filter((esp) => Boolean(esp.descripcion))
+    .sort((a, b) => (a.descripcion || '').localeCompare(b.descripcion || ''))
+  return { ...res, data }
+}
+
+const loadSpecialties = () => cacheManager.fetch('specialties', 'agenda', fetchSpecialties)
+
+// Resuelve una especialidad por ID o por slug de su descripción
+async function fetchSpecialty(idOrSlug: string): Promise<ApiResponse<Especialidad | null>> {
+  if (/^\d+$/.test(idOrSlug)) {
+    const res = await api3Service.getEspecialidadById(idOrSlug)
+    if (res.success && !res.data?.descripcion) {
+      return { data: null, success: false, message: 'Especialidad no encontrada' }
+    }
+    return res
+  }
+
+  const res = await loadSpecialties()
+  if (!res.success) return { data: null, success: false, message: res.message }
+  const match = res.data.find((spec) => slugify(spec.descripcion || '') === slugify(idOrSlug))
+  return match
+    ? { data: match, success: true, snapshotAt: res.snapshotAt }
+    : { data: null, success: false, message: 'Especialidad no encontrada' }
+}
+
+export function useSpecialties() {
+  const { data, ...rest } = useCachedQuery('specialties', 'agenda', fetchSpecialties)
+  return { specialties: data ?? EMPTY, ...rest }
+}
+
+export function useSpecialty(idOrSlug: string | null) {
+  const { data, ...rest } = useCachedQuery(
+    'specialties',
+    idOrSlug ? `item:${idOrSlug}` : null,
+    () => fetchSpecialty(String(idOrSlug))
+  )
+  return { specialty: data, ...rest }
+}
@@ -0,0 +1,8 @@
+import { loadSymptomMap } from '@/lib/symptoms'
+import { useCachedQuery } from './use-cached-query'
+
+// Mapa de síntomas (public/symptoms/symptom-map.json), cacheado junto a los catálogos
+export function useSymptomMap() {
+  const { data, ...rest } = useCachedQuery('catalogs', 'sintomas', loadSymptomMap)
+  return { symptomMap: data, ...rest }
+}
@@ -0,0 +1,193 @@
+// Consola de agendas del personal (/agendas): filas ya decodificadas con el índice de
+// lib/agenda-index.ts, búsqueda, filtros por columna, orden y exportación a CSV/XLSX.
+import { normalizeDayKey, WEEK_DAYS } from './doctor-schedule'
+import { normalizeSearchText } from './doctor-search'
+import { downloadBlob, extractHHmm, hhmmToMinutes, toCsv } from './utils'
+import type {
+  AgendaConsoleColumn,
+  AgendaConsoleFilter,
+  AgendaConsoleOption,
+  AgendaConsoleRow,
+  AgendaConsoleSort,
+  AgendaDetallada
+} from './types'
+
+export const EMPTY_CONSOLE_FILTER: AgendaConsoleFilter = {
+  busqueda: '',
+  dia: null,
+  medico: null,
+  especialidad: null,
+  consultorio: null,
+  edificio: null,
+  piso: null
+}
+
+// Encabezados de la tabla y de las exportaciones
+export const CONSOLE_COLUMNS: { id: AgendaConsoleColumn; label: string }[] = [
+  { id: 'dia', label: 'Día' },
+  { id: 'horario', label: 'Horario' },
+  { id: 'medico', label: 'Médico' },
+  { id: 'especialidad', label: 'Especialidad' },
+  { id: 'consultorio', label: 'Consultorio' },
+  { id: 'edificio', label: 'Edificio' },
+  { id: 'piso', label: 'Piso' },
+  { id: 'tipo', label: 'Tipo' }
+]
+
+const text = (value: unknown) => (value == null ? '' : String(value).trim())
+
+// "8:00" -> "08:00"; lo que no es una hora se deja como llega
+const hhmm = (value: unknown) => {
+  const minutes = hhmmToMinutes(value)
+  if (minutes == null) return extractHHmm(value)
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+export function toConsoleRows(agendas: AgendaDetallada[]): AgendaConsoleRow[] {
+  return agendas.map((a, i) => {
+    const dia = text(a.diaNombre) || text(a.codigo_dia)
+    const diaIndex = WEEK_DAYS.indexOf(normalizeDayKey(dia))
+    const inicio = hhmm(a.horaInicioHHmm)
+    const consultorioCodigo = text(a.consultorioCodigo)
+    const edificioCodigo = text(a.buildingCode)
+    const pisoCodigo = text(a.pisoCodigo)
+    return {
+      key: `${text(a.codigo_prestador)}-${text(a.codigo_dia)}-${inicio}-${consultorioCodigo}-${i}`,
+      dia,
+      diaOrden: diaIndex === -1 ? WEEK_DAYS.length : diaIndex,
+      medico: text(a.medico),
+      codigoPrestador: text(a.codigo_prestador),
+      especialidad: text(a.especialidad),
+      consultorio: text(a.consultorioDescripcion) || consultorioCodigo,
+      consultorioCodigo,
+      edificio: text(a.edificioDescripcion) || edificioCodigo,
+      edificioCodigo,
+      piso: text(a.pisoDescripcion) || pisoCodigo,
+      pisoCodigo,
+      inicio,
+      fin: hhmm(a.horaFinHHmm),
+      tipo: text(a.tipoTexto) || text(a.tipo)
+    }
+  })
+}
+
+export function isConsoleFilterActive(filter: AgendaConsoleFilter): boolean {
+  const { busqueda, ...columnas } = filter
+  return Boolean(busqueda.trim()) || Object.values(columnas).some((value) => value != null)
+}
+
+// Cada palabra buscada debe aparecer en el médico, la especialidad, el consultorio, el edificio, el piso o el día
+export function filterConsoleRows(rows: AgendaConsoleRow[], filter: AgendaConsoleFilter): AgendaConsoleRow[] {
+  const tokens = normalizeSearchText(filter.busqueda).split(/\s+/).filter(Boolean)
+  return rows.filter((row) => {
+    if (filter.dia != null && row.dia !== filter.dia) return false
+    if (filter.medico != null && row.codigoPrestador !== filter.medico) return false
+    if (filter.especialidad != null && row.especialidad !== filter.especialidad) return false
+    if (filter.consultorio != null && row.consultorioCodigo !== filter.consultorio) return false
+    if (filter.edificio != null && row.edificioCodigo !== filter.edificio) return false
+    if (filter.piso != null && row.pisoCodigo !== filter.piso) return false
+    if (tokens.length === 0) return true
+    const haystack = normalizeSearchText(
+      [row.medico, row.especialidad, row.consultorio, row.consultorioCodigo, row.edificio, row.piso, row.dia].join(' ')
+    )
+    return tokens.every((token) => haystack.includes(token))
+  })
+}
+
+const compareText = (a: string, b: string) => {
+  // Los vacíos van siempre al final
+  if (!a || !b) return Number(!a) - Number(!b)
+  return a.localeCompare(b, 'es', { sensitivity: 'base', numeric: true })
+}
+
+const compareTime = (a: string, b: string) =>
+  (hhmmToMinutes(a) ?? Number.MAX_SAFE_INTEGER) - (hhmmToMinutes(b) ?? Number.MAX_SAFE_INTEGER)
+
+const COMPARATORS: Record<AgendaConsoleColumn, (a: AgendaConsoleRow, b: AgendaConsoleRow) => number> = {
+  dia: (a, b) => a.diaOrden - b.diaOrden || compareText(a.dia, b.dia),
+  horario: (a, b) => compareTime(a.inicio, b.inicio) || compareTime(a.fin, b.fin),
+  medico: (a, b) => compareText(a.medico, b.medico),
+  especialidad: (a, b) => compareText(a.especialidad, b.especialidad),
+  consultorio: (a, b) => compareText(a.consultorio, b.consultorio),
+  edificio: (a, b) => compareText(a.edificio, b.edificio),
+  piso: (a, b) => compareText(a.piso, b.piso),
+  tipo: (a, b) => compareText(a.tipo, b.tipo)
+}
+
+// Los empates se resuelven por día, horario y médico
+export function sortConsoleRows(rows: AgendaConsoleRow[], sort: AgendaConsoleSort): AgendaConsoleRow[] {
+  const direction = sort.direction === 'asc' ? 1 : -1
+  const primary = COMPARATORS[sort.column]
+  return [...rows].sort(
+    (a, b) =>
+      direction * primary(a, b) ||
+      COMPARATORS.dia(a, b) ||
+      COMPARATORS.horario(a, b) ||
+      COMPARATORS.medico(a, b)
+  )
+}
+
+type OptionColumn = Exclude<AgendaConsoleColumn, 'horario' | 'tipo'>
+
+// Columna -> [valor del filtro, texto visible] de una fila
+const OPTION_FIELDS: Record<OptionColumn, (row: AgendaConsoleRow) => [string, string]> = {
+  dia: (row) => [row.dia, row.dia],
+  medico: (row) => [row.codigoPrestador, row.medico || row.codigoPrestador],
+  especialidad: (row) => [row.especialidad, row.especialidad],
+  consultorio: (row) => [row.consultorioCodigo, row.consultorio],
+  edificio: (row) => [row.edificioCodigo, row.edificio],
+  piso: (row) => [row.pisoCodigo, row.piso]
+}
+
+// Valores distintos de una columna para su filtro; los días en orden de la semana y el resto alfabético
+export function consoleOptions(rows: AgendaConsoleRow[], column: OptionColumn): AgendaConsoleOption[] {
+  const options = new Map<string, AgendaConsoleOption & { orden: number }>()
+  rows.forEach((row) => {
+    const [value, label] = OPTION_FIELDS[column](row)
+    if (value && !options.has(value)) options.set(value, { value, label: label || value, orden: row.diaOrden })
+  })
+  return [...options.values()]
+    .sort((a, b) => (column === 'dia' ? a.orden - b.orden : 0) || compareText(a.label, b.label))
+    .map(({ value, label }) => ({ value, label }))
+}
+
+// Valores exportados por columna (horas en 24 h para que la hoja de cálculo las ordene bien)
+const EXPORT_HEADERS = ['Día', 'Inicio', 'Fin', 'Médico', 'Código prestador', 'Especialidad', 'Consultorio', 'Código consultorio', 'Edificio', 'Piso', 'Tipo']
+
+const exportValues = (row: AgendaConsoleRow): string[] => [
+  row.dia,
+  row.inicio,
+  row.fin,
+  row.medico,
+  row.codigoPrestador,
+  row.especialidad,
+  row.consultorio,
+  row.consultorioCodigo,
+  row.edificio,
+  row.piso,
+  row.tipo
+]
+
+export function rowsToCsv(rows: AgendaConsoleRow[]): string {
+  return toCsv([EXPORT_HEADERS, ...rows.map(exportValues)])
+}
+
+export function downloadCsv(rows: AgendaConsoleRow[], fileName: string): void {
+  downloadBlob(new Blob([rowsToCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`)
+}
+
+// La librería de XLSX se carga solo al exportar
+export async function downloadXlsx(rows: AgendaConsoleRow[], fileName: string): Promise<void> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+  await writeXlsxFile(
+    [
+      EXPORT_HEADERS.map((value) => ({ value, fontWeight: 'bold' as const })),
+      ...rows.map((row) => exportValues(row).map((value) => value || null))
+    ],
+    {
+      sheet: 'Agendas',
+      stickyRowsCount: 1,
+      columns: EXPORT_HEADERS.map((header) => ({ width: Math.max(header.length + 2, 14) }))
+    }
+  ).toFile(`${fileName}.xlsx`)
+}
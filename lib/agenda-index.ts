@@ -0,0 +1,141 @@
+// Decodificación de agendas con índices precalculados.
+// Los catálogos (consultorio -> edificio -> piso, días y médicos) se indexan una sola vez y el
+// mismo índice sirve para un médico, una especialidad o todo el hospital.
+import { CONSULTA_TYPES, CONSULTA_TYPE_LABELS, DAY_CODE_MAP, REGEX_PATTERNS } from './constants'
+import type {
+  Agenda,
+  AgendaDetallada,
+  AgendaDetalladaFiltro,
+  AgendaIndex,
+  ConsultorioNormalizado,
+  DiaCatalogo,
+  Doctor,
+  Edificio,
+  PisoCatalogo
+} from './types'
+
+export function buildAgendaIndex(catalogos: {
+  medicos: Doctor[]
+  consultorios: ConsultorioNormalizado[]
+  edificios: Edificio[]
+  dias: DiaCatalogo[]
+  pisosPorEdificio: Record<string, PisoCatalogo[]>
+}): AgendaIndex {
+  const consultorios: AgendaIndex['consultorios'] = {}
+  catalogos.consultorios.forEach((c) => { consultorios[c.codigo_consultorio] = c })
+
+  const edificios: AgendaIndex['edificios'] = {}
+  catalogos.edificios.forEach((e) => { edificios[e.codigo_edificio] = e.descripcion_edificio ?? '' })
+
+  const pisos: AgendaIndex['pisos'] = {}
+  Object.entries(catalogos.pisosPorEdificio).forEach(([edificio, lista]) => {
+    if (lista.length === 0) return
+    pisos[edificio] = Object.fromEntries(lista.map((p) => [p.codigo_piso, p.descripcion_piso]))
+  })
+
+  const dias: AgendaIndex['dias'] = {}
+  catalogos.dias.forEach((d) => { dias[d.codigo] = d.nombre })
+
+  // Los médicos se indexan por id y por codigoPrestador (las agendas usan uno u otro)
+  const medicos: AgendaIndex['medicos'] = {}
+  catalogos.medicos.forEach((m) => {
+    ;[m.id, m.codigoPrestador].forEach((key) => {
+      if (!medicos[key]) medicos[key] = { nombres: m.nombres, especialidades: m.especialidades }
+    })
+  })
+
+  return { consultorios, edificios, pisos, dias, medicos, builtAt: Date.now() }
+}
+
+// Edificios distintos referenciados por los consultorios (para pedir sus pisos)
+export function edificiosDeConsultorios(consultorios: ConsultorioNormalizado[]): string[] {
+  const unicos = new Set<string>()
+  consultorios.forEach((c) => {
+    if (c.codigo_edificio) unicos.add(c.codigo_edificio)
+  })
+  return Array.from(unicos)
+}
+
+const decodeDiaNombre = (index: AgendaIndex, codigoDia: string): string => {
+  const code = codigoDia.trim()
+  if (!code) return ''
+  return index.dias[code] || DAY_CODE_MAP[code.toUpperCase()] || code
+}
+
+const decodeTipo = (t: string): string => {
+  if (t === CONSULTA_TYPES.CONSULTA) return CONSULTA_TYPE_LABELS[CONSULTA_TYPES.CONSULTA]
+  if (t === CONSULTA_TYPES.PROCEDIMIENTO) return CONSULTA_TYPE_LABELS[CONSULTA_TYPES.PROCEDIMIENTO]
+  return t
+}
+
+// Filtra por prestadores y/o especialidades (codigo_item_agendamiento ES el especialidadId)
+export function filtrarAgendas(agendas: Agenda[], filtro: AgendaDetalladaFiltro = {}): Agenda[] {
+  const prestadores = filtro.prestadores ? new Set(filtro.prestadores.map(String)) : null
+  const especialidades = filtro.especialidadId == null
+    ? null
+    : new Set((Array.isArray(filtro.especialidadId) ? filtro.especialidadId : [filtro.especialidadId]).map(String))
+
+  return agendas.filter((a) => {
+    if (prestadores && !prestadores.has(a.codigo_prestador)) return false
+    if (especialidades) {
+      const codigoItem = a.codigo_item_agendamiento ?? ''
+      if (!REGEX_PATTERNS.DOCTOR_ID.test(codigoItem) || !especialidades.has(codigoItem)) return false
+    }
+    return true
+  })
+}
+
+// Edificio y piso de un consultorio: Consultorio -> Edificio -> Piso
+export function ubicarConsultorio(consultorio: ConsultorioNormalizado | undefined, index: AgendaIndex) {
+  const buildingCode = consultorio?.codigo_edificio ?? ''
+  const edificioDescripcion = (buildingCode && index.edificios[buildingCode]) || ''
+
+  const pisoCodigo = consultorio?.piso
+  // Prioridad 1: catálogo de pisos del edificio; 2: descripción del consultorio; 3: código del piso
+  const pisoDescripcion =
+    (buildingCode && pisoCodigo != null ? index.pisos[buildingCode]?.[pisoCodigo] : undefined)
+    || consultorio?.des_piso
+    || (pisoCodigo != null ? `Piso ${pisoCodigo}` : '')
+
+  return { buildingCode, edificioDescripcion, pisoCodigo, pisoDescripcion }
+}
+
+export function detallarAgenda(a: Agenda, index: AgendaIndex): AgendaDetallada {
+  const codigoConsultorio = a.codigo_consultorio ?? ''
+  const consultorio = index.consultorios[codigoConsultorio]
+  const { buildingCode, edificioDescripcion, pisoCodigo, pisoDescripcion } = ubicarConsultorio(consultorio, index)
+
+  const medico = index.medicos[a.codigo_prestador]
+  const especialidades = medico?.especialidades ?? []
+  const codigoItem = a.codigo_item_agendamiento ?? ''
+
+  // Especialidad de esta agenda: la del codigo_item_agendamiento o, si no, la primera del médico
+  const especialidad =
+    (codigoItem ? especialidades.find((esp) => esp.especialidadId === codigoItem)?.descripcion : undefined)
+    ?? especialidades[0]?.descripcion
+
+  return {
+    codigo_item_agendamiento: a.codigo_item_agendamiento,
+    codigo_prestador: a.codigo_prestador,
+    codigo_dia: a.codigo_dia,
+    hora_inicio: a.hora_inicio,
+    hora_fin: a.hora_fin,
+    tipo: a.tipo,
+    codigo_consultorio: codigoConsultorio,
+
+    especialidad,
+    medico: medico?.nombres ?? '',
+    diaNombre: decodeDiaNombre(index, a.codigo_dia),
+    horaInicioHHmm: a.hora_inicio,
+    horaFinHHmm: a.hora_fin ?? '',
+    consultorioDescripcion: consultorio?.descripcion_consultorio ?? '',
+    consultorioCodigo: consultorio?.codigo_consultorio,
+    edificioDescripcion,
+    tipoTexto: decodeTipo(a.tipo),
+
+    piso: pisoDescripcion,
+    pisoCodigo,
+    pisoDescripcion,
+    buildingCode
+  }
+}
@@ -0,0 +1,159 @@
+// Almacén de las estadísticas de uso del kiosco.
+// Este módulo solo se ejecuta en el servidor (app/api/analytics): los eventos se agregan a un
+// archivo JSON Lines por día (UTC) en ANALYTICS_DIR y los de más de retentionDays se borran.
+import { appendFile, mkdir, readdir, readFile, unlink } from "fs/promises"
+import path from "path"
+import { config } from "./config"
+import type { AnalyticsCount, AnalyticsEvent, AnalyticsSummary, SearchContext } from "./types"
+
+const DATA_DIR = process.env.ANALYTICS_DIR || path.join(process.cwd(), ".analytics")
+const FILE_PATTERN = /^eventos-(\d{4}-\d{2}-\d{2})\.jsonl$/
+const DAY_MS = 86400000
+
+const dayKey = (ts: number) => new Date(ts).toISOString().slice(0, 10)
+const fileFor = (day: string) => path.join(DATA_DIR, `eventos-${day}.jsonl`)
+
+// Los archivos viejos se revisan como mucho una vez por día
+let lastPrunedDay = ""
+
+async function prune(now: number): Promise<void> {
+  const today = dayKey(now)
+  if (lastPrunedDay === today) return
+  lastPrunedDay = today
+  const limit = dayKey(now - config.analytics.retentionDays * DAY_MS)
+  const files = await readdir(DATA_DIR)
+  await Promise.all(
+    files.map((file) => {
+      const day = FILE_PATTERN.exec(file)?.[1]
+      return day && day < limit ? unlink(path.join(DATA_DIR, file)) : undefined
+    })
+  )
+}
+
+export async function appendEvents(events: AnalyticsEvent[]): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true })
+  // Los eventos retenidos sin red pueden llegar un día después: cada uno va al archivo de su día
+  const porDia = new Map<string, string[]>()
+  events.forEach((event) => {
+    const day = dayKey(event.ts)
+    porDia.set(day, [...(porDia.get(day) ?? []), JSON.stringify(event)])
+  })
+  for (const [day, lines] of porDia) {
+    await appendFile(fileFor(day), `${lines.join("\n")}\n`, "utf8")
+  }
+  await prune(Date.now()).catch((error) => console.warn("[analytics] No se pudieron borrar archivos viejos:", error))
+}
+
+// Eventos con ts en [desde, hasta]. Las líneas dañadas (p. ej. un corte de luz a mitad de
+// escritura) se ignoran
+export async function readEvents(desde: number, hasta: number): Promise<AnalyticsEvent[]> {
+  let files: string[]
+  try {
+    files = await readdir(DATA_DIR)
+  } catch {
+    return [] // todavía no se registró nada
+  }
+  const first = dayKey(desde)
+  const last = dayKey(hasta)
+  const days = files
+    .map((file) => FILE_PATTERN.exec(file)?.[1])
+    .filter((day): day is string => !!day && day >= first && day <= last)
+    .sort()
+
+  const events: AnalyticsEvent[] = []
+  for (const day of days) {
+    const content = await readFile(fileFor(day), "utf8")
+    content.split("\n").forEach((line) => {
+      if (!line) return
+      try {
+        const event = JSON.parse(line) as AnalyticsEvent
+        if (event.ts >= desde && event.ts <= hasta) events.push(event)
+      } catch {
+        // línea incompleta
+      }
+    })
+  }
+  return events
+}
+
+// ===== Resumen =====
+
+// "Cardiología " y "cardiologia" cuentan como la misma búsqueda
+const normalizeTerm = (term: string) =>
+  term.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim()
+
+// Cuenta por clave; la etiqueta es la última vista (los nombres pueden corregirse en el origen)
+function contar(entries: { clave: string; etiqueta: string }[]): AnalyticsCount[] {
+  const counts = new Map<string, AnalyticsCount>()
+  entries.forEach(({ clave, etiqueta }) => {
+    const count = counts.get(clave)
+    if (count) {
+      count.total++
+      count.etiqueta = etiqueta
+    } else {
+      counts.set(clave, { clave, etiqueta, total: 1 })
+    }
+  })
+  return [...counts.values()]
+    .sort((a, b) => b.total - a.total || a.etiqueta.localeCompare(b.etiqueta, "es"))
+    .slice(0, config.analytics.topLimit)
+}
+
+export function summarizeEvents(events: AnalyticsEvent[], desde: number, hasta: number): AnalyticsSummary {
+  const ordenados = [...events].sort((a, b) => a.ts - b.ts)
+  const especialidades: { clave: string; etiqueta: string }[] = []
+  const medicos: { clave: string; etiqueta: string }[] = []
+  const fallidas: { clave: string; etiqueta: string }[] = []
+  const contextos = new Map<string, SearchContext>()
+  let vistas = 0
+  let busquedas = 0
+  let busquedasSinResultado = 0
+  let finPorInactividad = 0
+  let finPorInicio = 0
+  let duracionTotal = 0
+
+  ordenados.forEach((event) => {
+    switch (event.type) {
+      case "page_view":
+        vistas++
+        break
+      case "specialty_view":
+        especialidades.push({ clave: event.especialidadId, etiqueta: event.especialidad })
+        break
+      case "doctor_view":
+        medicos.push({ clave: event.medicoId, etiqueta: event.medico })
+        break
+      case "search": {
+        busquedas++
+        if (event.results > 0) break
+        busquedasSinResultado++
+        const clave = `${event.context}:${normalizeTerm(event.term)}`
+        contextos.set(clave, event.context)
+        fallidas.push({ clave, etiqueta: event.term.trim() })
+        break
+      }
+      case "session_end":
+        if (event.reason === "idle") finPorInactividad++
+        else finPorInicio++
+        duracionTotal += event.durationMs
+        break
+    }
+  })
+
+  const sesiones = finPorInactividad + finPorInicio
+  return {
+    desde,
+    hasta,
+    eventos: events.length,
+    sesiones,
+    duracionPromedioMs: sesiones > 0 ? Math.round(duracionTotal / sesiones) : 0,
+    finPorInactividad,
+    finPorInicio,
+    vistas,
+    busquedas,
+    busquedasSinResultado,
+    topEspecialidades: contar(especialidades),
+    topMedicos: contar(medicos),
+    topBusquedasFallidas: contar(fallidas).map((count) => ({ ...count, context: contextos.get(count.clave)! })),
+  }
+}
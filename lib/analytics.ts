@@ -0,0 +1,110 @@
+// Estadísticas de uso del kiosco: vistas, búsquedas y cómo terminan las sesiones.
+// Los eventos se juntan en memoria y se envían en lotes a /api/analytics (lib/analytics-store.ts
+// los guarda en el servidor). Si no hay red se reintentan en el siguiente envío. Solo en el cliente.
+import { config } from './config'
+import { fetchJson } from './http-client'
+import { readKioskId } from './kiosk-profile'
+import { analyticsSummarySchema } from './schemas'
+import type { AnalyticsEvent, AnalyticsEventData, AnalyticsSummary, ApiResponse, SessionEndReason } from './types'
+
+// El servidor acepta hasta 100 eventos por lote (analyticsBatchSchema)
+const MAX_BATCH = 100
+
+const isExcluded = (path: string) =>
+  config.analytics.excludedPaths.some((excluded) => path === excluded || path.startsWith(`${excluded}/`))
+
+// crypto.randomUUID solo existe en contextos seguros; el kiosco suele abrirse por http en la red interna
+const newSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+class AnalyticsService {
+  private queue: AnalyticsEvent[] = []
+  private sending = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private session: { id: string; start: number } | null = null
+  private kioskId: string | null | undefined
+
+  // La sesión empieza con la primera interacción fuera del inicio: la pantalla de inicio sola
+  // (banners girando sin nadie enfrente) no cuenta como uso
+  track(data: AnalyticsEventData): void {
+    if (!config.analytics.enabled || typeof window === 'undefined') return
+    const path = window.location.pathname
+    if (isExcluded(path)) return
+    if (!this.session) {
+      if (data.type === 'page_view' && path === '/') return
+      this.session = { id: newSessionId(), start: Date.now() }
+    }
+    if (this.kioskId === undefined) this.kioskId = readKioskId()
+
+    this.queue.push({ ...data, ts: Date.now(), sessionId: this.session.id, kioskId: this.kioskId, path })
+    if (this.queue.length > config.analytics.maxQueue) {
+      this.queue.splice(0, this.queue.length - config.analytics.maxQueue)
+    }
+
+    if (this.queue.length >= config.analytics.batchSize) {
+      void this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), config.analytics.flushInterval)
+    }
+  }
+
+  // Cierra la sesión en curso (si la hay) y envía lo pendiente
+  endSession(reason: SessionEndReason): void {
+    if (!this.session) return
+    this.track({ type: 'session_end', reason, durationMs: Date.now() - this.session.start })
+    this.session = null
+    void this.flush()
+  }
+
+  // beacon: al cerrar o recargar la página, donde un fetch normal se cancela
+  async flush(beacon = false): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    if (this.sending || this.queue.length === 0) return
+
+    const batch = this.queue.splice(0, MAX_BATCH)
+    const body = JSON.stringify({ events: batch })
+
+    if (beacon && typeof navigator.sendBeacon === 'function') {
+      if (!navigator.sendBeacon(config.analytics.endpoint, new Blob([body], { type: 'application/json' }))) {
+        this.requeue(batch)
+      }
+      return
+    }
+
+    this.sending = true
+    try {
+      const response = await fetch(config.analytics.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+      })
+      // Solo se reintenta si el servidor falló: un lote rechazado (4xx) volvería a rechazarse
+      if (response.status >= 500) this.requeue(batch)
+    } catch {
+      this.requeue(batch)
+    } finally {
+      this.sending = false
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => void this.flush(), config.analytics.flushInterval)
+    }
+  }
+
+  private requeue(batch: AnalyticsEvent[]): void {
+    this.queue = [...batch, ...this.queue].slice(-config.analytics.maxQueue)
+  }
+}
+
+export const analytics = new AnalyticsService()
+
+// Resumen de los últimos `dias` días para /admin/estadisticas
+export function loadAnalyticsSummary(dias: number): Promise<ApiResponse<AnalyticsSummary | null>> {
+  return fetchJson(`${config.analytics.endpoint}?dias=${dias}`, analyticsSummarySchema)
+}
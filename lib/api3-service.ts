@@ -0,0 +1,74 @@
+// API Service para el middleware api3 (especialidades y médicos con agenda)
+// Todas las llamadas pasan por el proxy del mismo origen (/api/middleware), que
+// adjunta el token y reintenta con un token renovado cuando el middleware responde 401.
+import { config } from './config'
+import { HttpClient } from './http-client'
+import { doctorSchema, especialidadSchema, unwrapList } from './schemas'
+import type { ApiResponse, Doctor, Especialidad } from './types'
+
+const API3_CONFIG = {
+  BASE_URL: config.api.proxyUrl,
+  TIMEOUT: config.api.timeout,
+  DEFAULT_HEADERS: config.headers
+}
+
+class Api3Service extends HttpClient {
+  constructor() {
+    super({
+      baseURL: API3_CONFIG.BASE_URL,
+      timeout: API3_CONFIG.TIMEOUT,
+      defaultHeaders: API3_CONFIG.DEFAULT_HEADERS
+    })
+  }
+
+  // ===== ESPECIALIDADES =====
+  async getEspecialidadesAgenda(): Promise<ApiResponse<Especialidad[]>> {
+    return this.requestList('/especialidades/agenda', 'api3/especialidades/agenda', especialidadSchema)
+  }
+
+  async getEspecialidadById(especialidadId: string | number): Promise<ApiResponse<Especialidad | null>> {
+    return this.requestItem(
+      `/especialidades/${encodeURIComponent(especialidadId)}`,
+      'api3/especialidades/item',
+      especialidadSchema
+    )
+  }
+
+  // ===== MÉDICOS =====
+  async getMedicoAgenda(medicoId: string | number): Promise<ApiResponse<Doctor | null>> {
+    return this.requestItem(`/medico/agenda/${encodeURIComponent(medicoId)}`, 'api3/medico/agenda', doctorSchema)
+  }
+
+  async getMedicosPorEspecialidad(especialidadId: string | number): Promise<ApiResponse<Doctor[]>> {
+    return this.requestList(
+      `/medico/especialidad/${encodeURIComponent(especialidadId)}`,
+      'api3/medico/especialidad',
+      doctorSchema
+    )
+  }
+
+  async getMedicoAgenda2(medicoId: string | number): Promise<ApiResponse<Doctor | null>> {
+    return this.requestItem(`/medico/agenda2/${encodeURIComponent(medicoId)}`, 'api3/medico/agenda2/item', doctorSchema)
+  }
+
+  // /medico/agenda2 devuelve médicos completos o solo sus IDs; en ese caso se resuelve cada uno
+  async getMedicosAgenda2(): Promise<ApiResponse<Doctor[]>> {
+    const res = await this.request<unknown>('/medico/agenda2')
+    if (!res.success) {
+      return { data: [], success: false, message: res.message }
+    }
+
+    const list = unwrapList(res.data) ?? []
+    const isArrayOfIds = list.length > 0 && list.every((item) => typeof item === 'number')
+    if (!isArrayOfIds) {
+      return this.requestList('/medico/agenda2', 'api3/medico/agenda2', doctorSchema)
+    }
+
+    // Usar Promise.allSettled para tolerar errores individuales
+    const results = await Promise.allSettled(list.map((id) => this.getMedicoAgenda2(id as number)))
+    const doctors = results.flatMap((r) => (r.status === 'fulfilled' && r.value.data ? [r.value.data] : []))
+    return { data: doctors, success: true, snapshotAt: res.snapshotAt }
+  }
+}
+
+export const api3Service = new Api3Service()
@@ -1,15 +1,55 @@
+// Autenticación contra el middleware api3.
+// Este módulo solo se ejecuta en el servidor (route handlers de app/api/middleware):
+// las credenciales y los tokens nunca llegan al bundle del navegador.
 import axios from "axios"
 import { config } from "./config"
 import type { AuthTokens, AuthError } from "./types"
 
-// Variables de estado para los tokens
+// Variables de estado para los tokens (memoria del proceso del servidor)
 let accessToken = ''
 let refreshToken = ''
+// Expiración del access token en ms (claim "exp" del JWT); 0 si no se pudo leer
+let accessTokenExpiresAt = 0
+// Renovación en curso: las llamadas concurrentes esperan la misma promesa
+let pendingRenewal: Promise<void> | null = null
 
-// Función para obtener credenciales desde variables de entorno
+// Renovar el token este tiempo antes de que expire
+const REFRESH_MARGIN_MS = 60000 // 60 segundos
+
+// Lee el claim "exp" del payload del JWT sin validar la firma (solo para planificar el refresh)
+const decodeTokenExpiry = (token: string): number => {
+  try {
+    const payload = token.split('.')[1]
+    if (!payload) return 0
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=')
+    const { exp } = JSON.parse(atob(base64)) as { exp?: unknown }
+    return typeof exp === 'number' ? exp * 1000 : 0
+  } catch {
+    return 0
+  }
+}
+
+const setTokens = (tokens: AuthTokens): void => {
+  accessToken = tokens.accessToken
+  refreshToken = tokens.refreshToken
+  accessTokenExpiresAt = decodeTokenExpiry(tokens.accessToken)
+}
+
+// Un token sin "exp" legible se considera vigente; el reintento por 401 lo cubre
+const isTokenFresh = (): boolean => {
+  if (!accessToken) return false
+  if (!accessTokenExpiresAt) return true
+  return Date.now() < accessTokenExpiresAt - REFRESH_MARGIN_MS
+}
+
+// Función para obtener credenciales desde variables de entorno del servidor (sin prefijo NEXT_PUBLIC_)
 const getCredentials = (): { username: string; password: string } => {
-  const username = process.env.NEXT_PUBLIC_AUTH_USERNAME
-  const password = process.env.NEXT_PUBLIC_AUTH_PASSWORD
+  if (typeof window !== 'undefined') {
+    throw new Error('La autenticación solo está disponible en el servidor')
+  }
+
+  const username = process.env.AUTH_USERNAME
+  const password = process.env.AUTH_PASSWORD
   
   if (!username || !password) {
     throw new Error('Credenciales de autenticación no configuradas')
@@ -98,37 +138,71 @@ const refreshAuthToken = async (): Promise<AuthTokens> => {
   }
 }
 
-// Función principal para obtener el token de acceso
+// Renueva los tokens: refresh si hay refresh token, login si no o si el refresh falla.
+// Comparte una sola renovación en curso entre todos los llamadores.
+const renewTokens = (): Promise<void> => {
+  if (!pendingRenewal) {
+    pendingRenewal = (async () => {
+      try {
+        if (refreshToken) {
+          try {
+            setTokens(await refreshAuthToken())
+            return
+          } catch {
+            // Si falla el refresh, intentar login nuevamente
+          }
+        }
+        setTokens(await login())
+      } finally {
+        pendingRenewal = null
+      }
+    })()
+  }
+  return pendingRenewal
+}
+
+// Función principal para obtener el token de acceso (se renueva antes de expirar)
 export const getAccessToken = async (): Promise<string> => {
-  if (!accessToken) {
-    const tokens = await login()
-    accessToken = tokens.accessToken
-    refreshToken = tokens.refreshToken
+  if (!isTokenFresh()) {
+    await renewTokens()
   }
   return accessToken
 }
 
-// Función para refrescar el token de autenticación
-export const refreshAuthTokenPublic = async (): Promise<void> => {
-  try {
-    const tokens = await refreshAuthToken()
-    accessToken = tokens.accessToken
-    refreshToken = tokens.refreshToken
-  } catch (error) {
-    // Si falla el refresh, intentar login nuevamente
-    const tokens = await login()
-    accessToken = tokens.accessToken
-    refreshToken = tokens.refreshToken
-  }
+// Función para refrescar el token de autenticación.
+// Si se indica el token rechazado y ya fue reemplazado por otra llamada, no se renueva de nuevo.
+export const refreshAuthTokenPublic = async (rejectedToken?: string): Promise<void> => {
+  if (rejectedToken && accessToken && rejectedToken !== accessToken) return
+  await renewTokens()
+}
+
+// fetch con token Bearer: ante un 401 renueva el token una vez y reintenta
+export const fetchWithAuth = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const send = (token: string) =>
+    fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${token}`
+      }
+    })
+
+  const token = await getAccessToken()
+  const response = await send(token)
+  if (response.status !== 401) return response
+
+  await refreshAuthTokenPublic(token)
+  return send(await getAccessToken())
 }
 
 // Función para limpiar los tokens (útil para logout)
 export const clearAuthTokens = (): void => {
   accessToken = ''
   refreshToken = ''
+  accessTokenExpiresAt = 0
 }
 
-// Función para verificar si hay un token válido
+// Función para verificar si hay un token válido y no próximo a expirar
 export const hasValidToken = (): boolean => {
-  return Boolean(accessToken)
+  return isTokenFresh()
 }
@@ -0,0 +1,239 @@
+// Caché unificada del directorio.
+// Todos los datos pasan por aquí, separados en namespaces con su propio TTL (config.cache.namespaces):
+// - stale-while-revalidate: un dato vencido se sigue mostrando mientras se pide uno nuevo
+// - invalidación por versión: cambiar config.cache.version descarta lo guardado en localStorage
+// - límites de tamaño: maxEntries en memoria y maxBytes al persistir
+import { config } from './config'
+import { CACHE_KEYS, LEGACY_CACHE_KEYS } from './constants'
+import type { ApiResponse, CacheEntry, CacheNamespace, CacheNamespaceConfig } from './types'
+
+const STORAGE_KEYS: Record<CacheNamespace, string> = {
+  specialties: CACHE_KEYS.SPECIALTIES,
+  doctors: CACHE_KEYS.DOCTORS,
+  agendas: CACHE_KEYS.AGENDAS,
+  catalogs: CACHE_KEYS.CATALOGS,
+  http: CACHE_KEYS.HTTP,
+}
+
+interface PersistedNamespace {
+  version: string
+  entries: Record<string, CacheEntry<unknown>>
+}
+
+export interface CacheLookup<T> {
+  data: T
+  ts: number
+  fresh: boolean
+}
+
+class CacheManager {
+  private stores = new Map<CacheNamespace, Map<string, CacheEntry<unknown>>>()
+  private inFlight = new Map<string, Promise<ApiResponse<unknown>>>()
+  private listeners = new Map<string, Set<() => void>>()
+  private legacyPurged = false
+
+  private settings(namespace: CacheNamespace): CacheNamespaceConfig {
+    return config.cache.namespaces[namespace]
+  }
+
+  private storage(namespace: CacheNamespace): Storage | null {
+    if (!this.settings(namespace).persist || typeof window === 'undefined') return null
+    try {
+      return window.localStorage
+    } catch {
+      return null
+    }
+  }
+
+  private store(namespace: CacheNamespace): Map<string, CacheEntry<unknown>> {
+    let store = this.stores.get(namespace)
+    if (!store) {
+      store = this.hydrate(namespace)
+      this.stores.set(namespace, store)
+    }
+    return store
+  }
+
+  // Carga el namespace desde localStorage, descartándolo si es de otra versión
+  private hydrate(namespace: CacheNamespace): Map<string, CacheEntry<unknown>> {
+    const store = new Map<string, CacheEntry<unknown>>()
+    const storage = this.storage(namespace)
+    if (!storage) return store
+
+    if (!this.legacyPurged) {
+      this.legacyPurged = true
+      LEGACY_CACHE_KEYS.forEach((key) => {
+        try {
+          storage.removeItem(key)
+          window.sessionStorage.removeItem(key)
+        } catch {}
+      })
+    }
+
+    const storageKey = STORAGE_KEYS[namespace]
+    try {
+      const raw = storage.getItem(storageKey)
+      if (!raw) return store
+      const parsed = JSON.parse(raw) as PersistedNamespace
+      if (parsed?.version !== config.cache.version) {
+        storage.removeItem(storageKey)
+        return store
+      }
+      Object.entries(parsed.entries ?? {}).forEach(([key, entry]) => store.set(key, entry))
+    } catch {
+      try { storage.removeItem(storageKey) } catch {}
+    }
+    return store
+  }
+
+  // Guarda el namespace respetando maxBytes. Cada entrada se serializa una sola vez y se agregan de
+  // la más nueva a la más antigua mientras entren; las que solas superan el límite (p. ej. las agendas
+  // de todo el hospital) quedan solo en memoria sin desplazar a las demás
+  private persist(namespace: CacheNamespace): void {
+    const storage = this.storage(namespace)
+    if (!storage) return
+
+    const storageKey = STORAGE_KEYS[namespace]
+    const { maxBytes } = this.settings(namespace)
+    const header = `{"version":${JSON.stringify(config.cache.version)},"entries":{`
+    const footer = '}}'
+    const entries = Array.from(this.store(namespace).entries()).sort((a, b) => b[1].ts - a[1].ts)
+
+    const parts: string[] = []
+    let size = header.length + footer.length
+    for (const [key, entry] of entries) {
+      const part = `${JSON.stringify(key)}:${JSON.stringify(entry)}`
+      const added = part.length + (parts.length > 0 ? 1 : 0) // coma separadora
+      if (size + added > maxBytes) continue
+      parts.push(part)
+      size += added
+    }
+
+    // Cuota del navegador excedida: reintentar sin las entradas más antiguas
+    while (parts.length > 0) {
+      try {
+        storage.setItem(storageKey, `${header}${parts.join(',')}${footer}`)
+        return
+      } catch {
+        parts.pop()
+      }
+    }
+    try { storage.removeItem(storageKey) } catch {}
+  }
+
+  private notify(namespace: CacheNamespace, key?: string): void {
+    const prefix = `${namespace}:`
+    this.listeners.forEach((set, id) => {
+      if (key ? id === `${prefix}${key}` : id.startsWith(prefix)) set.forEach((listener) => listener())
+    })
+  }
+
+  // Devuelve la entrada si aún sirve (fresca o dentro de staleTtl); las vencidas se descartan
+  get<T>(namespace: CacheNamespace, key: string): CacheLookup<T> | null {
+    const store = this.store(namespace)
+    const entry = store.get(key)
+    if (!entry) return null
+
+    const { ttl, staleTtl } = this.settings(namespace)
+    const age = Date.now() - entry.ts
+    if (age >= ttl + staleTtl) {
+      store.delete(key)
+      return null
+    }
+    return { data: entry.data as T, ts: entry.ts, fresh: age < ttl }
+  }
+
+  set<T>(namespace: CacheNamespace, key: string, data: T): void {
+    const store = this.store(namespace)
+    store.delete(key)
+    store.set(key, { ts: Date.now(), data })
+
+    // Límite de entradas: el Map conserva orden de inserción, la primera es la más antigua
+    const { maxEntries } = this.settings(namespace)
+    while (store.size > maxEntries) {
+      const oldest = store.keys().next().value
+      if (oldest === undefined) break
+      store.delete(oldest)
+    }
+
+    this.persist(namespace)
+    this.notify(namespace, key)
+  }
+
+  // Invalida una clave o todo el namespace
+  invalidate(namespace: CacheNamespace, key?: string): void {
+    const store = this.store(namespace)
+    if (key) {
+      store.delete(key)
+    } else {
+      store.clear()
+    }
+    this.persist(namespace)
+    this.notify(namespace, key)
+  }
+
+  clear(): void {
+    (Object.keys(STORAGE_KEYS) as CacheNamespace[]).forEach((namespace) => this.invalidate(namespace))
+  }
+
+  // Stale-while-revalidate: fresco -> caché; vencido -> caché + revalidación en segundo plano;
+  // sin dato -> fetcher. Las llamadas simultáneas a la misma clave comparten la petición.
+  async fetch<T>(
+    namespace: CacheNamespace,
+    key: string,
+    fetcher: () => Promise<ApiResponse<T>>,
+    options: { force?: boolean } = {}
+  ): Promise<ApiResponse<T>> {
+    const cached = options.force ? null : this.get<T>(namespace, key)
+    if (cached) {
+      if (!cached.fresh) void this.revalidate(namespace, key, fetcher)
+      return { data: cached.data, success: true }
+    }
+    return this.revalidate(namespace, key, fetcher)
+  }
+
+  private revalidate<T>(
+    namespace: CacheNamespace,
+    key: string,
+    fetcher: () => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const id = `${namespace}:${key}`
+    const pending = this.inFlight.get(id)
+    if (pending) return pending as Promise<ApiResponse<T>>
+
+    const promise = fetcher()
+      .then((res) => {
+        // Los datos del snapshot offline no se cachean: se vuelve a intentar con el backend
+        if (res.success && res.snapshotAt == null) this.set(namespace, key, res.data)
+        return res
+      })
+      .catch((error): ApiResponse<T> => ({
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        data: null as any as T,
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }))
+      .finally(() => {
+        this.inFlight.delete(id)
+      })
+
+    this.inFlight.set(id, promise)
+    return promise
+  }
+
+  subscribe(namespace: CacheNamespace, key: string, listener: () => void): () => void {
+    const id = `${namespace}:${key}`
+    let set = this.listeners.get(id)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(id, set)
+    }
+    set.add(listener)
+    return () => {
+      set.delete(listener)
+      if (set.size === 0) this.listeners.delete(id)
+    }
+  }
+}
+
+export const cacheManager = new CacheManager()
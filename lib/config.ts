@@ -6,7 +6,12 @@ export const config = {
   // URLs de la API
   api: {
     baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://10.129.180.147:3001',
-    authUrl: process.env.NEXT_PUBLIC_AUTH_URL || 'http://10.129.180.166:36560/api3/v1',
+    // URL del middleware api3: solo se usa en el servidor (ver app/api/middleware)
+    authUrl: process.env.AUTH_URL || process.env.NEXT_PUBLIC_AUTH_URL || 'http://10.129.180.166:36560/api3/v1',
+    // Proxy del mismo origen que adjunta el token; es lo único que consume el navegador
+    proxyUrl: '/api/middleware',
+    // Agendas ya decodificadas para la página móvil del QR: el teléfono no alcanza baseUrl
+    movilUrl: '/api/movil',
     timeout: 30000, // 30 segundos
   },
   
@@ -18,18 +23,94 @@ export const config = {
     banner: process.env.NEXT_PUBLIC_BANNER_URL || 'http://horizon-html:35480/public/img_directorio/banner.png',
     hvqLogo: process.env.NEXT_PUBLIC_HVQ_LOGO_URL || '/images/hvq_2025_1.png',
   },
+
+  // Banners y videos por defecto; cada perfil de kiosco puede reemplazarlos
+  // (el service worker los precachea para modo offline)
+  media: {
+    banners: [
+      'http://horizon-html:35480/public/img_directorio/Banner_Kiosco_actual.png',
+      'http://horizon-html:35480/public/img_directorio/banner_2.png',
+      'http://horizon-html:35480/public/img_directorio/banner_3.png',
+    ],
+    qrVideo: 'http://horizon-html:35480/public/img_directorio/QR_Bless_Animado.mp4',
+    mapVideo: 'http://prd-hvq-desarrollos:8001/videos/video_cumbre.mp4',
+  },
   
-  // Configuración de caché
+  // Configuración de caché (lib/cache.ts)
+  // ttl: tiempo en que el dato se considera fresco
+  // staleTtl: tiempo adicional en que se muestra el dato viejo mientras se revalida en segundo plano
+  // maxEntries / maxBytes: límites de tamaño por namespace; persist: guardar en localStorage
   cache: {
-    specialties: 60000, // 60 segundos
-    api: 30000, // 30 segundos
+    version: process.env.NEXT_PUBLIC_CACHE_VERSION || '1', // subirla descarta todo lo guardado
+    namespaces: {
+      specialties: { ttl: 60000, staleTtl: 86400000, maxEntries: 100, maxBytes: 262144, persist: true }, // 60 s, 24 h
+      doctors: { ttl: 600000, staleTtl: 86400000, maxEntries: 100, maxBytes: 1048576, persist: true }, // 10 min, 24 h
+      agendas: { ttl: 300000, staleTtl: 86400000, maxEntries: 200, maxBytes: 1048576, persist: true }, // 5 min, 24 h
+      catalogs: { ttl: 3600000, staleTtl: 604800000, maxEntries: 50, maxBytes: 1048576, persist: true }, // 1 h, 7 días
+      http: { ttl: 30000, staleTtl: 0, maxEntries: 200, maxBytes: 0, persist: false }, // 30 s, solo memoria
+    },
   },
   
   // Configuración de la aplicación
   app: {
     title: 'hvq-dir',
     description: 'Directorio Edificio Bless',
-    idleTimeout: 30000, // 30 segundos
+    idleTimeout: 30000, // 30 segundos (por defecto; cada perfil de kiosco puede cambiarlo)
+    // Rutas que no vuelven al inicio por inactividad: el tablero desatendido del lobby, la
+    // página móvil del QR (se abre en el teléfono del paciente), la consola y los informes del personal
+    idleExcludedPaths: ['/ahora', '/movil', '/agendas', '/admin'],
+  },
+
+  // Planos de piso para orientación (formato en FLOOR_PLANS.md)
+  wayfinding: {
+    dataUrl: '/maps/floor-plans.json',
+  },
+
+  // Síntomas y zonas del cuerpo con sus especialidades sugeridas (formato en SYMPTOMS.md)
+  symptoms: {
+    dataUrl: '/symptoms/symptom-map.json',
+  },
+
+  // Perfiles de kiosco (formato en KIOSK_PROFILES.md). El perfil se elige por ?kiosco=<id>
+  // (queda guardado en el equipo), luego por el ID guardado y por último por NEXT_PUBLIC_KIOSK_ID
+  kiosk: {
+    profilesUrl: '/kiosks/profiles.json',
+    queryParam: 'kiosco',
+    id: process.env.NEXT_PUBLIC_KIOSK_ID || '',
+  },
+
+  // Código QR de la ficha del médico: abre en el teléfono del paciente una página con el horario
+  // semanal y un .ics. publicUrl es la dirección con la que los teléfonos llegan a esta app
+  // (si no se define, se usa la del propio kiosco)
+  handoff: {
+    path: '/movil',
+    publicUrl: process.env.NEXT_PUBLIC_PUBLIC_URL || '',
+  },
+
+  // Tablero "¿Quién atiende ahora?" (/ahora) para la TV del lobby
+  liveBoard: {
+    upcomingWindow: 60, // minutos: agendas que empiezan dentro de este margen
+    defaultSlotMinutes: 60, // duración asumida cuando la agenda no trae hora_fin
+    pageSize: 8, // filas por página
+    pageInterval: 15000, // 15 segundos por página
+    clockInterval: 30000, // recalcular "ahora" cada 30 segundos
+    refreshInterval: 300000, // recargar agendas cada 5 minutos
+  },
+
+  // Estadísticas de uso del kiosco (/admin/estadisticas). Los eventos se envían en lotes a
+  // endpoint y el servidor los guarda en ANALYTICS_DIR (por defecto .analytics/), un archivo por día.
+  // NEXT_PUBLIC_ANALYTICS=off las desactiva
+  analytics: {
+    enabled: process.env.NEXT_PUBLIC_ANALYTICS !== 'off',
+    endpoint: '/api/analytics',
+    batchSize: 20, // enviar en cuanto se juntan estos eventos
+    flushInterval: 10000, // o cada 10 segundos
+    maxQueue: 500, // eventos retenidos sin red; los más viejos se descartan
+    searchDebounce: 2000, // el término se registra cuando se deja de escribir
+    // Pantallas del personal y de otros dispositivos: no cuentan como uso del kiosco
+    excludedPaths: ['/admin', '/agendas', '/ahora', '/movil'],
+    retentionDays: 180,
+    topLimit: 10,
   },
   
   // Headers por defecto
@@ -56,14 +56,29 @@ export const DAY_CODE_MAP: Record<string, string> = {
 
 // Claves de caché
 export const CACHE_KEYS = {
-  SPECIALTIES: 'specialties_agenda_cache_v1',
-  DOCTORS: 'doctors_cache_v1',
-  AGENDAS: 'agendas_cache_v1',
-  CONSULTORIOS: 'consultorios_cache_v1',
-  EDIFICIOS: 'edificios_cache_v1',
-  DIAS: 'dias_cache_v1'
+  SPECIALTIES: 'hvq_cache_specialties',
+  DOCTORS: 'hvq_cache_doctors',
+  AGENDAS: 'hvq_cache_agendas',
+  CATALOGS: 'hvq_cache_catalogs',
+  HTTP: 'hvq_cache_http',
+  OFFLINE_SNAPSHOTS: 'hvq_offline_snapshots_v1'
 } as const
 
+// Identificador del perfil asignado a este kiosco (lib/kiosk-profile.ts)
+export const KIOSK_ID_STORAGE_KEY = 'hvq_kiosk_id'
+
+// Evento que IdleRedirect emite al volver al inicio por inactividad (idioma, accesibilidad, etc.)
+export const KIOSK_IDLE_EVENT = 'hvq:kiosk-idle'
+
+// Temas de next-themes (components/theme-provider.tsx); el alto contraste se activa desde el menú de accesibilidad
+export const THEMES = {
+  DEFAULT: 'light',
+  HIGH_CONTRAST: 'high-contrast'
+} as const
+
+// Claves de cachés anteriores a lib/cache.ts (se borran al iniciar)
+export const LEGACY_CACHE_KEYS = ['hvq_doctors_cache_v1', 'hvq_doctors_cache_v2', 'specialties_agenda_cache_v5'] as const
+
 // Patrones de regex
 export const REGEX_PATTERNS = {
   TIME_HHMM: /^(\d{2}):(\d{2})$/,
@@ -74,34 +89,6 @@ export const REGEX_PATTERNS = {
   DATE_ISO_FULL: /\b\d{4}-\d{2}-\d{2}T(\d{2}:\d{2})(?::\d{2})?(?:Z|[+-]\d{2}:?\d{2})?\b/
 } as const
 
-// Mensajes de error comunes
-export const ERROR_MESSAGES = {
-  NETWORK_ERROR: 'Error de conexión. Verifique su conexión a internet.',
-  TIMEOUT_ERROR: 'La operación tardó demasiado. Intente nuevamente.',
-  UNAUTHORIZED: 'No autorizado. Por favor, inicie sesión nuevamente.',
-  FORBIDDEN: 'Acceso denegado.',
-  NOT_FOUND: 'Recurso no encontrado.',
-  SERVER_ERROR: 'Error del servidor. Intente más tarde.',
-  UNKNOWN_ERROR: 'Error inesperado. Intente nuevamente.',
-  LOADING_SPECIALTIES: 'Error al cargar las especialidades. Intente nuevamente más tarde.',
-  LOADING_DOCTORS: 'Error al cargar los doctores. Intente nuevamente más tarde.',
-  LOADING_AGENDAS: 'Error al cargar las agendas. Intente nuevamente más tarde.',
-  SPECIALTY_NOT_FOUND: 'Especialidad no encontrada',
-  DOCTOR_NOT_FOUND: 'Médico no encontrado'
-} as const
-
-// Valores por defecto
-export const DEFAULT_VALUES = {
-  DOCTOR_NAME: 'Nombre no disponible',
-  SPECIALTY_NAME: 'Especialidad no disponible',
-  ROOM_NAME: 'No especificado',
-  BUILDING_NAME: 'No especificado',
-  FLOOR_NAME: 'No especificado',
-  EMPTY_MESSAGE: 'No se encontraron resultados.',
-  SEARCH_PLACEHOLDER: 'Buscar especialidad...',
-  DOCTOR_SEARCH_PLACEHOLDER: 'Buscar doctor...'
-} as const
-
 // Configuración de UI
 export const UI_CONFIG = {
   SCROLL_TOP_THRESHOLD: 200,
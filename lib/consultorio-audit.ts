@@ -0,0 +1,145 @@
+// Informe de consultorios para coordinación de agendas: dobles reservas y agendas cuyo consultorio,
+// edificio o piso no se resuelve con los catálogos. Usa el mismo índice que decodifica las agendas
+// (lib/agenda-index.ts), así lo que se marca aquí es lo que el kiosco no puede ubicar.
+import { detallarAgenda } from './agenda-index'
+import { config } from './config'
+import { normalizeDayKey, WEEK_DAYS } from './doctor-schedule'
+import { hhmmToMinutes } from './utils'
+import type {
+  Agenda,
+  AgendaDetallada,
+  AgendaIndex,
+  ConsultorioAudit,
+  ConsultorioFinding,
+  ConsultorioFindingKind
+} from './types'
+
+// Orden de las secciones del informe
+export const FINDING_KINDS: ConsultorioFindingKind[] = [
+  'doble-reserva',
+  'consultorio-desconocido',
+  'consultorio-sin-edificio',
+  'edificio-desconocido',
+  'piso-fuera-de-catalogo'
+]
+
+export const FINDING_LABELS: Record<ConsultorioFindingKind, { titulo: string; descripcion: string }> = {
+  'doble-reserva': {
+    titulo: 'Dobles reservas',
+    descripcion: 'Dos prestadores con horarios superpuestos en el mismo consultorio y el mismo día.'
+  },
+  'consultorio-desconocido': {
+    titulo: 'Consultorios desconocidos',
+    descripcion: 'Agendas cuyo codigo_consultorio no está en el catálogo de consultorios (o viene vacío).'
+  },
+  'consultorio-sin-edificio': {
+    titulo: 'Consultorios sin edificio',
+    descripcion: 'Consultorios del catálogo sin código de edificio: el kiosco no puede indicar dónde quedan.'
+  },
+  'edificio-desconocido': {
+    titulo: 'Edificios desconocidos',
+    descripcion: 'El edificio del consultorio no está en el catálogo de edificios.'
+  },
+  'piso-fuera-de-catalogo': {
+    titulo: 'Pisos fuera del catálogo',
+    descripcion: 'getPisosEdificio no trae el piso del consultorio para su edificio.'
+  }
+}
+
+type Base = Pick<ConsultorioFinding, 'consultorioCodigo' | 'consultorio' | 'edificioCodigo' | 'pisoCodigo'>
+
+const toHHmm = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+const dayOrder = (dia?: string) => {
+  const index = WEEK_DAYS.indexOf(normalizeDayKey(dia || ''))
+  return index === -1 ? WEEK_DAYS.length : index
+}
+
+// Tramo [inicio, fin) en minutos; sin hora_fin (o con una anterior al inicio) se asume la duración
+// por defecto del tablero
+function tramo(agenda: Agenda): [number, number] | null {
+  const inicio = hhmmToMinutes(agenda.hora_inicio)
+  if (inicio == null) return null
+  const fin = hhmmToMinutes(agenda.hora_fin)
+  return [inicio, fin != null && fin > inicio ? fin : inicio + config.liveBoard.defaultSlotMinutes]
+}
+
+// Pares de agendas de prestadores distintos que se superponen en el mismo día
+function doblesReservas(agendas: Agenda[], detalladas: AgendaDetallada[], base: Base): ConsultorioFinding[] {
+  const porDia = new Map<string, number[]>()
+  agendas.forEach((a, i) => {
+    const dia = a.codigo_dia.trim()
+    porDia.set(dia, [...(porDia.get(dia) ?? []), i])
+  })
+
+  const findings: ConsultorioFinding[] = []
+  porDia.forEach((indices) => {
+    indices.forEach((i, n) => {
+      const a = tramo(agendas[i])
+      if (!a) return
+      indices.slice(n + 1).forEach((j) => {
+        const b = tramo(agendas[j])
+        if (!b || agendas[i].codigo_prestador === agendas[j].codigo_prestador) return
+        if (a[0] >= b[1] || b[0] >= a[1]) return
+        findings.push({
+          kind: 'doble-reserva',
+          ...base,
+          dia: detalladas[i].diaNombre,
+          inicio: toHHmm(Math.max(a[0], b[0])),
+          fin: toHHmm(Math.min(a[1], b[1])),
+          agendas: [detalladas[i], detalladas[j]]
+        })
+      })
+    })
+  })
+  return findings
+}
+
+export function auditarConsultorios(agendas: Agenda[], index: AgendaIndex): ConsultorioAudit {
+  const porConsultorio = new Map<string, Agenda[]>()
+  agendas.forEach((a) => {
+    const codigo = (a.codigo_consultorio ?? '').trim()
+    porConsultorio.set(codigo, [...(porConsultorio.get(codigo) ?? []), a])
+  })
+
+  const findings: ConsultorioFinding[] = []
+  porConsultorio.forEach((lista, codigo) => {
+    const detalladas = lista.map((a) => detallarAgenda(a, index))
+    const consultorio = codigo ? index.consultorios[codigo] : undefined
+    const base: Base = {
+      consultorioCodigo: codigo,
+      consultorio: consultorio?.descripcion_consultorio || codigo,
+      edificioCodigo: consultorio?.codigo_edificio ?? '',
+      pisoCodigo: consultorio?.piso ?? ''
+    }
+    const add = (kind: ConsultorioFindingKind) => findings.push({ kind, ...base, agendas: detalladas })
+
+    if (!consultorio) {
+      add('consultorio-desconocido')
+    } else if (!base.edificioCodigo) {
+      add('consultorio-sin-edificio')
+    } else {
+      if (index.edificios[base.edificioCodigo] == null) add('edificio-desconocido')
+      // Un edificio sin pisos en el catálogo no aparece en index.pisos: todos sus pisos quedan fuera
+      if (base.pisoCodigo && index.pisos[base.edificioCodigo]?.[base.pisoCodigo] == null) add('piso-fuera-de-catalogo')
+    }
+
+    // Sin código no hay un consultorio físico que se pueda reservar dos veces
+    if (codigo) findings.push(...doblesReservas(lista, detalladas, base))
+  })
+
+  findings.sort(
+    (a, b) =>
+      FINDING_KINDS.indexOf(a.kind) - FINDING_KINDS.indexOf(b.kind) ||
+      a.consultorio.localeCompare(b.consultorio, 'es', { numeric: true }) ||
+      dayOrder(a.dia) - dayOrder(b.dia) ||
+      (a.inicio ?? '').localeCompare(b.inicio ?? '')
+  )
+
+  return {
+    findings,
+    totalAgendas: agendas.length,
+    totalConsultorios: [...porConsultorio.keys()].filter(Boolean).length
+  }
+}
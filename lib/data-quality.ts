@@ -0,0 +1,259 @@
+// Auditoría de calidad de datos del directorio (/admin/calidad): registros de médicos, especialidades,
+// agendas y catálogos con campos vacíos o inconsistentes, para corregirlos en el origen.
+import { DAY_CODE_MAP } from './constants'
+import { downloadBlob, hhmmToMinutes, toCsv } from './utils'
+import type {
+  Agenda,
+  AgendaIndex,
+  DataQualityIssue,
+  DataQualityIssueKind,
+  DataQualityReport,
+  DataQualitySource,
+  Doctor,
+  Especialidad,
+  ValidationReport
+} from './types'
+
+export interface DataQualityInput {
+  medicos: Doctor[]
+  especialidades: Especialidad[] // sin filtrar: las sin descripción también
+  agendas: Agenda[]
+  index: AgendaIndex
+  reports: ValidationReport[]
+}
+
+// Orden de las secciones del informe
+export const ISSUE_KINDS: DataQualityIssueKind[] = [
+  'registro-descartado',
+  'medico-sin-nombre',
+  'medico-sin-especialidades',
+  'especialidad-como-texto',
+  'medico-sin-retrato',
+  'retrato-roto',
+  'especialidad-sin-descripcion',
+  'especialidad-sin-piso',
+  'agenda-medico-desconocido',
+  'agenda-dia-desconocido',
+  'agenda-horario-invalido',
+  'catalogo-sin-descripcion'
+]
+
+export const ISSUE_LABELS: Record<DataQualityIssueKind, { titulo: string; descripcion: string }> = {
+  'registro-descartado': {
+    titulo: 'Registros descartados',
+    descripcion: 'No cumplen el formato esperado (lib/schemas.ts) y no se muestran en el kiosco.'
+  },
+  'medico-sin-nombre': {
+    titulo: 'Médicos sin nombre',
+    descripcion: 'El campo nombres llega vacío; el médico no aparece en el directorio.'
+  },
+  'medico-sin-especialidades': {
+    titulo: 'Médicos sin especialidades',
+    descripcion: 'No se pueden encontrar desde ninguna especialidad.'
+  },
+  'especialidad-como-texto': {
+    titulo: 'Especialidades como texto suelto',
+    descripcion: 'La especialidad del médico llegó como texto en lugar de objeto, o sin descripción: se muestra el código.'
+  },
+  'medico-sin-retrato': {
+    titulo: 'Médicos sin foto',
+    descripcion: 'Sin retrato: la ficha muestra el ícono genérico.'
+  },
+  'retrato-roto': {
+    titulo: 'Fotos que no cargan',
+    descripcion: 'El retrato apunta a una imagen que no existe o no responde.'
+  },
+  'especialidad-sin-descripcion': {
+    titulo: 'Especialidades sin descripción',
+    descripcion: 'Especialidades con agenda cuya descripción es nula; el kiosco las oculta.'
+  },
+  'especialidad-sin-piso': {
+    titulo: 'Especialidades sin piso',
+    descripcion: 'Sin piso no aparecen en la vista por piso ni en el ticket impreso.'
+  },
+  'agenda-medico-desconocido': {
+    titulo: 'Agendas de prestadores desconocidos',
+    descripcion: 'El codigo_prestador no corresponde a ningún médico del directorio.'
+  },
+  'agenda-dia-desconocido': {
+    titulo: 'Agendas con día desconocido',
+    descripcion: 'El codigo_dia no está en el catálogo de días; el horario no se puede ubicar en la semana.'
+  },
+  'agenda-horario-invalido': {
+    titulo: 'Agendas con horario inválido',
+    descripcion: 'La hora de fin es igual o anterior a la de inicio.'
+  },
+  'catalogo-sin-descripcion': {
+    titulo: 'Catálogos sin descripción',
+    descripcion: 'Consultorios, edificios, pisos o días sin nombre: el kiosco muestra el código.'
+  }
+}
+
+// Origen de cada reporte de validación de lib/http-client.ts que entra en la auditoría
+const REPORT_SOURCES: [string, DataQualitySource][] = [
+  ['medicos', 'medicos'],
+  ['api3/especialidades/agenda', 'especialidades'],
+  ['agnd-agenda', 'agendas'],
+  ['catalogos/', 'catalogos']
+]
+
+export const reportOrigen = (source: string): DataQualitySource | undefined =>
+  REPORT_SOURCES.find(([prefix]) => source === prefix || (prefix.endsWith('/') && source.startsWith(prefix)))?.[1]
+
+// Campos que identifican un registro crudo del backend
+const RAW_ID_KEYS = ['codigoPrestador', 'codigo_prestador', 'especialidadId', 'codigo', 'id', 'nombres', 'nombre', 'descripcion']
+
+function describeRaw(source: string, index: number, raw: unknown): string {
+  const fields =
+    raw && typeof raw === 'object'
+      ? RAW_ID_KEYS.map((key) => (raw as Record<string, unknown>)[key])
+          .filter((value) => value != null && String(value).trim() !== '')
+          .slice(0, 2)
+          .map(String)
+      : []
+  return [`${source} #${index + 1}`, ...fields].join(' · ')
+}
+
+const medicoLabel = (m: Doctor) => `${m.codigoPrestador} · ${m.nombres}`
+
+export function auditarDatos({ medicos, especialidades, agendas, index, reports }: DataQualityInput): DataQualityReport {
+  const issues: DataQualityIssue[] = []
+  const add = (kind: DataQualityIssueKind, origen: DataQualitySource, registro: string, detalle = '') =>
+    issues.push({ kind, origen, registro, detalle })
+
+  // Registros que el esquema rechazó (los médicos sin nombre se separan porque son los más comunes)
+  reports.forEach((report) => {
+    const origen = reportOrigen(report.source)
+    if (!origen) return
+    if (report.error) add('registro-descartado', origen, report.source, report.error)
+    report.invalid.forEach(({ index: i, issues: problemas, raw }) => {
+      const sinNombre = origen === 'medicos' && problemas.some((p) => p.startsWith('nombres'))
+      add(sinNombre ? 'medico-sin-nombre' : 'registro-descartado', origen, describeRaw(report.source, i, raw), problemas.join('; '))
+    })
+  })
+
+  medicos.forEach((m) => {
+    if (m.especialidades.length === 0) add('medico-sin-especialidades', 'medicos', medicoLabel(m))
+    const comoTexto = m.especialidades.filter((e) => e.descripcion === e.especialidadId)
+    if (comoTexto.length > 0) {
+      add('especialidad-como-texto', 'medicos', medicoLabel(m), comoTexto.map((e) => e.especialidadId).join(', '))
+    }
+    if (!m.retrato) add('medico-sin-retrato', 'medicos', medicoLabel(m))
+  })
+
+  especialidades.forEach((e) => {
+    const registro = `${e.especialidadId} · ${e.descripcion?.trim() || '(sin descripción)'}`
+    if (!e.descripcion?.trim()) add('especialidad-sin-descripcion', 'especialidades', registro)
+    if (!e.piso?.trim()) add('especialidad-sin-piso', 'especialidades', registro)
+  })
+
+  // Los prestadores desconocidos se agrupan: suelen tener muchas agendas cada uno
+  const desconocidos = new Map<string, number>()
+  agendas.forEach((a) => {
+    if (!index.medicos[a.codigo_prestador]) {
+      desconocidos.set(a.codigo_prestador, (desconocidos.get(a.codigo_prestador) ?? 0) + 1)
+    }
+    const registro = `Prestador ${a.codigo_prestador} · día ${a.codigo_dia} · ${a.hora_inicio}${a.codigo_consultorio ? ` · consultorio ${a.codigo_consultorio}` : ''}`
+    const dia = a.codigo_dia.trim()
+    if (!index.dias[dia] && !DAY_CODE_MAP[dia.toUpperCase()]) add('agenda-dia-desconocido', 'agendas', registro, `codigo_dia "${dia}"`)
+    const inicio = hhmmToMinutes(a.hora_inicio)
+    const fin = hhmmToMinutes(a.hora_fin)
+    if (inicio != null && fin != null && fin <= inicio) {
+      add('agenda-horario-invalido', 'agendas', registro, `${a.hora_inicio} - ${a.hora_fin}`)
+    }
+  })
+  desconocidos.forEach((total, prestador) =>
+    add('agenda-medico-desconocido', 'agendas', `Prestador ${prestador}`, `${total} ${total === 1 ? 'agenda' : 'agendas'}`)
+  )
+
+  Object.values(index.consultorios).forEach((c) => {
+    if (!c.descripcion_consultorio) add('catalogo-sin-descripcion', 'catalogos', `Consultorio ${c.codigo_consultorio}`)
+  })
+  Object.entries(index.edificios).forEach(([codigo, descripcion]) => {
+    if (!descripcion) add('catalogo-sin-descripcion', 'catalogos', `Edificio ${codigo}`)
+  })
+  Object.entries(index.pisos).forEach(([edificio, pisos]) => {
+    Object.entries(pisos).forEach(([piso, descripcion]) => {
+      if (!descripcion) add('catalogo-sin-descripcion', 'catalogos', `Piso ${piso} del edificio ${edificio}`)
+    })
+  })
+  Object.entries(index.dias).forEach(([codigo, nombre]) => {
+    if (!nombre) add('catalogo-sin-descripcion', 'catalogos', `Día ${codigo}`)
+  })
+
+  const catalogos =
+    Object.keys(index.consultorios).length +
+    Object.keys(index.edificios).length +
+    Object.values(index.pisos).reduce((sum, pisos) => sum + Object.keys(pisos).length, 0) +
+    Object.keys(index.dias).length
+  const descartados = (origen: DataQualitySource) =>
+    reports.filter((r) => reportOrigen(r.source) === origen).reduce((sum, r) => sum + r.invalid.length, 0)
+
+  return {
+    issues,
+    totales: {
+      medicos: medicos.length + descartados('medicos'),
+      especialidades: especialidades.length + descartados('especialidades'),
+      agendas: agendas.length + descartados('agendas'),
+      catalogos: catalogos + descartados('catalogos')
+    }
+  }
+}
+
+// ===== Fotos =====
+
+const PHOTO_CHECK_CONCURRENCY = 6
+const PHOTO_CHECK_TIMEOUT = 10000
+
+// Se carga como imagen (igual que en la ficha) para no depender de CORS
+function imageLoads(url: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    const timer = setTimeout(() => finish(false), PHOTO_CHECK_TIMEOUT)
+    const finish = (ok: boolean) => {
+      clearTimeout(timer)
+      img.onload = img.onerror = null
+      resolve(ok)
+    }
+    img.onload = () => finish(img.naturalWidth > 0)
+    img.onerror = () => finish(false)
+    img.src = url
+  })
+}
+
+// Fotos de los médicos que no cargan. Cada URL se prueba una vez, de a pocas a la vez.
+export async function verificarRetratos(
+  medicos: Doctor[],
+  onProgress?: (done: number, total: number) => void
+): Promise<DataQualityIssue[]> {
+  const porUrl = new Map<string, Doctor[]>()
+  medicos.forEach((m) => {
+    if (m.retrato) porUrl.set(m.retrato, [...(porUrl.get(m.retrato) ?? []), m])
+  })
+  const urls = [...porUrl.keys()]
+  const rotas: string[] = []
+  let next = 0
+  let done = 0
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++]
+      if (!(await imageLoads(url))) rotas.push(url)
+      onProgress?.(++done, urls.length)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(PHOTO_CHECK_CONCURRENCY, urls.length) }, worker))
+
+  return rotas.flatMap((url) =>
+    (porUrl.get(url) ?? []).map((m): DataQualityIssue => ({ kind: 'retrato-roto', origen: 'medicos', registro: medicoLabel(m), detalle: url }))
+  )
+}
+
+// ===== Informe descargable =====
+
+export function downloadReport(issues: DataQualityIssue[], fileName: string): void {
+  const ordenadas = [...issues].sort((a, b) => ISSUE_KINDS.indexOf(a.kind) - ISSUE_KINDS.indexOf(b.kind))
+  const rows = ordenadas.map((issue) => [ISSUE_LABELS[issue.kind].titulo, issue.origen, issue.registro, issue.detalle])
+  const csv = toCsv([['Problema', 'Origen', 'Registro', 'Detalle'], ...rows])
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`)
+}
@@ -0,0 +1,63 @@
+// Filtros de disponibilidad por día, franja (mañana/tarde) y tipo de agenda para el listado
+// de médicos de una especialidad. Cada médico se evalúa con sus agendas decodificadas.
+import { CONSULTA_TYPES } from './constants'
+import { WEEK_DAYS, isProcedure, normalizeDayKey } from './doctor-schedule'
+import { hhmmToMinutes } from './utils'
+import type { AgendaDetallada, AvailabilityCounts, AvailabilityFilter, TimeBand } from './types'
+
+export const EMPTY_AVAILABILITY_FILTER: AvailabilityFilter = { day: null, band: null, tipo: null }
+
+export const TIME_BANDS: TimeBand[] = ['morning', 'afternoon']
+
+// La tarde empieza a las 12:00 (minutos desde la medianoche)
+const NOON = 12 * 60
+
+export function isFilterActive(filter: AvailabilityFilter): boolean {
+  return filter.day !== null || filter.band !== null || filter.tipo !== null
+}
+
+// Una agenda que cruza el mediodía (10:00 - 14:00) cuenta para la mañana y para la tarde
+export function agendaTimeBands(agenda: AgendaDetallada): TimeBand[] {
+  const start = hhmmToMinutes(agenda.horaInicioHHmm)
+  if (start === null) return []
+  const end = hhmmToMinutes(agenda.horaFinHHmm)
+  const bands: TimeBand[] = []
+  if (start < NOON) bands.push('morning')
+  if (start >= NOON || (end !== null && end > NOON)) bands.push('afternoon')
+  return bands
+}
+
+// C/P del registro original; si no viene, se deduce del texto del tipo
+export function agendaTipo(agenda: AgendaDetallada): 'C' | 'P' {
+  if (agenda.tipo === CONSULTA_TYPES.CONSULTA || agenda.tipo === CONSULTA_TYPES.PROCEDIMIENTO) return agenda.tipo
+  return isProcedure(agenda.tipoTexto) ? CONSULTA_TYPES.PROCEDIMIENTO : CONSULTA_TYPES.CONSULTA
+}
+
+export function agendaMatches(agenda: AgendaDetallada, filter: AvailabilityFilter): boolean {
+  if (filter.day !== null && normalizeDayKey(agenda.diaNombre || '') !== filter.day) return false
+  if (filter.band !== null && !agendaTimeBands(agenda).includes(filter.band)) return false
+  if (filter.tipo !== null && agendaTipo(agenda) !== filter.tipo) return false
+  return true
+}
+
+// El médico cumple el filtro si al menos una de sus agendas lo cumple en todas las dimensiones
+export function doctorMatches(agendas: AgendaDetallada[], filter: AvailabilityFilter): boolean {
+  if (!isFilterActive(filter)) return true
+  return agendas.some((agenda) => agendaMatches(agenda, filter))
+}
+
+// Conteos para los chips: cuántos médicos quedarían al elegir cada opción
+export function countAvailability(doctorAgendas: AgendaDetallada[][], filter: AvailabilityFilter): AvailabilityCounts {
+  const count = (override: Partial<AvailabilityFilter>) => {
+    const next = { ...filter, ...override }
+    return doctorAgendas.filter((agendas) => agendas.some((agenda) => agendaMatches(agenda, next))).length
+  }
+  return {
+    day: Object.fromEntries(WEEK_DAYS.map((day) => [day, count({ day })])),
+    band: { morning: count({ band: 'morning' }), afternoon: count({ band: 'afternoon' }) },
+    tipo: {
+      [CONSULTA_TYPES.CONSULTA]: count({ tipo: CONSULTA_TYPES.CONSULTA }),
+      [CONSULTA_TYPES.PROCEDIMIENTO]: count({ tipo: CONSULTA_TYPES.PROCEDIMIENTO }),
+    },
+  }
+}
@@ -0,0 +1,85 @@
+// Horarios de un médico agrupados por día de la semana, a partir de las agendas decodificadas
+// (lib/agenda-index.ts). Los usan la ficha del kiosco y la página móvil del QR.
+import { CONSULTA_TYPES, CONSULTA_TYPE_LABELS } from './constants'
+import { extractHHmm, formatHHmmTo12h } from './utils'
+import type { Messages } from './messages/es'
+import type { AgendaDetallada, DoctorSchedule } from './types'
+
+// Claves de día de la ficha (las mismas de t.days en lib/messages)
+export const WEEK_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
+// Lunes a viernes: siempre tienen columna en las grillas semanales; sábado y domingo solo si hay horarios
+export const WORK_DAYS = WEEK_DAYS.slice(0, 5)
+
+const DAY_NAME_TO_KEY: Record<string, string> = {
+  lunes: 'monday',
+  martes: 'tuesday',
+  miércoles: 'wednesday',
+  miercoles: 'wednesday',
+  jueves: 'thursday',
+  viernes: 'friday',
+  sábado: 'saturday',
+  sabado: 'saturday',
+  domingo: 'sunday',
+}
+
+// "Lunes" -> "monday"; las claves en inglés se devuelven tal cual
+export function normalizeDayKey(nameOrKey: string): string {
+  const key = (nameOrKey || '').toLowerCase()
+  return DAY_NAME_TO_KEY[key] || key
+}
+
+export function isProcedure(tipo?: string): boolean {
+  return /(proced|qx|quir|cirug)/.test((tipo || '').toLowerCase())
+}
+
+export function isConsulta(tipo?: string): boolean {
+  return !isProcedure(tipo)
+}
+
+// El tipo llega en español desde lib/agenda-index.ts; se traduce solo si es una etiqueta conocida
+export function scheduleTypeLabel(tipo: string | undefined, t: Messages['doctor']): string {
+  if (tipo === CONSULTA_TYPE_LABELS[CONSULTA_TYPES.CONSULTA]) return t.consulta
+  if (tipo === CONSULTA_TYPE_LABELS[CONSULTA_TYPES.PROCEDIMIENTO]) return t.procedure
+  return tipo || t.scheduleFallback
+}
+
+// Día de la semana de Date#getDay (0 = domingo) para una clave de WEEK_DAYS
+export function weekDayNumber(dayKey: string): number {
+  return (WEEK_DAYS.indexOf(dayKey) + 1) % 7
+}
+
+export function groupSchedulesByDay(detalladas: AgendaDetallada[]): Record<string, DoctorSchedule[]> {
+  const schedules: Record<string, DoctorSchedule[]> = {}
+  detalladas.forEach((item) => {
+    const dayKey = normalizeDayKey(item.diaNombre || '')
+    if (!WEEK_DAYS.includes(dayKey)) return
+    const inicio = formatHHmmTo12h(item.horaInicioHHmm || '')
+    const fin = item.horaFinHHmm ? formatHHmmTo12h(item.horaFinHHmm) : ''
+
+    const entry: DoctorSchedule = {
+      time: fin ? `${inicio} - ${fin}` : inicio,
+      room: item.consultorioDescripcion || '',
+      building: item.edificioDescripcion || item.buildingCode || '',
+      floor: item.pisoDescripcion || undefined,
+      tipo: item.tipoTexto || undefined,
+      specialtyLabel: item.especialidad || undefined,
+      roomCode: item.consultorioCodigo,
+      buildingCode: item.buildingCode,
+      floorCode: item.pisoCodigo,
+      startHHmm: extractHHmm(item.horaInicioHHmm) || undefined,
+      endHHmm: extractHHmm(item.horaFinHHmm) || undefined,
+    }
+    ;(schedules[dayKey] ??= []).push(entry)
+  })
+  return schedules
+}
+
+// Nombre del edificio para mostrar: los códigos 1 y 2 tienen nombre propio
+export function getBuildingDisplayName(building: string | number | undefined, fallback: string): string {
+  if (!building) return fallback
+  const code = String(building).trim()
+  if (code === '1') return 'Principal'
+  if (code === '2') return 'Torre Bless'
+  return code
+}
@@ -0,0 +1,207 @@
+// Búsqueda de médicos tolerante a errores de tipeo: cada palabra de la búsqueda debe coincidir
+// (exacta, por prefijo, dentro de la palabra o con distancia de edición) con una palabra del
+// nombre o de alguna de las especialidades. El índice se arma una vez por lista de médicos.
+import type { Doctor, DoctorSearchResult, TextRange } from './types'
+
+interface IndexedToken {
+  text: string // normalizado
+  start: number // posición en el texto original
+}
+
+interface IndexedText {
+  tokens: IndexedToken[]
+}
+
+interface IndexedDoctor {
+  doctor: Doctor
+  name: IndexedText
+  specialties: Array<{ id: string; text: IndexedText }>
+}
+
+export type DoctorSearchIndex = IndexedDoctor[]
+
+// Palabras que no aportan a la búsqueda
+const STOP_WORDS = new Set(['dr', 'dra', 'doctor', 'doctora', 'de', 'del', 'la', 'las', 'los', 'el', 'y', 'en'])
+
+// Sinónimos y nombres populares de especialidades (normalizados, sin tildes)
+const SYNONYMS: Record<string, string> = {
+  pediatra: 'pediatria',
+  oculista: 'oftalmologia',
+  dentista: 'odontologia',
+  odontologo: 'odontologia',
+  ortopedista: 'traumatologia',
+  traumatologo: 'traumatologia',
+  siquiatra: 'psiquiatria',
+  psiquiatra: 'psiquiatria',
+  sicologo: 'psicologia',
+  psicologo: 'psicologia',
+  ginecologo: 'ginecologia',
+  obstetra: 'obstetricia',
+  cirujano: 'cirugia',
+  internista: 'interna',
+  otorrino: 'otorrinolaringologia',
+  nutricionista: 'nutricion',
+  fisiatra: 'fisiatria',
+  anestesiologo: 'anestesiologia',
+  kinesiologo: 'fisioterapia',
+}
+
+// Minúsculas sin tildes y con todo lo que no es letra o número convertido en espacio. Conserva el
+// largo del original (un carácter por carácter) para poder resaltar las coincidencias en pantalla.
+export function normalizeSearchText(value: string): string {
+  let out = ''
+  for (let i = 0; i < value.length; i++) {
+    const base = value[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()[0] ?? ' '
+    out += /[a-z0-9]/.test(base) ? base : ' '
+  }
+  return out
+}
+
+function indexText(value: string): IndexedText {
+  const tokens: IndexedToken[] = []
+  const normalized = normalizeSearchText(value)
+  for (const match of normalized.matchAll(/[a-z0-9]+/g)) {
+    tokens.push({ text: match[0], start: match.index ?? 0 })
+  }
+  return { tokens }
+}
+
+export function buildDoctorSearchIndex(doctors: Doctor[]): DoctorSearchIndex {
+  return doctors.map((doctor) => ({
+    doctor,
+    name: indexText(doctor.nombres),
+    specialties: doctor.especialidades.map((esp) => ({ id: esp.especialidadId, text: indexText(esp.descripcion) })),
+  }))
+}
+
+// "cardiologo" -> "cardiologia"; luego sinónimos populares
+function expandToken(token: string): string {
+  const synonym = SYNONYMS[token]
+  if (synonym) return synonym
+  return token.replace(/olog[oa]s?$/, 'ologia')
+}
+
+function queryTokens(query: string): string[] {
+  return normalizeSearchText(query)
+    .split(/\s+/)
+    .filter((token) => token && !STOP_WORDS.has(token))
+    .map(expandToken)
+}
+
+// Distancia de edición con transposiciones (Damerau, alineación óptima); corta al pasar `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let prevPrev: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1)
+      }
+      row.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    prevPrev = prev
+    prev = row
+  }
+  return prev[b.length]
+}
+
+// Errores de tipeo admitidos según el largo de la palabra buscada
+function allowedEdits(length: number): number {
+  if (length <= 3) return 0
+  if (length <= 6) return 1
+  return 2
+}
+
+interface TokenMatch {
+  score: number
+  range: TextRange
+}
+
+// Mejor coincidencia de una palabra buscada con una palabra indexada
+function matchToken(query: string, token: IndexedToken): TokenMatch | null {
+  const { text, start } = token
+  if (text === query) return { score: 1, range: { start, end: start + text.length } }
+  if (text.startsWith(query)) return { score: 0.9, range: { start, end: start + query.length } }
+  if (query.length >= 3) {
+    const index = text.indexOf(query)
+    if (index >= 0) return { score: 0.7, range: { start: start + index, end: start + index + query.length } }
+  }
+
+  const max = allowedEdits(query.length)
+  if (max === 0) return null
+  const whole = editDistance(query, text, max)
+  if (whole <= max) return { score: 0.65 - whole * 0.1, range: { start, end: start + text.length } }
+  // Palabra a medio escribir con un error: se compara con el inicio de la palabra indexada
+  if (text.length > query.length) {
+    const prefix = editDistance(query, text.slice(0, query.length), max)
+    if (prefix <= max) return { score: 0.55 - prefix * 0.1, range: { start, end: start + query.length } }
+  }
+  return null
+}
+
+function bestMatch(query: string, text: IndexedText): TokenMatch | null {
+  let best: TokenMatch | null = null
+  for (const token of text.tokens) {
+    const match = matchToken(query, token)
+    if (match && (!best || match.score > best.score)) best = match
+  }
+  return best
+}
+
+// Las coincidencias en el nombre pesan más que en la especialidad
+const SPECIALTY_WEIGHT = 0.8
+
+// Resultados ordenados por relevancia y luego por nombre; todas las palabras deben coincidir
+export function searchDoctors(index: DoctorSearchIndex, query: string): DoctorSearchResult[] {
+  const tokens = queryTokens(query)
+  if (tokens.length === 0) return []
+  const collator = new Intl.Collator('es', { sensitivity: 'base' })
+  const results: DoctorSearchResult[] = []
+
+  for (const entry of index) {
+    let score = 0
+    const nameRanges: TextRange[] = []
+    const specialtyRanges: Record<string, TextRange[]> = {}
+    const specialtyHits: Record<string, number> = {}
+    let matchedAll = true
+
+    for (const token of tokens) {
+      const nameMatch = bestMatch(token, entry.name)
+      let specialtyMatch: { id: string; match: TokenMatch } | null = null
+      for (const specialty of entry.specialties) {
+        const match = bestMatch(token, specialty.text)
+        if (match && (!specialtyMatch || match.score > specialtyMatch.match.score)) {
+          specialtyMatch = { id: specialty.id, match }
+        }
+      }
+
+      const nameScore = nameMatch?.score ?? 0
+      const specialtyScore = (specialtyMatch?.match.score ?? 0) * SPECIALTY_WEIGHT
+      if (!nameMatch && !specialtyMatch) {
+        matchedAll = false
+        break
+      }
+      if (nameMatch && nameScore >= specialtyScore) {
+        score += nameScore
+        nameRanges.push(nameMatch.range)
+      } else if (specialtyMatch) {
+        score += specialtyScore
+        ;(specialtyRanges[specialtyMatch.id] ??= []).push(specialtyMatch.match.range)
+        specialtyHits[specialtyMatch.id] = (specialtyHits[specialtyMatch.id] ?? 0) + 1
+      }
+    }
+    if (!matchedAll) continue
+
+    const matchedSpecialtyId = Object.entries(specialtyHits).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+    results.push({ doctor: entry.doctor, score, nameRanges, specialtyRanges, matchedSpecialtyId })
+  }
+
+  return results.sort((a, b) => b.score - a.score || collator.compare(a.doctor.nombres, b.doctor.nombres))
+}
@@ -0,0 +1,191 @@
+// Cliente HTTP base compartido por los servicios de API
+// Maneja timeout, señal de cancelación externa, caché de GETs (namespace "http" de lib/cache.ts),
+// validación de listas y el snapshot offline (IndexedDB) que se sirve cuando el backend no responde.
+import type { z } from 'zod'
+import { cacheManager } from './cache'
+import { loadSnapshot, reportSnapshotUsage, saveSnapshot } from './offline-store'
+import { formatIssues, parseList } from './schemas'
+import type { ApiResponse, ValidationReport } from './types'
+
+export interface HttpClientOptions {
+  baseURL: string
+  timeout: number
+  defaultHeaders: Record<string, string>
+}
+
+export class HttpClient {
+  protected baseURL: string
+  protected options: HttpClientOptions
+  private validationReports: Map<string, ValidationReport>
+
+  constructor(options: HttpClientOptions) {
+    this.options = options
+    this.baseURL = options.baseURL
+    this.validationReports = new Map()
+  }
+
+  // Método helper para hacer requests al backend
+  protected async request<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
+    const url = `${this.baseURL}${endpoint}`
+    const config: RequestInit = {
+      headers: {
+        ...this.options.defaultHeaders,
+        ...options.headers
+      },
+      ...options
+    }
+
+    // Cache GET simples (TTL del namespace "http")
+    const isGet = !config.method || config.method.toUpperCase() === 'GET'
+    const cacheKey = `${config.method || 'GET'}:${url}`
+
+    try {
+      if (isGet) {
+        const cached = cacheManager.get<T>('http', cacheKey)
+        if (cached?.fresh) {
+          return { data: cached.data, success: true }
+        }
+      }
+
+      // Combinar señal externa (si existe) con timeout local
+      const controller = new AbortController()
+      const externalSignal = options.signal
+      const onExternalAbort = () => {
+        try { controller.abort((externalSignal as any)?.reason) } catch {}
+      }
+      if (externalSignal) {
+        if (externalSignal.aborted) {
+          onExternalAbort()
+        } else {
+          externalSignal.addEventListener('abort', onExternalAbort)
+        }
+      }
+      const timeoutId = setTimeout(() => controller.abort(new DOMException('timeout','AbortError')), this.options.timeout)
+
+      const response = await fetch(url, {
+        ...config,
+        signal: controller.signal
+      })
+
+      clearTimeout(timeoutId)
+      if (externalSignal) externalSignal.removeEventListener('abort', onExternalAbort)
+
+      if (!response.ok) {
+        // No lanzar excepción: devolver un objeto de error controlado
+        const errorData = await response
+          .json()
+          .catch(async () => ({ message: await response.text().catch(() => '') }))
+
+        const failure: ApiResponse<T> = {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          data: null as any as T,
+          success: false,
+          message: (errorData as any)?.message || `HTTP error ${response.status}`,
+        }
+        // 5xx: backend (o middleware detrás del proxy) caído -> usar snapshot offline
+        return isGet && response.status >= 500 ? this.fromSnapshot(url, failure) : failure
+      }
+
+      // Intentar parsear JSON; si falla, devolver texto como data
+      let data: unknown
+      try {
+        data = await response.json()
+      } catch {
+        data = await response.text().catch(() => null)
+      }
+      
+      const ok: ApiResponse<T> = { data: data as T, success: true }
+      if (isGet) {
+        cacheManager.set('http', cacheKey, data)
+        void saveSnapshot(url, data)
+      }
+      return ok
+    } catch (error) {
+      const failure: ApiResponse<T> = {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        data: null as any as T,
+        success: false,
+        message: error instanceof Error && error.name === 'AbortError'
+          ? 'Request timeout'
+          : (error instanceof Error ? error.message : 'Unknown error')
+      }
+
+      // Sin red o timeout: usar snapshot offline (salvo que la llamada se haya cancelado desde afuera)
+      return isGet && !options.signal?.aborted ? this.fromSnapshot(url, failure) : failure
+    }
+  }
+
+  // Devuelve el último snapshot bueno de la URL, o el error original si no hay snapshot
+  private async fromSnapshot<T>(url: string, failure: ApiResponse<T>): Promise<ApiResponse<T>> {
+    const snapshot = await loadSnapshot<T>(url)
+    if (!snapshot) return failure
+    reportSnapshotUsage(snapshot.savedAt)
+    return { data: snapshot.data, success: true, message: failure.message, snapshotAt: snapshot.savedAt }
+  }
+
+  // Valida una lista del backend y guarda el reporte de validación por origen
+  protected async requestList<T>(
+    endpoint: string,
+    source: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T[]>> {
+    const res = await this.request<unknown>(endpoint, options)
+    if (!res.success) {
+      return { data: [], success: false, message: res.message }
+    }
+    const { items, report } = parseList(source, schema, res.data)
+    this.validationReports.set(source, report)
+    return { data: items, success: !report.error, message: report.error, snapshotAt: res.snapshotAt }
+  }
+
+  // Valida un único registro (puede venir envuelto en { data }) y guarda su reporte
+  protected async requestItem<T>(
+    endpoint: string,
+    source: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T | null>> {
+    const res = await this.request<unknown>(endpoint, options)
+    if (!res.success) {
+      return { data: null, success: false, message: res.message }
+    }
+    const raw = Array.isArray(res.data) ? res.data : ((res.data as { data?: unknown } | null)?.data ?? res.data)
+    const { items, report } = parseList(source, schema, Array.isArray(raw) ? raw.slice(0, 1) : [raw])
+    this.validationReports.set(source, report)
+    if (items.length === 0) {
+      return { data: null, success: false, message: report.invalid[0]?.issues.join('; ') || report.error }
+    }
+    return { data: items[0], success: true, snapshotAt: res.snapshotAt }
+  }
+
+  // Reportes de la última validación de cada origen (para diagnóstico)
+  getValidationReports(): ValidationReport[] {
+    return Array.from(this.validationReports.values())
+  }
+
+  // Limpia la caché de respuestas HTTP (p. ej. al forzar una recarga)
+  clearCache(): void {
+    cacheManager.invalidate('http')
+  }
+}
+
+// Archivo JSON del mismo origen (planos, perfiles de kiosco, mapa de síntomas, estadísticas)
+// validado contra su esquema. Sin caché ni snapshot: de eso se encargan lib/cache.ts y el service worker
+export async function fetchJson<T>(url: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<ApiResponse<T | null>> {
+  try {
+    const response = await fetch(url, { cache: 'no-store' })
+    if (!response.ok) {
+      return { data: null, success: false, message: `HTTP error ${response.status}` }
+    }
+    const result = schema.safeParse(await response.json())
+    if (!result.success) {
+      const issues = formatIssues(result.error)
+      console.warn(`[schemas] ${url} inválido:`, issues)
+      return { data: null, success: false, message: issues[0] }
+    }
+    return { data: result.data, success: true }
+  } catch (error) {
+    return { data: null, success: false, message: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
@@ -0,0 +1,70 @@
+// Textos e idioma del kiosco. Los catálogos están en lib/messages/; el español es el idioma
+// por defecto y el kiosco vuelve a él por inactividad (components/i18n-provider.tsx).
+import { en } from './messages/en'
+import { es, type Messages } from './messages/es'
+import type { Locale } from './types'
+
+export type { Messages }
+
+export const DEFAULT_LOCALE: Locale = 'es'
+
+export const LOCALES: Record<Locale, { label: string; intl: string }> = {
+  es: { label: 'ES', intl: 'es-EC' },
+  en: { label: 'EN', intl: 'en-US' },
+}
+
+export const messages: Record<Locale, Messages> = { es, en }
+
+// Fecha larga: "miércoles, 21 de mayo de 2025" / "Wednesday, May 21, 2025"
+export function formatLongDate(date: Date, locale: Locale): string {
+  return date.toLocaleDateString(LOCALES[locale].intl, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  })
+}
+
+// Fecha corta para el header compacto: "mié, 21 may 2025" / "Wed, May 21, 2025"
+export function formatShortDate(date: Date, locale: Locale): string {
+  return date.toLocaleDateString(LOCALES[locale].intl, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
+export function formatDateTime(date: Date, locale: Locale): string {
+  return date.toLocaleString(LOCALES[locale].intl, {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// Hora "HH:mm" como se dice en voz alta: "8", "14:30" / "8 AM", "2:30 PM"
+export function formatSpokenTime(hhmm: string, locale: Locale): string {
+  const match = hhmm.match(/^(\d{1,2}):(\d{2})/)
+  if (!match) return hhmm
+  const hours = parseInt(match[1], 10)
+  const minutes = match[2]
+  if (locale === 'es') return minutes === '00' ? String(hours) : `${hours}:${minutes}`
+  return new Date(2000, 0, 1, hours, parseInt(minutes, 10)).toLocaleTimeString(LOCALES[locale].intl, {
+    hour: 'numeric',
+    minute: minutes === '00' ? undefined : '2-digit',
+    hour12: true,
+  })
+}
+
+// Hora en 12 h: "9:52 a. m." / "9:52 AM" (opcionalmente con segundos)
+export function formatClock(date: Date, locale: Locale, withSeconds = false): string {
+  return date.toLocaleTimeString(LOCALES[locale].intl, {
+    hour: 'numeric',
+    minute: '2-digit',
+    second: withSeconds ? '2-digit' : undefined,
+    hour12: true,
+  })
+}
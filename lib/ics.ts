@@ -0,0 +1,109 @@
+// Archivo iCalendar (.ics) con los horarios semanales de un médico, para la página móvil del QR.
+// Las horas son del hospital (Quito): se escriben con TZID y su VTIMEZONE, así el calendario las
+// muestra bien aunque el teléfono esté en otra zona horaria.
+import { downloadBlob } from './utils'
+import type { IcsWeeklyEvent } from './types'
+
+const PRODID = '-//Hospital Vozandes Quito//Directorio Medico//ES'
+const DEFAULT_DURATION_MINUTES = 60
+
+// Ecuador continental: UTC-5 todo el año, sin horario de verano
+const TZID = 'America/Guayaquil'
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TZID}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:-0500',
+  'TZOFFSETTO:-0500',
+  'TZNAME:-05',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+]
+
+// Texto escapado según RFC 5545 (\ ; , y saltos de línea)
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// Líneas de más de 75 caracteres se continúan con un espacio al inicio
+function foldLine(line: string): string {
+  if (line.length <= 75) return line
+  const parts: string[] = []
+  for (let i = 0; i < line.length; i += 74) parts.push(line.slice(i, i + 74))
+  return parts.join('\r\n ')
+}
+
+// 20261020T130000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// 20261020T080000 (hora local de TZID; la fecha se lleva en los campos UTC de Date)
+function formatLocal(date: Date): string {
+  return formatUtc(date).slice(0, -1)
+}
+
+// Fecha de hoy en Quito, sin importar la zona horaria del teléfono
+function hospitalToday(now: Date): Date {
+  const [year, month, day] = new Intl.DateTimeFormat('en-CA', { timeZone: TZID }).format(now).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function parseHHmm(hhmm: string): [number, number] | null {
+  const match = hhmm.match(/^(\d{1,2}):(\d{2})/)
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : null
+}
+
+// Próxima fecha (hoy incluido) que cae en el día de la semana indicado, a la hora dada
+function nextOccurrence(weekday: number, [hours, minutes]: [number, number], today: Date): Date {
+  const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate(), hours, minutes))
+  date.setUTCDate(date.getUTCDate() + ((weekday - date.getUTCDay() + 7) % 7))
+  return date
+}
+
+export function buildWeeklyIcs(events: IcsWeeklyEvent[], calendarName: string, now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...VTIMEZONE,
+  ]
+  const today = hospitalToday(now)
+
+  events.forEach((event) => {
+    const start = parseHHmm(event.startHHmm)
+    if (!start) return
+    const startDate = nextOccurrence(event.weekday, start, today)
+    const end = event.endHHmm ? parseHHmm(event.endHHmm) : null
+    let endDate = end
+      ? new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate(), end[0], end[1]))
+      : null
+    if (!endDate || endDate <= startDate) endDate = new Date(startDate.getTime() + DEFAULT_DURATION_MINUTES * 60000)
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART;TZID=${TZID}:${formatLocal(startDate)}`,
+      `DTEND;TZID=${TZID}:${formatLocal(endDate)}`,
+      'RRULE:FREQ=WEEKLY',
+      `SUMMARY:${escapeText(event.title)}`,
+    )
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    lines.push('END:VEVENT')
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// Descarga el calendario en el navegador (en el teléfono abre la app de calendario)
+export function downloadIcs(content: string, fileName: string): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' })
+  downloadBlob(blob, fileName.endsWith('.ics') ? fileName : `${fileName}.ics`)
+}
@@ -0,0 +1,80 @@
+// Perfiles de kiosco: ubicación física, inactividad, banners, videos, edificio predeterminado e impresora.
+// Los perfiles vienen de public/kiosks/profiles.json (formato en KIOSK_PROFILES.md).
+import { config } from './config'
+import { KIOSK_ID_STORAGE_KEY } from './constants'
+import { fetchJson } from './http-client'
+import { kioskProfilesSchema } from './schemas'
+import type { ApiResponse, KioskLocation, KioskProfile, KioskProfilesFile } from './types'
+
+// Perfil usado mientras cargan los perfiles o si el kiosco no tiene uno asignado
+export const DEFAULT_KIOSK_PROFILE: KioskProfile = {
+  id: 'predeterminado',
+  nombre: 'Kiosco',
+  ubicacion: null,
+  idleTimeout: config.app.idleTimeout,
+  banners: [...config.media.banners],
+  videos: [config.media.qrVideo],
+  videoMapa: config.media.mapVideo,
+  edificioPredeterminado: null,
+  impresora: null,
+}
+
+export function loadKioskProfiles(): Promise<ApiResponse<KioskProfilesFile | null>> {
+  return fetchJson(config.kiosk.profilesUrl, kioskProfilesSchema)
+}
+
+// ID del kiosco en este equipo: ?kiosco=<id> (se guarda en localStorage para las siguientes
+// visitas), luego el ID guardado y por último NEXT_PUBLIC_KIOSK_ID. Solo en el cliente.
+export function readKioskId(): string | null {
+  const fromUrl = new URLSearchParams(window.location.search).get(config.kiosk.queryParam)?.trim()
+  try {
+    if (fromUrl) {
+      localStorage.setItem(KIOSK_ID_STORAGE_KEY, fromUrl)
+      return fromUrl
+    }
+    const stored = localStorage.getItem(KIOSK_ID_STORAGE_KEY)
+    if (stored) return stored
+  } catch {
+    // Sin localStorage (modo privado): solo URL y variable de entorno
+    if (fromUrl) return fromUrl
+  }
+  return config.kiosk.id || null
+}
+
+// Combina el perfil elegido (o el predeterminado del archivo) con los valores por defecto
+export function resolveKioskProfile(file: KioskProfilesFile | null, kioskId: string | null): KioskProfile {
+  if (!file) return DEFAULT_KIOSK_PROFILE
+
+  const id = kioskId && file.perfiles[kioskId] ? kioskId : file.predeterminado
+  if (kioskId && id !== kioskId) {
+    console.warn(`[kiosco] Perfil "${kioskId}" no existe; se usa "${id ?? DEFAULT_KIOSK_PROFILE.id}"`)
+  }
+  if (!id) return DEFAULT_KIOSK_PROFILE
+  const perfil = file.perfiles[id]
+
+  return {
+    id,
+    nombre: perfil.nombre ?? id,
+    ubicacion: perfil.ubicacion ?? null,
+    idleTimeout: perfil.idleTimeout ?? DEFAULT_KIOSK_PROFILE.idleTimeout,
+    banners: perfil.banners ?? DEFAULT_KIOSK_PROFILE.banners,
+    videos: perfil.videos ?? DEFAULT_KIOSK_PROFILE.videos,
+    videoMapa: perfil.videoMapa ?? DEFAULT_KIOSK_PROFILE.videoMapa,
+    edificioPredeterminado: perfil.edificioPredeterminado ?? null,
+    impresora: perfil.impresora ?? null,
+  }
+}
+
+// Cercanía de un consultorio al kiosco para ordenar "lo más cercano primero":
+// 0 mismo piso, 1..n pisos de diferencia en el mismo edificio, luego otros edificios y sin ubicación
+export function kioskDistance(
+  kiosk: KioskLocation | null,
+  target: { buildingCode?: string; pisoCodigo?: string }
+): number {
+  if (!kiosk || !target.buildingCode) return 1000
+  if (target.buildingCode !== kiosk.buildingCode) return 100
+  if (!target.pisoCodigo) return 50
+  if (target.pisoCodigo === kiosk.piso) return 0
+  const diff = Math.abs(Number(target.pisoCodigo) - Number(kiosk.piso))
+  return Number.isFinite(diff) ? Math.min(diff, 49) : 1
+}
@@ -0,0 +1,247 @@
+// English catalog (same keys as lib/messages/es.ts)
+import type { Messages } from './es'
+import type { SpokenSchedule } from '../types'
+
+export const en: Messages = {
+  common: {
+    back: 'Back',
+    goBack: 'Go back',
+    home: 'Home',
+    welcome: 'Welcome',
+    retry: 'Try again',
+    error: 'Error',
+    loading: 'Loading',
+    scrollTop: 'Back to top',
+    language: 'Language',
+    videoUnsupported: 'Your browser does not support the video element.',
+    page: (page: number, total: number) => `Page ${page} of ${total}`,
+  },
+  home: {
+    start: 'Start here',
+    buildingAlt: 'Medical building',
+    bannerAlt: 'Find your specialist in our Medical Directory',
+  },
+  selection: {
+    title: 'How would you like to search?',
+    bySpecialty: 'Search by Specialty',
+    byDoctor: 'Search by Doctor',
+    bySymptom: 'Search by symptom or body part',
+  },
+  specialties: {
+    title: 'Medical Specialties',
+    searchPlaceholder: 'Search specialty...',
+    empty: 'No specialties found.',
+    prompt: 'Start typing to search for a specialty.',
+    unnamed: 'Unnamed specialty',
+    iconAlt: (name: string) => `${name} icon`,
+    doctorsTitle: (name: string) => `DOCTORS IN  ${name}`,
+    doctorsIn: (name: string) => `Doctors in ${name}`,
+    thisSpecialty: 'this specialty',
+    noDoctors: 'No doctors found for this specialty.',
+    viewLabel: 'List view',
+    viewAlphabetical: 'A–Z',
+    viewByFloor: 'By floor',
+    letterIndex: 'Alphabetical index',
+    goToLetter: (letter: string) => `Go to letter ${letter}`,
+    floorsLabel: 'Building floors',
+    noFloor: 'No floor assigned',
+    floorCount: (n: number) => `${n} ${n !== 1 ? 'specialties' : 'specialty'}`,
+    floorTitle: (floor: string) => `Specialties on ${floor}`,
+    chooseFloor: 'Tap a floor to see its specialties.',
+  },
+  doctorSearch: {
+    title: 'Search Doctor by Name',
+    placeholder: "Type the doctor's name...",
+    keyboardPlaceholder: "Search by doctor's name",
+    empty: 'No doctors found with that name.',
+    none: 'There are no doctors to show.',
+    first: '⏮ First',
+    previous: '← Previous',
+    next: 'Next →',
+    last: 'Last ⏭',
+    firstLabel: 'Go to first page',
+    previousLabel: 'Previous page',
+    nextLabel: 'Next page',
+    lastLabel: 'Go to last page',
+  },
+  timetable: {
+    label: 'Weekly schedule',
+    viewDays: 'By day',
+    viewWeek: 'Full week',
+    overlap: 'Overlapping schedules',
+  },
+  availability: {
+    day: 'Day',
+    band: 'Time',
+    tipo: 'Type',
+    morning: 'Morning',
+    afternoon: 'Afternoon',
+    clear: 'Clear filters',
+    chipLabel: (label: string, n: number) => `${label}: ${n} doctor${n !== 1 ? 's' : ''}`,
+    showing: (n: number, total: number) => `${n} of ${total} doctors`,
+    noMatches: 'No doctors match these filters. Try removing one.',
+  },
+  symptoms: {
+    title: 'What is bothering you?',
+    hint: 'Tap the part of the body or type the symptom',
+    diagramLabel: 'Body parts',
+    otherZones: 'Other',
+    placeholder: 'Type a symptom...',
+    keyboardPlaceholder: 'Search by symptom',
+    symptomsTitle: 'Symptoms',
+    suggestionsTitle: 'Suggested specialties',
+    forSymptoms: (list: string) => `For: ${list}`,
+    noMatches: 'We could not find that symptom. Try other words or tap a part of the body.',
+    noSpecialties: 'No specialists with schedules for this selection. Please ask at Information.',
+    disclaimer: 'This guide is for orientation only and does not replace a medical evaluation. In an emergency, go to the Emergency Room.',
+    loadError: 'The symptom guide could not be loaded.',
+    unavailable: 'Symptom search is not available yet.',
+  },
+  doctor: {
+    title: (name: string) => `Dr. ${name}`,
+    photoAlt: (name: string) => `Photo of Dr. ${name}`,
+    cardPhotoAlt: (name: string) => `Photo of ${name}`,
+    loadError: 'Could not load the information',
+    daysAvailable: (n: number) => `${n} day${n !== 1 ? 's' : ''} available`,
+    scheduleTitle: 'Office hours',
+    noSchedules: 'No office hours available',
+    noSchedulesText: (name: string) => `Dr. ${name} has no scheduled office hours at the moment.`,
+    noSchedulesHint: 'Please ask at the information desk or check again later.',
+    consultaDays: 'Consultation Days',
+    procedureDays: 'Procedure Days',
+    dayDetails: (day: string) => `${day} details`,
+    scheduleFallback: 'Office hours',
+    consulta: 'Consultation',
+    procedure: 'Procedure',
+    specialtyLabel: 'Specialty:',
+    hoursLabel: 'Hours:',
+    roomLabel: 'Office:',
+    buildingLabel: 'Building:',
+    locationLabel: 'Location:',
+    attention: 'Attention!',
+    noScheduleForDay: (name: string) => `Dr. ${name} has no office hours on`,
+    selectOtherDay: 'Please choose another day or go back to the list of doctors.',
+  },
+  map: {
+    title: 'Get to know the Hospital',
+    howToGet: 'How to get there',
+    youAreHere: 'You are here',
+    elevator: 'Elevator',
+    planLabel: (floor: string) => `Floor plan: ${floor}`,
+    room: 'Office',
+    floor: (piso: string) => `Floor ${piso}`,
+    floorLabel: 'Floor:',
+    goTo: 'Go to',
+    takeElevator: 'and take the elevator to',
+    toElevator: (floor: string) => `From here to the elevator (${floor})`,
+    fromElevator: (floor: string) => `From the elevator to the office (${floor})`,
+    roomIn: 'Office',
+    locatedIn: 'is located in',
+    videoTitle: 'Map video',
+    unmute: 'Turn sound on',
+    mute: 'Mute',
+  },
+  keyboard: {
+    space: 'Space',
+    up: 'Move keyboard up',
+    down: 'Move keyboard down',
+    move: 'Drag keyboard',
+    clear: 'Clear text',
+    close: 'Close keyboard',
+  },
+  a11y: {
+    menu: 'Accessibility',
+    highContrast: 'High contrast',
+    largeText: 'Large text',
+    reach: 'Lower content',
+    reachHint: 'Brings the buttons closer to the bottom of the screen',
+    reset: 'Reset',
+    close: 'Close',
+    skipToContent: 'Skip to content',
+    navigation: 'Navigation',
+  },
+  speech: {
+    listen: 'Listen',
+    stop: 'Stop',
+    days: {
+      monday: 'on Mondays',
+      tuesday: 'on Tuesdays',
+      wednesday: 'on Wednesdays',
+      thursday: 'on Thursdays',
+      friday: 'on Fridays',
+      saturday: 'on Saturdays',
+      sunday: 'on Sundays',
+    },
+    schedule: ({ doctor, day, start, end, room, floor, building, procedure }: SpokenSchedule) => {
+      const location = [room && `office ${room}`, floor, building && `${building} building`].filter(Boolean).join(', ')
+      const hours = end ? `from ${start} to ${end}` : `from ${start}`
+      return `Dr. ${doctor} ${procedure ? 'performs procedures' : 'sees patients'} ${day} ${hours}${location ? ` in ${location}` : ''}.`
+    },
+  },
+  handoff: {
+    qrTitle: 'Take it on your phone',
+    qrHint: 'Scan the code to see the schedule and location on your phone',
+    qrAlt: (name: string) => `QR code with Dr. ${name}'s schedule`,
+    weeklySchedule: 'Weekly schedule',
+    addToCalendar: 'Add to my calendar',
+    calendarName: (name: string) => `Dr. ${name} - Hospital Vozandes Quito`,
+    eventTitle: (tipo: string, name: string) => `${tipo} - Dr. ${name}`,
+    hospital: 'Hospital Vozandes Quito',
+  },
+  print: {
+    directions: 'Print directions',
+    list: 'Print list',
+    printing: 'Printing...',
+    done: 'Please take your ticket',
+    failed: 'Could not print. Please ask at the information desk.',
+    printedAt: (fecha: string) => `Printed: ${fecha}`,
+    goTo: (building: string, floor: string) => `Go to ${building} and take the elevator to ${floor}.`,
+    sameBuilding: (floor: string) => `Take the elevator to ${floor}.`,
+    here: 'The office is on this floor.',
+  },
+  liveBoard: {
+    title: 'Who is seeing patients now?',
+    loadError: 'Schedules could not be loaded. Retrying automatically.',
+    empty: 'No doctors are seeing patients or starting within the next hour.',
+    doctor: 'Doctor',
+    hours: 'Hours',
+    room: 'Office',
+    floor: 'Floor',
+    building: 'Building',
+    status: 'Status',
+    active: 'In session',
+    upcoming: 'Starting soon',
+  },
+  offline: {
+    banner: (fecha: string) => `Offline: information from ${fecha}`,
+  },
+  days: {
+    monday: 'Monday',
+    tuesday: 'Tuesday',
+    wednesday: 'Wednesday',
+    thursday: 'Thursday',
+    friday: 'Friday',
+    saturday: 'Saturday',
+    sunday: 'Sunday',
+  },
+  errors: {
+    network: 'Connection error. Please check your internet connection.',
+    timeout: 'The operation took too long. Please try again.',
+    unauthorized: 'Not authorized. Please sign in again.',
+    forbidden: 'Access denied.',
+    notFound: 'Resource not found.',
+    server: 'Server error. Please try again later.',
+    unknown: 'Unexpected error. Please try again.',
+    loadingSpecialties: 'Could not load the specialties. Please try again later.',
+    loadingDoctors: 'Could not load the doctors. Please try again later.',
+    loadingAgendas: 'Could not load the schedules. Please try again later.',
+    specialtyNotFound: 'Specialty not found',
+    doctorNotFound: 'Doctor not found',
+  },
+  defaults: {
+    doctorName: 'Name not available',
+    specialtyName: 'Specialty not available',
+    notSpecified: 'Not specified',
+    emptyMessage: 'No results found.',
+  },
+}
@@ -0,0 +1,259 @@
+// Catálogo de textos en español (idioma por defecto del kiosco).
+// lib/messages/en.ts debe tener exactamente las mismas claves (tipo Messages).
+import type { SpokenSchedule } from '../types'
+
+export const es = {
+  common: {
+    back: 'Volver',
+    goBack: 'Volver atrás',
+    home: 'Inicio',
+    welcome: 'Bienvenido',
+    retry: 'Reintentar',
+    error: 'Error',
+    loading: 'Cargando',
+    scrollTop: 'Volver Arriba',
+    language: 'Idioma',
+    videoUnsupported: 'Tu navegador no soporta el elemento de video.',
+    page: (page: number, total: number) => `Página ${page} de ${total}`,
+  },
+  home: {
+    start: '¡ Aquí !',
+    buildingAlt: 'Edificio Médico',
+    bannerAlt: 'Encuentra a tu especialista en nuestro Directorio Médico',
+  },
+  selection: {
+    title: '¿Cómo deseas buscar?',
+    bySpecialty: 'Buscar por Especialidad',
+    byDoctor: 'Buscar por Médico',
+    bySymptom: 'Buscar por síntoma o parte del cuerpo',
+  },
+  specialties: {
+    title: 'Especialidades Médicas',
+    searchPlaceholder: 'Buscar especialidad...',
+    empty: 'No se encontraron especialidades.',
+    prompt: 'Empieza a escribir para buscar una especialidad.',
+    unnamed: 'Especialidad sin nombre',
+    iconAlt: (name: string) => `Icono de ${name}`,
+    doctorsTitle: (name: string) => `DOCTORES EN  ${name}`,
+    doctorsIn: (name: string) => `Doctores en ${name}`,
+    thisSpecialty: 'esta especialidad',
+    noDoctors: 'No se encontraron doctores para esta especialidad.',
+    viewLabel: 'Vista de la lista',
+    viewAlphabetical: 'A–Z',
+    viewByFloor: 'Por piso',
+    letterIndex: 'Índice alfabético',
+    goToLetter: (letter: string) => `Ir a la letra ${letter}`,
+    floorsLabel: 'Pisos del edificio',
+    noFloor: 'Sin piso asignado',
+    floorCount: (n: number) => `${n} especialidad${n !== 1 ? 'es' : ''}`,
+    floorTitle: (floor: string) => `Especialidades en ${floor}`,
+    chooseFloor: 'Toque un piso para ver sus especialidades.',
+  },
+  doctorSearch: {
+    title: 'Buscar Doctor por Nombre',
+    placeholder: 'Escribe el nombre del doctor...',
+    keyboardPlaceholder: 'Buscar por nombre del doctor',
+    empty: 'No se encontraron doctores con ese nombre.',
+    none: 'No hay doctores para mostrar.',
+    first: '⏮ Inicio',
+    previous: '← Anterior',
+    next: 'Siguiente →',
+    last: 'Final ⏭',
+    firstLabel: 'Ir al inicio',
+    previousLabel: 'Página anterior',
+    nextLabel: 'Página siguiente',
+    lastLabel: 'Ir al final',
+  },
+  timetable: {
+    label: 'Horario semanal',
+    viewDays: 'Por día',
+    viewWeek: 'Semana completa',
+    overlap: 'Horarios superpuestos',
+  },
+  availability: {
+    day: 'Día',
+    band: 'Horario',
+    tipo: 'Atención',
+    morning: 'Mañana',
+    afternoon: 'Tarde',
+    clear: 'Quitar filtros',
+    chipLabel: (label: string, n: number) => `${label}: ${n} médico${n !== 1 ? 's' : ''}`,
+    showing: (n: number, total: number) => `${n} de ${total} médicos`,
+    noMatches: 'Ningún médico atiende con estos filtros. Pruebe quitando alguno.',
+  },
+  symptoms: {
+    title: '¿Qué le molesta?',
+    hint: 'Toque la parte del cuerpo o escriba el síntoma',
+    diagramLabel: 'Partes del cuerpo',
+    otherZones: 'Otros',
+    placeholder: 'Escriba un síntoma...',
+    keyboardPlaceholder: 'Buscar por síntoma',
+    symptomsTitle: 'Síntomas',
+    suggestionsTitle: 'Especialidades sugeridas',
+    forSymptoms: (list: string) => `Por: ${list}`,
+    noMatches: 'No encontramos ese síntoma. Pruebe con otras palabras o toque una parte del cuerpo.',
+    noSpecialties: 'No hay especialistas con agenda para esta selección. Acérquese a Información.',
+    disclaimer: 'Esta guía es orientativa y no reemplaza una valoración médica. Ante una emergencia, acuda a Emergencias.',
+    loadError: 'No se pudo cargar la guía de síntomas.',
+    unavailable: 'La búsqueda por síntoma todavía no está disponible.',
+  },
+  doctor: {
+    title: (name: string) => `Dr. ${name}`,
+    photoAlt: (name: string) => `Foto del Dr. ${name}`,
+    cardPhotoAlt: (name: string) => `Foto de ${name}`,
+    loadError: 'Error al cargar los datos',
+    daysAvailable: (n: number) => `${n} día${n !== 1 ? 's' : ''} disponible${n !== 1 ? 's' : ''}`,
+    scheduleTitle: 'Horarios de atención',
+    noSchedules: 'Sin horarios disponibles',
+    noSchedulesText: (name: string) => `El Dr. ${name} no tiene horarios de consulta programados actualmente.`,
+    noSchedulesHint: 'Por favor, contacta directamente con información o regresa más tarde.',
+    consultaDays: 'Días de Consulta',
+    procedureDays: 'Días de Procedimiento',
+    dayDetails: (day: string) => `Detalles día ${day}`,
+    scheduleFallback: 'Horario',
+    consulta: 'Consulta',
+    procedure: 'Procedimiento',
+    specialtyLabel: 'Especialidad:',
+    hoursLabel: 'Horario:',
+    roomLabel: 'Consultorio:',
+    buildingLabel: 'Edificio:',
+    locationLabel: 'Ubicación:',
+    attention: '¡Atención!',
+    // Seguido del día en negrita
+    noScheduleForDay: (name: string) => `El Dr. ${name} no tiene horario disponible para el`,
+    selectOtherDay: 'Por favor, selecciona otro día o regresa a la lista de doctores.',
+  },
+  map: {
+    title: 'Conoce el Hospital',
+    howToGet: '¿Cómo llegar?',
+    youAreHere: 'Usted está aquí',
+    elevator: 'Ascensor',
+    planLabel: (floor: string) => `Plano del ${floor}`,
+    room: 'Consultorio',
+    floor: (piso: string) => `Piso ${piso}`,
+    floorLabel: 'Piso:',
+    // "Diríjase a <edificio> y tome el ascensor hasta <piso>."
+    goTo: 'Diríjase a',
+    takeElevator: 'y tome el ascensor hasta',
+    toElevator: (floor: string) => `Desde aquí hasta el ascensor (${floor})`,
+    fromElevator: (floor: string) => `Del ascensor al consultorio (${floor})`,
+    // "El consultorio <consultorio> se encuentra en el <edificio>."
+    roomIn: 'El consultorio',
+    locatedIn: 'se encuentra en el',
+    videoTitle: 'Mapa en video',
+    unmute: 'Activar sonido',
+    mute: 'Silenciar',
+  },
+  keyboard: {
+    space: 'Espacio',
+    up: 'Subir teclado',
+    down: 'Bajar teclado',
+    move: 'Mover teclado',
+    clear: 'Limpiar texto',
+    close: 'Cerrar teclado',
+  },
+  a11y: {
+    menu: 'Accesibilidad',
+    highContrast: 'Alto contraste',
+    largeText: 'Texto grande',
+    reach: 'Bajar contenido',
+    reachHint: 'Acerca los botones a la parte baja de la pantalla',
+    reset: 'Restablecer',
+    close: 'Cerrar',
+    skipToContent: 'Saltar al contenido',
+    navigation: 'Navegación',
+  },
+  // Lectura en voz alta de la ficha del médico (components/listen-button.tsx)
+  speech: {
+    listen: 'Escuchar',
+    stop: 'Detener',
+    days: {
+      monday: 'los lunes',
+      tuesday: 'los martes',
+      wednesday: 'los miércoles',
+      thursday: 'los jueves',
+      friday: 'los viernes',
+      saturday: 'los sábados',
+      sunday: 'los domingos',
+    },
+    // "El Dr. X atiende los lunes de 8 a 12 en el consultorio 305, piso 3, edificio Bless."
+    schedule: ({ doctor, day, start, end, room, floor, building, procedure }: SpokenSchedule) => {
+      const location = [room && `consultorio ${room}`, floor, building && `edificio ${building}`].filter(Boolean).join(', ')
+      const hours = end ? `de ${start} a ${end}` : `desde las ${start}`
+      return `El Dr. ${doctor} ${procedure ? 'realiza procedimientos' : 'atiende'} ${day} ${hours}${location ? ` en el ${location}` : ''}.`
+    },
+  },
+  // Código QR de la ficha y página móvil que abre (components/handoff-qr.tsx, app/movil)
+  handoff: {
+    qrTitle: 'Llévalo en tu celular',
+    qrHint: 'Escanea el código para ver el horario y la ubicación en tu teléfono',
+    qrAlt: (name: string) => `Código QR con el horario del Dr. ${name}`,
+    weeklySchedule: 'Horario semanal',
+    addToCalendar: 'Agregar a mi calendario',
+    calendarName: (name: string) => `Dr. ${name} - Hospital Vozandes Quito`,
+    eventTitle: (tipo: string, name: string) => `${tipo} - Dr. ${name}`,
+    hospital: 'Hospital Vozandes Quito',
+  },
+  // Ticket impreso (components/print-ticket.tsx)
+  print: {
+    directions: 'Imprimir indicaciones',
+    list: 'Imprimir lista',
+    printing: 'Imprimiendo...',
+    done: 'Retire su ticket',
+    failed: 'No se pudo imprimir. Solicite ayuda en información.',
+    printedAt: (fecha: string) => `Impreso: ${fecha}`,
+    goTo: (building: string, floor: string) => `Diríjase a ${building} y tome el ascensor hasta ${floor}.`,
+    sameBuilding: (floor: string) => `Tome el ascensor hasta ${floor}.`,
+    here: 'El consultorio está en este piso.',
+  },
+  // Tablero de la TV del lobby (app/ahora)
+  liveBoard: {
+    title: '¿Quién atiende ahora?',
+    loadError: 'No se pudieron cargar las agendas. Se reintentará automáticamente.',
+    empty: 'No hay médicos atendiendo ni por iniciar en la próxima hora.',
+    doctor: 'Médico',
+    hours: 'Horario',
+    room: 'Consultorio',
+    floor: 'Piso',
+    building: 'Edificio',
+    status: 'Estado',
+    active: 'Atendiendo',
+    upcoming: 'Próximamente',
+  },
+  offline: {
+    banner: (fecha: string) => `Sin conexión: información de ${fecha}`,
+  },
+  days: {
+    monday: 'Lunes',
+    tuesday: 'Martes',
+    wednesday: 'Miércoles',
+    thursday: 'Jueves',
+    friday: 'Viernes',
+    saturday: 'Sábado',
+    sunday: 'Domingo',
+  },
+  // Mensajes de error comunes
+  errors: {
+    network: 'Error de conexión. Verifique su conexión a internet.',
+    timeout: 'La operación tardó demasiado. Intente nuevamente.',
+    unauthorized: 'No autorizado. Por favor, inicie sesión nuevamente.',
+    forbidden: 'Acceso denegado.',
+    notFound: 'Recurso no encontrado.',
+    server: 'Error del servidor. Intente más tarde.',
+    unknown: 'Error inesperado. Intente nuevamente.',
+    loadingSpecialties: 'Error al cargar las especialidades. Intente nuevamente más tarde.',
+    loadingDoctors: 'Error al cargar los doctores. Intente nuevamente más tarde.',
+    loadingAgendas: 'Error al cargar las agendas. Intente nuevamente más tarde.',
+    specialtyNotFound: 'Especialidad no encontrada',
+    doctorNotFound: 'Médico no encontrado',
+  },
+  // Valores por defecto
+  defaults: {
+    doctorName: 'Nombre no disponible',
+    specialtyName: 'Especialidad no disponible',
+    notSpecified: 'No especificado',
+    emptyMessage: 'No se encontraron resultados.',
+  },
+}
+
+export type Messages = typeof es
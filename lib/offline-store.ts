@@ -0,0 +1,96 @@
+// Snapshot offline del directorio en IndexedDB.
+// HttpClient guarda aquí la última respuesta buena de cada GET y la devuelve cuando
+// el backend no responde. Los componentes se suscriben para mostrar la fecha del snapshot.
+import { CACHE_KEYS } from './constants'
+
+const DB_NAME = CACHE_KEYS.OFFLINE_SNAPSHOTS
+const DB_VERSION = 1
+const STORE_NAME = 'snapshots'
+
+export interface OfflineSnapshot<T = unknown> {
+  key: string
+  data: T
+  savedAt: number
+}
+
+const isSupported = (): boolean => typeof window !== 'undefined' && typeof indexedDB !== 'undefined'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// Guarda (o reemplaza) el snapshot de una clave. Los errores de almacenamiento se ignoran.
+export async function saveSnapshot<T>(key: string, data: T): Promise<void> {
+  if (!isSupported()) return
+  try {
+    const db = await openDb()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite')
+      tx.objectStore(STORE_NAME).put({ key, data, savedAt: Date.now() } satisfies OfflineSnapshot<T>)
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  } catch {
+    // Sin espacio o IndexedDB bloqueado: el snapshot es opcional
+  }
+}
+
+export async function loadSnapshot<T>(key: string): Promise<OfflineSnapshot<T> | null> {
+  if (!isSupported()) return null
+  try {
+    const db = await openDb()
+    return await new Promise<OfflineSnapshot<T> | null>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      request.onsuccess = () => resolve((request.result as OfflineSnapshot<T> | undefined) ?? null)
+      request.onerror = () => reject(request.error)
+    })
+  } catch {
+    return null
+  }
+}
+
+// ===== Uso de snapshots en la vista actual =====
+// Guarda la fecha del snapshot más antiguo servido desde el último reset (cambio de ruta).
+
+let oldestSnapshotAt: number | null = null
+const listeners = new Set<() => void>()
+
+export function reportSnapshotUsage(savedAt: number): void {
+  if (oldestSnapshotAt != null && oldestSnapshotAt <= savedAt) return
+  oldestSnapshotAt = savedAt
+  listeners.forEach((listener) => listener())
+}
+
+export function resetSnapshotUsage(): void {
+  if (oldestSnapshotAt == null) return
+  oldestSnapshotAt = null
+  listeners.forEach((listener) => listener())
+}
+
+export function getSnapshotUsage(): number | null {
+  return oldestSnapshotAt
+}
+
+export function subscribeSnapshotUsage(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
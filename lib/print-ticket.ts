@@ -0,0 +1,140 @@
+// Tickets para la impresora térmica del kiosco: contenido de la ficha del médico y del listado de
+// una especialidad, versión en texto plano para el puente de impresión y envío al puente.
+import { WEEK_DAYS, getBuildingDisplayName, groupSchedulesByDay, scheduleTypeLabel } from './doctor-schedule'
+import type { Messages } from './messages/es'
+import type { AgendaDetallada, ApiResponse, DoctorSchedule, KioskLocation, PrintTicketData } from './types'
+
+// Caracteres por línea de un rollo de 80 mm con la fuente estándar
+export const TICKET_COLUMNS = 42
+
+function buildingName(sched: DoctorSchedule, t: Messages): string {
+  return getBuildingDisplayName(sched.building, t.defaults.notSpecified)
+}
+
+function floorName(sched: DoctorSchedule, t: Messages): string {
+  return sched.floor || (sched.floorCode ? t.map.floor(sched.floorCode) : t.defaults.notSpecified)
+}
+
+// "Diríjase a Torre Bless y tome el ascensor hasta Piso 3." según dónde está el kiosco
+export function wayfindingHint(sched: DoctorSchedule, kiosk: KioskLocation | null, t: Messages): string {
+  if (!kiosk || !sched.buildingCode || kiosk.buildingCode !== sched.buildingCode) {
+    return t.print.goTo(buildingName(sched, t), floorName(sched, t))
+  }
+  if (sched.floorCode && sched.floorCode === kiosk.piso) return t.print.here
+  return t.print.sameBuilding(floorName(sched, t))
+}
+
+// Horarios del día elegido en la ficha del médico
+export function buildDoctorTicket(params: {
+  doctorName: string
+  specialty?: string
+  dayName: string
+  schedules: DoctorSchedule[]
+  kiosk: KioskLocation | null
+  t: Messages
+}): PrintTicketData {
+  const { doctorName, specialty, dayName, schedules, kiosk, t } = params
+  return {
+    title: t.doctor.title(doctorName),
+    subtitle: specialty,
+    sections: schedules.map((sched) => ({
+      heading: `${dayName} - ${scheduleTypeLabel(sched.tipo, t.doctor)}`,
+      lines: [
+        `${t.doctor.hoursLabel} ${sched.time}`,
+        `${t.doctor.roomLabel} ${sched.room || t.defaults.notSpecified}`,
+        `${t.doctor.locationLabel} ${floorName(sched, t)}`,
+        `${t.doctor.buildingLabel} ${buildingName(sched, t)}`,
+      ],
+    })),
+    hint: schedules[0] ? wayfindingHint(schedules[0], kiosk, t) : undefined,
+  }
+}
+
+// Médicos de una especialidad con sus consultorios y días de atención
+export function buildSpecialtyTicket(params: {
+  specialtyName: string
+  doctors: Array<{ name: string; agendas: AgendaDetallada[] }>
+  t: Messages
+}): PrintTicketData {
+  const { specialtyName, doctors, t } = params
+  return {
+    title: specialtyName,
+    sections: doctors.map(({ name, agendas }) => {
+      // Un renglón por consultorio con los días en que el médico atiende ahí
+      const byRoom = new Map<string, string[]>()
+      const schedules = groupSchedulesByDay(agendas)
+      WEEK_DAYS.forEach((day) => {
+        (schedules[day] || []).forEach((sched) => {
+          const location = `${sched.room || t.defaults.notSpecified}, ${floorName(sched, t)}, ${buildingName(sched, t)}`
+          const days = byRoom.get(location) ?? []
+          const dayName = t.days[day as keyof Messages['days']]
+          if (!days.includes(dayName)) days.push(dayName)
+          byRoom.set(location, days)
+        })
+      })
+      return {
+        heading: t.doctor.title(name),
+        lines: [...byRoom.entries()].map(([location, days]) => `${t.doctor.roomLabel} ${location} (${days.join(', ')})`),
+      }
+    }),
+  }
+}
+
+// Corta un texto en renglones de `width` caracteres sin partir palabras
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = []
+  let current = ''
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    if (!current) current = word
+    else if (current.length + 1 + word.length <= width) current += ` ${word}`
+    else {
+      lines.push(current)
+      current = word
+    }
+    while (current.length > width) {
+      lines.push(current.slice(0, width))
+      current = current.slice(width)
+    }
+  })
+  if (current) lines.push(current)
+  return lines
+}
+
+function center(text: string, width: number): string {
+  return wrap(text, width).map((line) => ' '.repeat(Math.floor((width - line.length) / 2)) + line).join('\n')
+}
+
+// Ticket en texto plano (para impresoras ESC/POS a través del puente)
+export function ticketToText(ticket: PrintTicketData, header: string, footer: string, width = TICKET_COLUMNS): string {
+  const rule = '-'.repeat(width)
+  const out = [center(header, width), rule, center(ticket.title.toUpperCase(), width)]
+  if (ticket.subtitle) out.push(center(ticket.subtitle, width))
+  ticket.sections.forEach((section) => {
+    out.push(rule)
+    if (section.heading) out.push(...wrap(section.heading.toUpperCase(), width))
+    section.lines.forEach((line) => out.push(...wrap(line, width)))
+  })
+  if (ticket.hint) out.push(rule, ...wrap(`> ${ticket.hint}`, width))
+  out.push(rule, center(footer, width), '')
+  return out.join('\n')
+}
+
+// Envía el ticket al puente de impresión local del kiosco (POST JSON, ver KIOSK_PROFILES.md)
+export async function sendToPrintBridge(
+  url: string,
+  ticket: PrintTicketData,
+  text: string
+): Promise<ApiResponse<null>> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ticket, text, columns: TICKET_COLUMNS }),
+      signal: AbortSignal.timeout(10000),
+    })
+    if (!response.ok) return { data: null, success: false, message: `HTTP error ${response.status}` }
+    return { data: null, success: true }
+  } catch (error) {
+    return { data: null, success: false, message: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
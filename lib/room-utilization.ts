@@ -0,0 +1,111 @@
+// Ocupación de consultorios para planificación de espacios: horas con agenda por consultorio, día y
+// franja de una hora, agrupadas por edificio y piso. Incluye los consultorios del catálogo sin agenda.
+import { detallarAgenda, ubicarConsultorio } from './agenda-index'
+import { config } from './config'
+import { normalizeDayKey, WEEK_DAYS, WORK_DAYS } from './doctor-schedule'
+import { floorLevel } from './specialty-directory'
+import { hhmmToMinutes } from './utils'
+import type { Agenda, AgendaIndex, BuildingUtilization, FloorUtilization, RoomUtilization, RoomUtilizationRow } from './types'
+
+type Tramo = [number, number]
+
+const byLabel = (a: string, b: string) => a.localeCompare(b, 'es', { numeric: true })
+
+// Tramos superpuestos de un mismo día se cuentan una sola vez (una doble reserva no ocupa el doble)
+function unir(tramos: Tramo[]): Tramo[] {
+  const unidos: Tramo[] = []
+  ;[...tramos].sort((a, b) => a[0] - b[0]).forEach(([inicio, fin]) => {
+    const ultimo = unidos[unidos.length - 1]
+    if (ultimo && inicio <= ultimo[1]) ultimo[1] = Math.max(ultimo[1], fin)
+    else unidos.push([inicio, fin])
+  })
+  return unidos
+}
+
+const emptyDays = () => Object.fromEntries(WEEK_DAYS.map((day) => [day, 0])) as Record<string, number>
+
+export function buildRoomUtilization(agendas: Agenda[], index: AgendaIndex): RoomUtilization {
+  // consultorio -> día -> tramos en minutos
+  const tramos = new Map<string, Map<string, Tramo[]>>()
+  agendas.forEach((a) => {
+    const codigo = (a.codigo_consultorio ?? '').trim()
+    if (!index.consultorios[codigo]) return
+    const day = normalizeDayKey(detallarAgenda(a, index).diaNombre || '')
+    const inicio = hhmmToMinutes(a.hora_inicio)
+    if (!WEEK_DAYS.includes(day) || inicio == null) return
+    const fin = hhmmToMinutes(a.hora_fin)
+    const porDia = tramos.get(codigo) ?? new Map<string, Tramo[]>()
+    porDia.set(day, [...(porDia.get(day) ?? []), [inicio, fin != null && fin > inicio ? fin : inicio + config.liveBoard.defaultSlotMinutes]])
+    tramos.set(codigo, porDia)
+  })
+
+  // Franjas desde la primera hora con agenda hasta la última; sin agendas, la jornada de 7 a 19
+  const todos = [...tramos.values()].flatMap((porDia) => [...porDia.values()].flat())
+  const startHour = todos.length ? Math.floor(Math.min(...todos.map((t) => t[0])) / 60) : 7
+  const endHour = Math.max(todos.length ? Math.ceil(Math.max(...todos.map((t) => t[1])) / 60) : 19, startHour + 1)
+  const bands = endHour - startHour
+
+  const edificios = new Map<string, BuildingUtilization>()
+  const pisos = new Map<string, FloorUtilization>()
+
+  Object.values(index.consultorios).forEach((consultorio) => {
+    const { buildingCode, edificioDescripcion, pisoCodigo, pisoDescripcion } = ubicarConsultorio(consultorio, index)
+    const row: RoomUtilizationRow = {
+      consultorioCodigo: consultorio.codigo_consultorio,
+      consultorio: consultorio.descripcion_consultorio || consultorio.codigo_consultorio,
+      minutos: {},
+      horasPorDia: emptyDays(),
+      totalHoras: 0
+    }
+    tramos.get(consultorio.codigo_consultorio)?.forEach((lista, day) => {
+      const minutos = new Array<number>(bands).fill(0)
+      unir(lista).forEach(([inicio, fin]) => {
+        for (let band = 0; band < bands; band++) {
+          const desde = (startHour + band) * 60
+          minutos[band] += Math.max(0, Math.min(fin, desde + 60) - Math.max(inicio, desde))
+        }
+      })
+      row.minutos[day] = minutos
+      row.horasPorDia[day] = minutos.reduce((sum, m) => sum + m, 0) / 60
+      row.totalHoras += row.horasPorDia[day]
+    })
+
+    const edificio = edificios.get(buildingCode) ?? {
+      edificioCodigo: buildingCode,
+      edificio: edificioDescripcion || buildingCode || 'Sin edificio',
+      floors: [],
+      horasPorDia: emptyDays(),
+      totalHoras: 0,
+      consultorios: 0,
+      sinAgenda: 0
+    }
+    edificios.set(buildingCode, edificio)
+    edificio.consultorios += 1
+    if (row.totalHoras === 0) edificio.sinAgenda += 1
+    edificio.totalHoras += row.totalHoras
+    WEEK_DAYS.forEach((day) => { edificio.horasPorDia[day] += row.horasPorDia[day] })
+
+    const pisoKey = `${buildingCode}:${pisoCodigo ?? ''}`
+    let piso = pisos.get(pisoKey)
+    if (!piso) {
+      piso = { pisoCodigo: pisoCodigo ?? '', piso: pisoDescripcion || 'Sin piso', rooms: [] }
+      pisos.set(pisoKey, piso)
+      edificio.floors.push(piso)
+    }
+    piso.rooms.push(row)
+  })
+
+  // Pisos de arriba hacia abajo (como en el directorio por piso) y consultorios por nombre
+  edificios.forEach((edificio) => {
+    edificio.floors.sort((a, b) => (floorLevel(b.piso) ?? -Infinity) - (floorLevel(a.piso) ?? -Infinity) || byLabel(a.piso, b.piso))
+    edificio.floors.forEach((piso) => piso.rooms.sort((a, b) => byLabel(a.consultorio, b.consultorio)))
+  })
+
+  const conAgenda = new Set([...tramos.values()].flatMap((porDia) => [...porDia.keys()]))
+  return {
+    days: WEEK_DAYS.filter((day) => WORK_DAYS.includes(day) || conAgenda.has(day)),
+    startHour,
+    endHour,
+    buildings: [...edificios.values()].sort((a, b) => Number(!a.edificioCodigo) - Number(!b.edificioCodigo) || byLabel(a.edificio, b.edificio))
+  }
+}
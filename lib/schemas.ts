@@ -0,0 +1,455 @@
+// Esquemas zod para los payloads del backend.
+// Cada esquema resuelve los alias de campos que envía el backend hacia una única
+// forma canónica (ver lib/types.ts). Si el backend cambia un esquema, los registros
+// fallan aquí y quedan en el reporte de validación en lugar de llegar a la UI.
+import { z } from "zod"
+import { extractHHmm } from "./utils"
+import type {
+  Agenda,
+  AgendaDetallada,
+  AnalyticsEvent,
+  AnalyticsSummary,
+  ConsultorioNormalizado,
+  DiaCatalogo,
+  Doctor,
+  Edificio,
+  Especialidad,
+  EspecialidadRef,
+  FloorPlanData,
+  KioskProfilesFile,
+  PisoCatalogo,
+  SymptomMap,
+  ValidationReport,
+} from "./types"
+
+// ===== Helpers =====
+
+// Devuelve el primer alias con valor (ignora null, undefined y strings vacíos)
+const pickAlias = (raw: Record<string, unknown>, keys: readonly string[]): unknown => {
+  for (const key of keys) {
+    const value = raw[key]
+    if (value == null) continue
+    if (typeof value === "string" && value.trim() === "") continue
+    return value
+  }
+  return undefined
+}
+
+// Construye un objeto con los campos canónicos a partir de sus alias y lo valida
+const aliased = <T extends z.ZodTypeAny>(aliases: Record<string, readonly string[]>, schema: T) =>
+  z
+    .record(z.unknown())
+    .transform((raw) => {
+      const out: Record<string, unknown> = {}
+      for (const [field, keys] of Object.entries(aliases)) {
+        out[field] = pickAlias(raw, keys)
+      }
+      return out
+    })
+    .pipe(schema)
+
+// Códigos: aceptan número o texto y se normalizan a texto no vacío
+const code = z.union([z.string(), z.number()]).transform((v) => String(v).trim()).pipe(z.string().min(1))
+const optionalText = z
+  .union([z.string(), z.number()])
+  .transform((v) => String(v).trim())
+  .optional()
+  .transform((v) => (v ? v : undefined))
+
+// HH:mm desde "1900-01-01 08:30", "08:30:00", "830", etc.
+const hhmm = z
+  .union([z.string(), z.number()])
+  .transform((v) => {
+    const t = extractHHmm(v)
+    if (/^\d{2}:\d{2}$/.test(t)) return t
+    // 8.3 o 8,30 -> usar solo los dígitos
+    const onlyDigits = t.replace(/[^0-9]/g, "")
+    if (onlyDigits.length >= 3 && onlyDigits.length <= 4) {
+      const padded = onlyDigits.padStart(4, "0")
+      return `${padded.slice(0, 2)}:${padded.slice(2)}`
+    }
+    return t
+  })
+  .pipe(z.string().regex(/^\d{2}:\d{2}$/, "Hora con formato no reconocido"))
+
+// ===== Alias conocidos por entidad =====
+
+export const FIELD_ALIASES = {
+  doctor: {
+    id: ["id", "codigo", "codigoPrestador", "codigo_prestador", "cd_prestador", "prestadorId", "medicoId"],
+    codigoPrestador: ["codigoPrestador", "codigo_prestador", "cd_prestador", "prestadorId", "medicoId", "id", "codigo"],
+    nombres: ["nombres", "nombre"],
+    retrato: ["retrato", "foto"],
+    especialidades: ["especialidades"],
+  },
+  especialidadRef: {
+    especialidadId: ["especialidadId", "id", "codigo"],
+    descripcion: ["descripcion", "nombre"],
+  },
+  agenda: {
+    codigo_item_agendamiento: ["codigo_item_agendamiento", "id", "codigo"],
+    codigo_prestador: ["codigo_prestador", "codigoPrestador", "cd_prestador", "prestadorId", "medicoId"],
+    codigo_dia: ["codigo_dia", "dia", "diaCodigo", "dia_id"],
+    hora_inicio: ["hora_inicio", "horaInicio", "hora", "horario"],
+    hora_fin: ["hora_fin", "horaFin", "horarioFin"],
+    tipo: ["tipo", "type"],
+    codigo_consultorio: ["codigo_consultorio", "consultorio", "consultorioCodigo", "consultorio_id"],
+  },
+  consultorio: {
+    codigo_consultorio: ["codigo", "id", "codigo_consultorio", "CD_CONSULTORIO", "consultorio_id"],
+    codigo_edificio: ["codigo_edificio", "edificio", "CD_EDIFICIO", "codigoEdificio", "edificio_id", "edificioId"],
+    piso: ["piso", "CD_PISO", "codigo_piso", "codigoPiso", "piso_id", "pisoId"],
+    des_piso: ["des_piso", "DES_PISO", "descripcion_piso", "DESCRIPCION_PISO", "descripcionPiso", "piso_descripcion"],
+    descripcion_consultorio: [
+      "des_consultorio",
+      "DES_CONSULTORIO",
+      "descripcion_consultorio",
+      "DESCRIPCION_CONSULTORIO",
+      "descripcion",
+      "nombre",
+      "consultorio",
+      "consultorio_nombre",
+    ],
+  },
+  edificio: {
+    codigo_edificio: ["codigo", "id", "codigoEdificio", "CD_EDIFICIO", "edificio_id"],
+    descripcion_edificio: ["descripcion_edificio", "descripcion", "nombre", "DES_EDIFICIO", "edificioNombre", "nombre_edificio"],
+  },
+  dia: {
+    codigo: ["codigo", "id"],
+    nombre: ["nombre", "descripcion", "name"],
+  },
+  piso: {
+    codigo_piso: ["codigo_piso", "codigo", "id"],
+    descripcion_piso: ["descripcion_piso", "descripcion", "nombre", "descripcionPiso"],
+  },
+} as const
+
+// ===== Esquemas =====
+
+// Las especialidades de un médico llegan como objeto o como texto suelto
+export const especialidadRefSchema: z.ZodType<EspecialidadRef, z.ZodTypeDef, unknown> = z.union([
+  code.transform((id): EspecialidadRef => ({ especialidadId: id, descripcion: id })),
+  aliased(
+    FIELD_ALIASES.especialidadRef,
+    z.object({ especialidadId: code, descripcion: optionalText })
+  ).transform((e): EspecialidadRef => ({ especialidadId: e.especialidadId, descripcion: e.descripcion ?? e.especialidadId })),
+])
+
+export const doctorSchema: z.ZodType<Doctor, z.ZodTypeDef, unknown> = aliased(
+  FIELD_ALIASES.doctor,
+  z.object({
+    id: code,
+    codigoPrestador: code,
+    nombres: z.string().trim().min(1, "Nombre vacío"),
+    retrato: optionalText,
+    especialidades: z.array(especialidadRefSchema).optional().default([]),
+  })
+)
+
+export const agendaSchema: z.ZodType<Agenda, z.ZodTypeDef, unknown> = aliased(
+  FIELD_ALIASES.agenda,
+  z.object({
+    codigo_item_agendamiento: optionalText,
+    codigo_prestador: code,
+    codigo_dia: code,
+    hora_inicio: hhmm,
+    hora_fin: hhmm.optional(),
+    tipo: optionalText.transform((t) => (t ?? "").toUpperCase()),
+    codigo_consultorio: optionalText,
+  })
+)
+
+export const consultorioSchema: z.ZodType<ConsultorioNormalizado, z.ZodTypeDef, unknown> = aliased(
+  FIELD_ALIASES.consultorio,
+  z.object({
+    codigo_consultorio: code,
+    codigo_edificio: optionalText,
+    piso: optionalText,
+    des_piso: optionalText,
+    descripcion_consultorio: optionalText,
+  })
+)
+
+export const edificioSchema: z.ZodType<Edificio, z.ZodTypeDef, unknown> = aliased(
+  FIELD_ALIASES.edificio,
+  z.object({
+    codigo_edificio: code,
+    descripcion_edificio: optionalText,
+  })
+)
+
+export const diaSchema: z.ZodType<DiaCatalogo, z.ZodTypeDef, unknown> = aliased(
+  FIELD_ALIASES.dia,
+  z.object({
+    codigo: code,
+    nombre: z.union([z.string(), z.number()]).transform((v) => String(v).trim()),
+  })
+)
+
+export const pisoSchema: z.ZodType<PisoCatalogo, z.ZodTypeDef, unknown> = aliased(
+  FIELD_ALIASES.piso,
+  z.object({
+    codigo_piso: code,
+    descripcion_piso: z.union([z.string(), z.number()]).transform((v) => String(v).trim()).optional().default(""),
+  })
+)
+
+// Agendas decodificadas por el servidor para la página móvil (app/api/movil)
+const codeOrNumber = z.union([z.string(), z.number()])
+
+export const agendaDetalladaListSchema: z.ZodType<AgendaDetallada[], z.ZodTypeDef, unknown> = z.array(
+  z.object({
+    codigo_item_agendamiento: codeOrNumber.optional(),
+    codigo_prestador: codeOrNumber.optional(),
+    codigo_dia: codeOrNumber.optional(),
+    hora_inicio: codeOrNumber.optional(),
+    hora_fin: codeOrNumber.optional(),
+    tipo: z.string().optional(),
+    codigo_consultorio: codeOrNumber.optional(),
+    especialidadId: z.union([codeOrNumber, z.array(codeOrNumber)]).optional(),
+    especialidad: z.string().optional(),
+    medico: z.string().optional(),
+    diaNombre: z.string().optional(),
+    horaInicioHHmm: z.string().optional(),
+    horaFinHHmm: z.string().optional(),
+    consultorioDescripcion: z.string().optional(),
+    consultorioCodigo: z.string().optional(),
+    edificioDescripcion: z.string().optional(),
+    tipoTexto: z.string().optional(),
+    piso: codeOrNumber.optional(),
+    pisoCodigo: z.string().optional(),
+    pisoDescripcion: z.string().optional(),
+    buildingCode: z.string().optional(),
+  })
+)
+
+// Especialidades del middleware api3 (/especialidades/agenda)
+export const especialidadSchema: z.ZodType<Especialidad, z.ZodTypeDef, unknown> = z.object({
+  especialidadId: z.coerce.number().int(),
+  descripcion: z.string().nullable().optional().default(null),
+  tipo: z.string().nullable().optional().default(null),
+  icono: z.string().nullable().optional().default(null),
+  piso: z.string().nullable().optional(),
+})
+
+// ===== Planos de piso (public/maps/floor-plans.json) =====
+// Archivo mantenido a mano por el personal de mantenimiento: además de la forma se validan
+// las referencias entre nodos para que un error de tipeo no rompa el trazado de rutas.
+
+const point = { x: z.number(), y: z.number() }
+
+const floorPlanSchema = z
+  .object({
+    piso: code,
+    nombre: z.string().optional(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+    fondo: z.string().optional(),
+    nodos: z.array(z.object({ id: z.string().min(1), ...point })).min(1),
+    pasillos: z.array(z.tuple([z.string(), z.string()])),
+    ascensor: z.string().min(1),
+    consultorios: z.array(
+      z.object({
+        codigo: code,
+        nombre: z.string().optional(),
+        ...point,
+        width: z.number().positive(),
+        height: z.number().positive(),
+        nodo: z.string().min(1),
+      })
+    ),
+  })
+  .superRefine((floor, ctx) => {
+    const ids = new Set(floor.nodos.map((n) => n.id))
+    const check = (id: string, path: (string | number)[]) => {
+      if (!ids.has(id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Nodo "${id}" no existe` })
+    }
+    check(floor.ascensor, ["ascensor"])
+    floor.pasillos.forEach(([a, b], i) => {
+      check(a, ["pasillos", i, 0])
+      check(b, ["pasillos", i, 1])
+    })
+    floor.consultorios.forEach((c, i) => check(c.nodo, ["consultorios", i, "nodo"]))
+  })
+
+export const floorPlanDataSchema: z.ZodType<FloorPlanData, z.ZodTypeDef, unknown> = z
+  .object({
+    version: z.number().int(),
+    edificios: z.array(
+      z.object({
+        buildingCode: code,
+        nombre: z.string().optional(),
+        pisos: z.array(floorPlanSchema),
+      })
+    ),
+  })
+
+const kioskLocationSchema = z.object({ buildingCode: code, piso: code, nodo: z.string().min(1) })
+
+export const kioskProfilesSchema: z.ZodType<KioskProfilesFile, z.ZodTypeDef, unknown> = z
+  .object({
+    version: z.number().int(),
+    predeterminado: z.string().min(1).optional(),
+    perfiles: z.record(
+      z.object({
+        nombre: z.string().min(1).optional(),
+        ubicacion: kioskLocationSchema.nullable().optional(),
+        idleTimeout: z.number().int().min(5000).optional(),
+        banners: z.array(z.string().min(1)).min(1).optional(),
+        videos: z.array(z.string().min(1)).min(1).optional(),
+        videoMapa: z.string().min(1).optional(),
+        edificioPredeterminado: code.nullable().optional(),
+        impresora: z.object({ puente: z.string().url().nullable() }).nullable().optional(),
+      })
+    ),
+  })
+  .superRefine((data, ctx) => {
+    if (data.predeterminado && !data.perfiles[data.predeterminado]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["predeterminado"],
+        message: `Perfil "${data.predeterminado}" no existe`,
+      })
+    }
+  })
+
+// ===== Mapa de síntomas (public/symptoms/symptom-map.json) =====
+// Archivo mantenido por la Dirección Médica: se valida que cada síntoma apunte a zonas existentes.
+
+const localizedTextSchema = z.object({ es: z.string().min(1), en: z.string().min(1).optional() })
+const especialidadIds = z.array(z.number().int())
+
+export const symptomMapSchema: z.ZodType<SymptomMap, z.ZodTypeDef, unknown> = z
+  .object({
+    version: z.number().int(),
+    verificado: z.boolean().default(false),
+    zonas: z.array(
+      z.object({
+        id: z.string().min(1),
+        nombre: localizedTextSchema,
+        especialidades: especialidadIds.default([]),
+      })
+    ),
+    sintomas: z.array(
+      z.object({
+        nombre: localizedTextSchema,
+        zonas: z.array(z.string().min(1)).min(1),
+        palabras: z.array(z.string().min(1)).default([]),
+        especialidades: especialidadIds.min(1),
+      })
+    ),
+  })
+  .superRefine((data, ctx) => {
+    const ids = new Set(data.zonas.map((zona) => zona.id))
+    data.sintomas.forEach((sintoma, i) => {
+      sintoma.zonas.forEach((zona, j) => {
+        if (!ids.has(zona)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sintomas", i, "zonas", j], message: `Zona "${zona}" no existe` })
+        }
+      })
+    })
+  })
+
+// ===== Estadísticas de uso (POST /api/analytics) =====
+// Los eventos llegan del navegador del kiosco: se limitan tamaños para no llenar el disco con basura.
+
+const shortText = z.string().trim().min(1).max(200)
+
+const analyticsEventSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("page_view") }),
+    z.object({ type: z.literal("specialty_view"), especialidadId: shortText, especialidad: shortText }),
+    z.object({ type: z.literal("doctor_view"), medicoId: shortText, medico: shortText, especialidadId: shortText.optional() }),
+    z.object({
+      type: z.literal("search"),
+      context: z.enum(["doctors", "specialties", "symptoms"]),
+      term: shortText,
+      results: z.number().int().min(0),
+    }),
+    z.object({ type: z.literal("session_end"), reason: z.enum(["idle", "home"]), durationMs: z.number().int().min(0) }),
+  ])
+  .and(
+    z.object({
+      ts: z.number().int().positive(),
+      sessionId: z.string().min(1).max(64),
+      kioskId: z.string().max(64).nullable(),
+      path: z.string().min(1).max(300),
+    })
+  )
+
+const analyticsCountSchema = z.object({ clave: z.string(), etiqueta: z.string(), total: z.number().int() })
+
+// Resumen de GET /api/analytics (lib/analytics-store.ts)
+export const analyticsSummarySchema: z.ZodType<AnalyticsSummary, z.ZodTypeDef, unknown> = z.object({
+  desde: z.number(),
+  hasta: z.number(),
+  eventos: z.number().int(),
+  sesiones: z.number().int(),
+  duracionPromedioMs: z.number(),
+  finPorInactividad: z.number().int(),
+  finPorInicio: z.number().int(),
+  vistas: z.number().int(),
+  busquedas: z.number().int(),
+  busquedasSinResultado: z.number().int(),
+  topEspecialidades: z.array(analyticsCountSchema),
+  topMedicos: z.array(analyticsCountSchema),
+  topBusquedasFallidas: z.array(analyticsCountSchema.extend({ context: z.enum(["doctors", "specialties", "symptoms"]) })),
+})
+
+export const analyticsBatchSchema: z.ZodType<{ events: AnalyticsEvent[] }, z.ZodTypeDef, unknown> = z.object({
+  events: z.array(analyticsEventSchema).min(1).max(100),
+})
+
+// ===== Validación de listas =====
+
+// El backend puede envolver las listas en { data: [...] }
+export const unwrapList = (payload: unknown): unknown[] | null => {
+  if (Array.isArray(payload)) return payload
+  const inner = (payload as { data?: unknown } | null)?.data
+  return Array.isArray(inner) ? inner : null
+}
+
+export const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) => `${issue.path.length ? issue.path.join(".") : "(registro)"}: ${issue.message}`)
+
+// Valida una lista completa: devuelve los registros válidos y un reporte con los inválidos
+export function parseList<T>(
+  source: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  payload: unknown
+): { items: T[]; report: ValidationReport } {
+  const list = unwrapList(payload)
+  if (!list) {
+    const report: ValidationReport = {
+      source,
+      total: 0,
+      valid: 0,
+      invalid: [],
+      error: payload == null ? "Respuesta vacía" : "La respuesta no es una lista",
+    }
+    if (payload != null) console.warn(`[schemas] ${source}: ${report.error}`)
+    return { items: [], report }
+  }
+
+  const items: T[] = []
+  const report: ValidationReport = { source, total: list.length, valid: 0, invalid: [] }
+  list.forEach((raw, index) => {
+    const result = schema.safeParse(raw)
+    if (result.success) {
+      items.push(result.data)
+    } else {
+      report.invalid.push({ index, issues: formatIssues(result.error), raw })
+    }
+  })
+  report.valid = items.length
+
+  if (report.invalid.length > 0) {
+    console.warn(
+      `[schemas] ${source}: ${report.invalid.length} de ${report.total} registros inválidos`,
+      report.invalid.slice(0, 5).map((i) => ({ index: i.index, issues: i.issues }))
+    )
+  }
+
+  return { items, report }
+}
@@ -0,0 +1,59 @@
+// Agrupaciones del directorio de especialidades: por piso (vista de edificio) y por letra (índice A–Z).
+import type { Especialidad, SpecialtyFloorGroup, SpecialtyLetterGroup } from './types'
+
+export const ALPHABET = [...'ABCDEFGHIJKLMN', 'Ñ', ...'OPQRSTUVWXYZ']
+
+const normalizeKey = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim()
+
+// Nivel de un piso a partir del texto de la API: "Piso 3" -> 3, "Planta baja"/"PB" -> 0,
+// "Subsuelo 1"/"S1" -> -1. null si no se reconoce (esos pisos van al final de la pila).
+export function floorLevel(label: string): number | null {
+  const key = normalizeKey(label)
+  if (/\b(planta baja|pb|lobby)\b/.test(key.replace(/\./g, ''))) return 0
+  const basement = key.match(/\b(?:subsuelo|sotano|s)\s*-?\s*(\d+)\b/)
+  if (basement) return -Number(basement[1])
+  const number = key.match(/-?\d+/)
+  return number ? Number(number[0]) : null
+}
+
+// Pisos de arriba hacia abajo, como se ven en el edificio; sin piso al final
+export function groupSpecialtiesByFloor(specialties: Especialidad[]): SpecialtyFloorGroup[] {
+  const groups = new Map<string, SpecialtyFloorGroup>()
+  specialties.forEach((specialty) => {
+    const label = specialty.piso?.trim() || null
+    const key = label ? normalizeKey(label) : ''
+    const group = groups.get(key) ?? { key, label, level: label ? floorLevel(label) : null, specialties: [] }
+    group.specialties.push(specialty)
+    groups.set(key, group)
+  })
+
+  const rank = (group: SpecialtyFloorGroup) => (group.label === null ? 2 : group.level === null ? 1 : 0)
+  return [...groups.values()].sort(
+    (a, b) => rank(a) - rank(b) || (b.level ?? 0) - (a.level ?? 0) || (a.label ?? '').localeCompare(b.label ?? '')
+  )
+}
+
+// Letra del índice A–Z: sin tildes, pero la Ñ conserva su letra; lo que no es letra va en '#'
+export function indexLetter(name: string): string {
+  const first = name.trim().charAt(0).toUpperCase()
+  if (first === 'Ñ') return 'Ñ'
+  const base = first.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  return /^[A-Z]$/.test(base) ? base : '#'
+}
+
+// Grupos por letra en el orden de la lista recibida (ya ordenada alfabéticamente)
+export function groupSpecialtiesByLetter(specialties: Especialidad[]): SpecialtyLetterGroup[] {
+  const groups: SpecialtyLetterGroup[] = []
+  specialties.forEach((specialty) => {
+    const letter = indexLetter(specialty.descripcion || '')
+    const group = groups.find((g) => g.letter === letter)
+    if (group) group.specialties.push(specialty)
+    else groups.push({ letter, specialties: [specialty] })
+  })
+  return groups.sort((a, b) => {
+    const ia = a.letter === '#' ? ALPHABET.length : ALPHABET.indexOf(a.letter)
+    const ib = b.letter === '#' ? ALPHABET.length : ALPHABET.indexOf(b.letter)
+    return ia - ib
+  })
+}
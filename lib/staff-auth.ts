@@ -0,0 +1,37 @@
+// Acceso del personal a sus pantallas (/agendas, /admin/*) con usuario y contraseña (HTTP Basic).
+// Este módulo solo se ejecuta en el servidor (middleware.ts): las credenciales salen de variables
+// de entorno sin prefijo NEXT_PUBLIC_ y nunca llegan al bundle del navegador. Sin credenciales
+// configuradas el acceso queda cerrado.
+
+export const STAFF_REALM = 'Personal HVQ'
+
+// Compara sin cortar en la primera diferencia, para no filtrar por tiempo de respuesta cuánto coincide
+const safeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+export const staffAuthConfigured = (): boolean => !!process.env.STAFF_USERNAME && !!process.env.STAFF_PASSWORD
+
+// true si el header Authorization trae las credenciales del personal
+export function isStaffAuthorized(authorization: string | null): boolean {
+  const username = process.env.STAFF_USERNAME
+  const password = process.env.STAFF_PASSWORD
+  if (!username || !password || !authorization?.startsWith('Basic ')) return false
+
+  let decoded: string
+  try {
+    decoded = atob(authorization.slice('Basic '.length).trim())
+  } catch {
+    return false
+  }
+  const separator = decoded.indexOf(':')
+  if (separator < 0) return false
+  // Ambas comparaciones siempre, para que el tiempo no delate cuál falló
+  const userOk = safeEqual(decoded.slice(0, separator), username)
+  const passOk = safeEqual(decoded.slice(separator + 1), password)
+  return userOk && passOk
+}
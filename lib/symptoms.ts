@@ -0,0 +1,73 @@
+// Buscador por síntoma o parte del cuerpo: mapa curado de síntomas a especialidades.
+// El mapa viene de public/symptoms/symptom-map.json (formato en SYMPTOMS.md).
+import { config } from './config'
+import { normalizeSearchText } from './doctor-search'
+import { fetchJson } from './http-client'
+import { symptomMapSchema } from './schemas'
+import type {
+  ApiResponse,
+  Especialidad,
+  Locale,
+  LocalizedText,
+  SymptomEntry,
+  SymptomMap,
+  SymptomSuggestion,
+  SymptomZone
+} from './types'
+
+export function loadSymptomMap(): Promise<ApiResponse<SymptomMap | null>> {
+  return fetchJson(config.symptoms.dataUrl, symptomMapSchema)
+}
+
+export function localizedText(text: LocalizedText, locale: Locale): string {
+  return text[locale as Exclude<Locale, 'es'>] || text.es
+}
+
+const normalize = (value: string) => normalizeSearchText(value).replace(/\s+/g, ' ').trim()
+
+// Síntomas cuyo nombre o palabras clave coinciden con lo escrito. Vale tanto una palabra a medio
+// escribir ("rodi") como una frase que la contiene ("me duele la rodilla").
+export function matchSymptoms(map: SymptomMap, query: string): SymptomEntry[] {
+  const q = normalize(query)
+  if (q.length < 3) return []
+  const padded = ` ${q} `
+  return map.sintomas.filter((sintoma) =>
+    [sintoma.nombre.es, sintoma.nombre.en ?? '', ...sintoma.palabras].some((term) => {
+      const t = normalize(term)
+      return Boolean(t) && (t.includes(q) || padded.includes(` ${t} `))
+    })
+  )
+}
+
+export function symptomsInZone(map: SymptomMap, zoneId: string): SymptomEntry[] {
+  return map.sintomas.filter((sintoma) => sintoma.zonas.includes(zoneId))
+}
+
+// Especialidades sugeridas para los síntomas (y la zona, si se eligió una), solo entre las
+// especialidades con agenda. La primera especialidad de cada síntoma pesa más que las siguientes.
+export function suggestSpecialties(
+  sintomas: SymptomEntry[],
+  zone: SymptomZone | null,
+  specialties: Especialidad[]
+): SymptomSuggestion[] {
+  const byId = new Map(specialties.map((esp) => [esp.especialidadId, esp]))
+  const suggestions = new Map<number, SymptomSuggestion>()
+
+  const add = (id: number, score: number, sintoma?: SymptomEntry) => {
+    const especialidad = byId.get(id)
+    if (!especialidad) return
+    const suggestion = suggestions.get(id) ?? { especialidad, score: 0, sintomas: [] }
+    suggestion.score += score
+    if (sintoma && !suggestion.sintomas.includes(sintoma)) suggestion.sintomas.push(sintoma)
+    suggestions.set(id, suggestion)
+  }
+
+  sintomas.forEach((sintoma) => {
+    sintoma.especialidades.forEach((id, i) => add(id, Math.max(3 - i, 1), sintoma))
+  })
+  zone?.especialidades.forEach((id) => add(id, 1))
+
+  return [...suggestions.values()].sort(
+    (a, b) => b.score - a.score || (a.especialidad.descripcion || '').localeCompare(b.especialidad.descripcion || '')
+  )
+}
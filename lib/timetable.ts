@@ -0,0 +1,72 @@
+// Grilla semanal de un médico: días como columnas y horas como filas, con los mismos horarios
+// de la ficha (lib/doctor-schedule.ts). Los bloques superpuestos del mismo día se ponen lado a lado.
+import { WEEK_DAYS, WORK_DAYS } from './doctor-schedule'
+import { hhmmToMinutes } from './utils'
+import type { DoctorSchedule, TimetableBlock, TimetableLayout } from './types'
+
+// Duración supuesta de un horario sin hora de fin
+const DEFAULT_DURATION = 60
+
+function layoutDay(schedules: DoctorSchedule[]): TimetableBlock[] {
+  const blocks = schedules
+    .map((schedule) => {
+      const start = hhmmToMinutes(schedule.startHHmm)
+      if (start === null) return null
+      const end = hhmmToMinutes(schedule.endHHmm)
+      return {
+        schedule,
+        start,
+        end: end !== null && end > start ? end : start + DEFAULT_DURATION,
+        lane: 0,
+        lanes: 1,
+        overlaps: false,
+      }
+    })
+    .filter((block): block is TimetableBlock => block !== null)
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+
+  // Grupos de bloques encadenados por superposición; cada bloque toma la primera columna libre
+  let group: TimetableBlock[] = []
+  let groupEnd = -1
+  const closeGroup = () => {
+    const lanes = Math.max(...group.map((block) => block.lane)) + 1
+    group.forEach((block) => {
+      block.lanes = lanes
+      block.overlaps = group.length > 1
+    })
+    group = []
+  }
+  blocks.forEach((block) => {
+    if (group.length && block.start >= groupEnd) closeGroup()
+    const laneEnds: number[] = []
+    group.forEach((other) => {
+      laneEnds[other.lane] = Math.max(laneEnds[other.lane] ?? 0, other.end)
+    })
+    const free = laneEnds.findIndex((end) => end <= block.start)
+    block.lane = free >= 0 ? free : laneEnds.length
+    group.push(block)
+    groupEnd = Math.max(groupEnd, block.end)
+  })
+  if (group.length) closeGroup()
+  return blocks
+}
+
+export function buildTimetable(schedules: Record<string, DoctorSchedule[]>): TimetableLayout {
+  const blocks: Record<string, TimetableBlock[]> = {}
+  WEEK_DAYS.forEach((day) => {
+    const dayBlocks = layoutDay(schedules[day] || [])
+    if (dayBlocks.length) blocks[day] = dayBlocks
+  })
+
+  const all = Object.values(blocks).flat()
+  // Sin horarios se muestra la jornada habitual de 7 a 19
+  const startHour = all.length ? Math.floor(Math.min(...all.map((b) => b.start)) / 60) : 7
+  const endHour = all.length ? Math.ceil(Math.max(...all.map((b) => b.end)) / 60) : 19
+
+  return {
+    days: WEEK_DAYS.filter((day) => WORK_DAYS.includes(day) || blocks[day]),
+    startHour,
+    endHour: Math.max(endHour, startHour + 1),
+    blocks,
+  }
+}
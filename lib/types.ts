@@ -1,56 +1,47 @@
 // Tipos centralizados para el proyecto
 
 // Tipos básicos de la API
+// Forma canónica de los registros del backend. Los alias que envía el backend
+// (codigo/id/CD_..., etc.) se resuelven en lib/schemas.ts antes de llegar aquí.
+
+// Referencia a una especialidad dentro de un médico
+export interface EspecialidadRef {
+  especialidadId: string
+  descripcion: string
+}
+
 export interface Doctor {
-  id?: string | number
-  codigo?: string | number
-  codigoPrestador?: string | number
-  codigo_prestador?: string | number
-  cd_prestador?: string | number
-  prestadorId?: string | number
-  medicoId?: string | number
-  nombres?: string
-  especialidades?: string[]
-  [key: string]: unknown
+  id: string
+  codigoPrestador: string
+  nombres: string
+  retrato?: string
+  especialidades: EspecialidadRef[]
 }
 
+// Registro de AGND_AGENDA
 export interface Agenda {
-  id?: string | number
-  codigo_item_agendamiento?: string | number
-  codigo_prestador?: string | number
-  codigoPrestador?: string | number
-  cd_prestador?: string | number
-  prestadorId?: string | number
-  medicoId?: string | number
-  codigo_dia?: string | number
-  dia?: string | number
-  diaCodigo?: string | number
-  hora_inicio?: string | number
-  horaInicio?: string | number
-  hora?: string | number
-  hora_fin?: string | number
-  horaFin?: string | number
-  horarioFin?: string | number
-  tipo?: string
-  codigo_consultorio?: string | number
-  consultorio?: string | number
-  consultorioCodigo?: string | number
-  [key: string]: unknown
+  codigo_item_agendamiento?: string
+  codigo_prestador: string
+  codigo_dia: string
+  hora_inicio: string // HH:mm
+  hora_fin?: string // HH:mm
+  tipo: string
+  codigo_consultorio?: string
 }
 
 export interface Edificio {
-  id?: string | number
-  codigo?: string | number
-  codigoEdificio?: string | number
-  CD_EDIFICIO?: string | number
-  edificio_id?: string | number
+  codigo_edificio: string
   descripcion_edificio?: string
-  descripcion?: string
-  nombre?: string
-  DES_EDIFICIO?: string
-  edificioNombre?: string
-  nombre_edificio?: string
-  [key: string]: unknown
+}
+
+export interface DiaCatalogo {
+  codigo: string
+  nombre: string
+}
+
+export interface PisoCatalogo {
+  codigo_piso: string
+  descripcion_piso: string
 }
 
 export interface Especialidad {
@@ -61,14 +52,27 @@ export interface Especialidad {
   piso?: string | null // Nuevo campo que trae la API externa
 }
 
+// Especialidades de un mismo piso (vista "por piso" de /specialties)
+export interface SpecialtyFloorGroup {
+  key: string // piso normalizado; '' para especialidades sin piso
+  label: string | null // piso tal como lo envía la API; null si no tiene
+  level: number | null // nivel para apilar los pisos (planta baja 0, subsuelos negativos)
+  specialties: Especialidad[]
+}
+
+// Especialidades que empiezan con la misma letra (índice A–Z de /specialties)
+export interface SpecialtyLetterGroup {
+  letter: string // 'A'..'Z', 'Ñ' o '#'
+  specialties: Especialidad[]
+}
+
 // Tipos para consultorios
 export interface ConsultorioNormalizado {
   codigo_consultorio: string
   codigo_edificio?: string
-  piso?: string | number
+  piso?: string
   des_piso?: string
   descripcion_consultorio?: string
-  __raw?: Record<string, unknown>
 }
 
 // Tipos para agendas detalladas
@@ -96,15 +100,437 @@ export interface AgendaDetallada {
 
   // Extras útiles para UI
   piso?: string | number
+  pisoCodigo?: string
   pisoDescripcion?: string
   buildingCode?: string
 }
 
+// Bloque de la grilla semanal de un médico (lib/timetable.ts)
+export interface TimetableBlock {
+  schedule: DoctorSchedule
+  start: number // minutos desde la medianoche
+  end: number
+  lane: number // columna dentro del día cuando hay bloques superpuestos
+  lanes: number // columnas del grupo de bloques superpuestos
+  overlaps: boolean // se superpone con otro bloque del mismo día
+}
+
+export interface TimetableLayout {
+  days: string[] // claves de WEEK_DAYS con columna en la grilla
+  startHour: number
+  endHour: number
+  blocks: Record<string, TimetableBlock[]> // por día
+}
+
+// Fila de la consola de agendas del personal (lib/agenda-console.ts), ya resuelta con el índice
+export interface AgendaConsoleRow {
+  key: string
+  dia: string
+  diaOrden: number // 0 = lunes; los días desconocidos van al final
+  medico: string
+  codigoPrestador: string
+  especialidad: string
+  consultorio: string
+  consultorioCodigo: string
+  edificio: string
+  edificioCodigo: string
+  piso: string
+  pisoCodigo: string
+  inicio: string // HH:mm
+  fin: string // HH:mm o vacío
+  tipo: string
+}
+
+export type AgendaConsoleColumn = 'dia' | 'medico' | 'especialidad' | 'consultorio' | 'edificio' | 'piso' | 'horario' | 'tipo'
+
+// null: sin filtro en esa columna. Los filtros por código usan los códigos del índice
+export interface AgendaConsoleFilter {
+  busqueda: string
+  dia: string | null
+  medico: string | null // codigoPrestador
+  especialidad: string | null
+  consultorio: string | null // consultorioCodigo
+  edificio: string | null // edificioCodigo
+  piso: string | null // pisoCodigo
+}
+
+export interface AgendaConsoleSort {
+  column: AgendaConsoleColumn
+  direction: 'asc' | 'desc'
+}
+
+export interface AgendaConsoleOption {
+  value: string
+  label: string
+}
+
+// Filtros de disponibilidad del listado de médicos de una especialidad (lib/doctor-availability.ts).
+// null: sin filtro en esa dimensión
+export type TimeBand = 'morning' | 'afternoon'
+
+export interface AvailabilityFilter {
+  day: string | null // clave de WEEK_DAYS
+  band: TimeBand | null
+  tipo: 'C' | 'P' | null // CONSULTA_TYPES
+}
+
+// Cantidad de médicos que quedarían al elegir cada opción, con las demás dimensiones tal como están
+export interface AvailabilityCounts {
+  day: Record<string, number>
+  band: Record<TimeBand, number>
+  tipo: Record<'C' | 'P', number>
+}
+
+// Horario de un médico en un día, listo para la ficha (lib/doctor-schedule.ts)
+export interface DoctorSchedule {
+  time: string // "08:00 AM - 12:00 PM"
+  room: string
+  building: string
+  floor?: string
+  tipo?: string
+  specialtyLabel?: string
+  // Códigos del catálogo para ubicar el consultorio en los planos
+  roomCode?: string
+  buildingCode?: string
+  floorCode?: string
+  // Horas "HH:mm" para la lectura en voz alta y el calendario (.ics)
+  startHHmm?: string
+  endHHmm?: string
+}
+
+// Tramo [start, end) de un texto que coincide con la búsqueda, para resaltarlo
+export interface TextRange {
+  start: number
+  end: number
+}
+
+// Resultado de la búsqueda de médicos (lib/doctor-search.ts)
+export interface DoctorSearchResult {
+  doctor: Doctor
+  score: number
+  nameRanges: TextRange[]
+  specialtyRanges: Record<string, TextRange[]> // especialidadId -> tramos en su descripción
+  matchedSpecialtyId: string | null // especialidad que coincidió con la búsqueda, si alguna
+}
+
+// Ticket para la impresora térmica del kiosco (components/print-ticket.tsx, lib/print-ticket.ts)
+export interface PrintTicketSection {
+  heading?: string
+  lines: string[]
+}
+
+export interface PrintTicketData {
+  title: string
+  subtitle?: string
+  sections: PrintTicketSection[]
+  hint?: string // indicación para llegar
+}
+
+// Evento semanal para el calendario del teléfono (lib/ics.ts)
+export interface IcsWeeklyEvent {
+  uid: string
+  weekday: number // 0 = domingo ... 6 = sábado (Date#getDay)
+  startHHmm: string
+  endHHmm?: string // sin hora de fin el evento dura una hora
+  title: string
+  location?: string
+  description?: string
+}
+
+// Índices para decodificar agendas (lib/agenda-index.ts). Objetos planos para poder cachearlos.
+export interface AgendaIndex {
+  consultorios: Record<string, ConsultorioNormalizado>
+  edificios: Record<string, string> // codigo_edificio -> descripción
+  pisos: Record<string, Record<string, string>> // codigo_edificio -> codigo_piso -> descripción
+  dias: Record<string, string> // codigo_dia -> nombre
+  medicos: Record<string, Pick<Doctor, 'nombres' | 'especialidades'>> // id y codigoPrestador
+  builtAt: number
+}
+
+// Informe de consultorios para coordinación de agendas (lib/consultorio-audit.ts)
+export type ConsultorioFindingKind =
+  | 'doble-reserva' // dos prestadores con horarios superpuestos en el mismo consultorio y día
+  | 'consultorio-desconocido' // la agenda apunta a un consultorio que no está en el catálogo
+  | 'consultorio-sin-edificio'
+  | 'edificio-desconocido' // el edificio del consultorio no está en el catálogo de edificios
+  | 'piso-fuera-de-catalogo' // getPisosEdificio no trae el piso del consultorio
+
+export interface ConsultorioFinding {
+  kind: ConsultorioFindingKind
+  consultorioCodigo: string
+  consultorio: string // descripción o, si no hay, el código
+  edificioCodigo: string
+  pisoCodigo: string
+  // Solo en doble reserva: día y tramo superpuesto (HH:mm)
+  dia?: string
+  inicio?: string
+  fin?: string
+  agendas: AgendaDetallada[] // las dos superpuestas, o todas las que usan el consultorio
+}
+
+export interface ConsultorioAudit {
+  findings: ConsultorioFinding[]
+  totalAgendas: number
+  totalConsultorios: number // consultorios distintos usados por las agendas
+}
+
+// Ocupación de consultorios por edificio y piso (lib/room-utilization.ts). Los días son claves de WEEK_DAYS
+export interface RoomUtilizationRow {
+  consultorioCodigo: string
+  consultorio: string
+  minutos: Record<string, number[]> // por día: minutos con agenda en cada franja de una hora
+  horasPorDia: Record<string, number>
+  totalHoras: number
+}
+
+export interface FloorUtilization {
+  pisoCodigo: string
+  piso: string
+  rooms: RoomUtilizationRow[]
+}
+
+export interface BuildingUtilization {
+  edificioCodigo: string
+  edificio: string
+  floors: FloorUtilization[]
+  horasPorDia: Record<string, number>
+  totalHoras: number
+  consultorios: number
+  sinAgenda: number // consultorios del catálogo sin ninguna agenda en la semana
+}
+
+export interface RoomUtilization {
+  days: string[]
+  startHour: number // primera franja
+  endHour: number // fin de la última franja
+  buildings: BuildingUtilization[]
+}
+
+// Auditoría de calidad de datos del directorio (lib/data-quality.ts)
+export type DataQualitySource = 'medicos' | 'especialidades' | 'agendas' | 'catalogos'
+
+export type DataQualityIssueKind =
+  | 'registro-descartado' // no pasó el esquema de lib/schemas.ts y no llega a la UI
+  | 'medico-sin-nombre'
+  | 'medico-sin-especialidades'
+  | 'especialidad-como-texto' // la especialidad del médico llegó como texto suelto o sin descripción
+  | 'medico-sin-retrato'
+  | 'retrato-roto' // la foto no carga (404, URL inválida)
+  | 'especialidad-sin-descripcion'
+  | 'especialidad-sin-piso'
+  | 'agenda-medico-desconocido'
+  | 'agenda-dia-desconocido'
+  | 'agenda-horario-invalido'
+  | 'catalogo-sin-descripcion'
+
+export interface DataQualityIssue {
+  kind: DataQualityIssueKind
+  origen: DataQualitySource
+  registro: string // cómo encontrar el registro en el origen (código y nombre)
+  detalle: string
+}
+
+export interface DataQualityReport {
+  issues: DataQualityIssue[]
+  totales: Record<DataQualitySource, number> // registros revisados por origen
+}
+
+// Estadísticas de uso del kiosco (lib/analytics.ts en el navegador, lib/analytics-store.ts en el servidor)
+export type SearchContext = 'doctors' | 'specialties' | 'symptoms'
+
+// Cómo terminó una sesión: por inactividad (IdleRedirect) o con el botón "Inicio"
+export type SessionEndReason = 'idle' | 'home'
+
+export type AnalyticsEventData =
+  | { type: 'page_view' }
+  | { type: 'specialty_view'; especialidadId: string; especialidad: string }
+  | { type: 'doctor_view'; medicoId: string; medico: string; especialidadId?: string }
+  | { type: 'search'; context: SearchContext; term: string; results: number }
+  | { type: 'session_end'; reason: SessionEndReason; durationMs: number }
+
+export type AnalyticsEvent = AnalyticsEventData & {
+  ts: number
+  sessionId: string
+  kioskId: string | null
+  path: string
+}
+
+export interface AnalyticsCount {
+  clave: string // id o término normalizado
+  etiqueta: string
+  total: number
+}
+
+export interface AnalyticsSummary {
+  desde: number
+  hasta: number
+  eventos: number
+  sesiones: number // sesiones terminadas
+  duracionPromedioMs: number
+  finPorInactividad: number
+  finPorInicio: number
+  vistas: number
+  busquedas: number
+  busquedasSinResultado: number
+  topEspecialidades: AnalyticsCount[]
+  topMedicos: AnalyticsCount[]
+  topBusquedasFallidas: (AnalyticsCount & { context: SearchContext })[]
+}
+
+// Filtro para la decodificación masiva de agendas
+export interface AgendaDetalladaFiltro {
+  prestadores?: (string | number)[]
+  especialidadId?: string | number | (string | number)[]
+}
+
+// ===== Planos de piso (public/maps/floor-plans.json, ver FLOOR_PLANS.md) =====
+
+export interface MapPoint {
+  x: number
+  y: number
+}
+
+// Nodo de pasillo: los recorridos se trazan sobre estos nodos
+export interface MapNode extends MapPoint {
+  id: string
+}
+
+export interface ConsultorioHotspot {
+  codigo: string // codigo_consultorio del catálogo
+  nombre?: string
+  x: number
+  y: number
+  width: number
+  height: number
+  nodo: string // nodo de pasillo frente a la puerta
+}
+
+export interface FloorPlan {
+  piso: string // codigo_piso del catálogo
+  nombre?: string
+  width: number
+  height: number
+  fondo?: string // imagen o SVG de fondo (opcional)
+  nodos: MapNode[]
+  pasillos: [string, string][] // conexiones entre nodos
+  ascensor: string // nodo del ascensor
+  consultorios: ConsultorioHotspot[]
+}
+
+export interface BuildingPlans {
+  buildingCode: string // codigo_edificio del catálogo
+  nombre?: string
+  pisos: FloorPlan[]
+}
+
+// Ubicación física de un kiosco dentro de los planos
+export interface KioskLocation {
+  buildingCode: string
+  piso: string
+  nodo: string
+}
+
+export interface FloorPlanData {
+  version: number
+  edificios: BuildingPlans[]
+}
+
+// Perfil de un kiosco (public/kiosks/profiles.json, formato en KIOSK_PROFILES.md)
+export interface KioskProfile {
+  id: string
+  nombre: string
+  ubicacion: KioskLocation | null // null: kiosco sin ubicar en los planos
+  idleTimeout: number // ms sin actividad antes de volver al inicio
+  banners: string[] // carrusel de la pantalla de inicio
+  videos: string[] // bucle de atracción de la pantalla de selección
+  videoMapa: string // video cuando el consultorio no tiene plano
+  edificioPredeterminado: string | null // codigo_edificio con el que arrancan los filtros
+  impresora: KioskPrinter | null // null: el kiosco no tiene impresora de tickets
+}
+
+// Impresora térmica del kiosco: puente local que recibe el ticket, o null para imprimir
+// con el diálogo del navegador (Chrome con --kiosk-printing imprime sin preguntar)
+export interface KioskPrinter {
+  puente: string | null
+}
+
+export interface KioskProfilesFile {
+  version: number
+  predeterminado?: string // perfil cuando el kiosco no tiene uno asignado
+  perfiles: Record<string, Partial<Omit<KioskProfile, 'id'>>>
+}
+
+// Idiomas del kiosco (lib/i18n.ts)
+export type Locale = 'es' | 'en'
+
+// Texto de un archivo de datos en los idiomas del kiosco (si falta el inglés se usa el español)
+export type LocalizedText = { es: string } & Partial<Record<Exclude<Locale, 'es'>, string>>
+
+// ===== Mapa de síntomas (public/symptoms/symptom-map.json, ver SYMPTOMS.md) =====
+
+// Zona del cuerpo: las anatómicas se dibujan en el diagrama (components/body-diagram.tsx);
+// las demás (piel, salud mental...) aparecen como botones junto al diagrama
+export interface SymptomZone {
+  id: string
+  nombre: LocalizedText
+  especialidades: number[] // especialidadId sugeridas para la zona en general
+}
+
+export interface SymptomEntry {
+  nombre: LocalizedText
+  zonas: string[] // ids de SymptomZone
+  palabras: string[] // palabras clave y sinónimos populares, en cualquier idioma
+  especialidades: number[] // especialidadId en orden de preferencia
+}
+
+export interface SymptomMap {
+  version: number
+  verificado: boolean // IDs confirmados por la Dirección Médica; sin esto el kiosco no ofrece la búsqueda
+  zonas: SymptomZone[]
+  sintomas: SymptomEntry[]
+}
+
+// Especialidad sugerida y los síntomas que llevaron a ella
+export interface SymptomSuggestion {
+  especialidad: Especialidad
+  score: number
+  sintomas: SymptomEntry[]
+}
+
+// Datos de un horario para leerlo en voz alta (lib/messages/*.ts, speech.schedule)
+export interface SpokenSchedule {
+  doctor: string
+  day: string // ya en forma hablada: "los lunes" / "on Mondays"
+  start: string
+  end?: string
+  room?: string
+  floor?: string
+  building?: string
+  procedure: boolean
+}
+
+// Resultado de validar una lista del backend contra su esquema
+export interface ValidationIssue {
+  index: number
+  issues: string[]
+  raw: unknown
+}
+
+export interface ValidationReport {
+  source: string
+  total: number
+  valid: number
+  invalid: ValidationIssue[]
+  error?: string
+}
+
 // Tipos para respuestas de API
 export interface ApiResponse<T> {
   data: T
   success: boolean
   message?: string
+  // Fecha (ms) del snapshot offline usado porque el backend no respondió
+  snapshotAt?: number
 }
 
 // Tipos para autenticación
@@ -148,3 +574,20 @@ export interface CacheEntry<T> {
   ts: number
   data: T
 }
+
+export type CacheNamespace = 'specialties' | 'doctors' | 'agendas' | 'catalogs' | 'http'
+
+export interface CacheNamespaceConfig {
+  ttl: number
+  staleTtl: number
+  maxEntries: number
+  maxBytes: number
+  persist: boolean
+}
+
+// Catálogos base para ubicar agendas (consultorio -> edificio -> piso, día)
+export interface Catalogos {
+  consultorios: ConsultorioNormalizado[]
+  dias: DiaCatalogo[]
+  edificios: Edificio[]
+}
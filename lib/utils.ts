@@ -38,6 +38,12 @@ export function extractHHmm(value: unknown): string {
   return raw
 }
 
+// Minutos desde la medianoche de una hora en cualquiera de los formatos de extractHHmm; null si no es una hora
+export function hhmmToMinutes(value: unknown): number | null {
+  const match = extractHHmm(value).match(/^(\d{1,2}):(\d{2})/)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
 // Serializa HH:MM para backend en formato "1900-01-01 HH:MM" sin TZ
 export function serializeTimeForBackend(hhmm: string): string {
   const t = extractHHmm(hhmm)
@@ -55,4 +61,37 @@ export function formatHHmmTo12h(hhmm: string): string {
   const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12
   const hh = hours12.toString().padStart(2, '0')
   return `${hh}:${minutes} ${period}`
-}
\ No newline at end of file
+}
+// Descarga un archivo generado en el navegador (calendarios, exportaciones de la consola)
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Comillas cuando hace falta (RFC 4180) y un apóstrofo delante de lo que Excel leería como fórmula
+function csvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// CSV (primera fila: encabezados) con BOM para que Excel reconozca los acentos
+export function toCsv(rows: string[][]): string {
+  return `\uFEFF${rows.map((values) => values.map(csvField).join(',')).join('\r\n')}\r\n`
+}
+
+// Normaliza textos a slug: minúsculas, sin acentos, sólo [a-z0-9-]
+export function slugify(input: string): string {
+  return String(input || "")
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
@@ -0,0 +1,152 @@
+// Orientación dentro del hospital: planos por edificio/piso y rutas sobre el grafo de pasillos.
+// Los planos vienen de public/maps/floor-plans.json (formato en FLOOR_PLANS.md).
+import { config } from './config'
+import { fetchJson } from './http-client'
+import { floorPlanDataSchema } from './schemas'
+import type {
+  ApiResponse,
+  BuildingPlans,
+  ConsultorioHotspot,
+  FloorPlan,
+  FloorPlanData,
+  KioskLocation,
+  MapPoint
+} from './types'
+
+export function loadFloorPlans(): Promise<ApiResponse<FloorPlanData | null>> {
+  return fetchJson(config.wayfinding.dataUrl, floorPlanDataSchema)
+}
+
+export interface ConsultorioLocation {
+  building: BuildingPlans
+  floor: FloorPlan
+  hotspot: ConsultorioHotspot
+}
+
+// Busca el consultorio en su edificio/piso; si el piso no coincide (p. ej. catálogo desactualizado)
+// se busca en los demás pisos del edificio y, por último, en cualquier edificio
+export function locateConsultorio(
+  data: FloorPlanData,
+  target: { consultorioCodigo?: string; buildingCode?: string; pisoCodigo?: string }
+): ConsultorioLocation | null {
+  const codigo = target.consultorioCodigo?.trim()
+  if (!codigo) return null
+
+  const buildings = [
+    ...data.edificios.filter((b) => b.buildingCode === target.buildingCode),
+    ...data.edificios.filter((b) => b.buildingCode !== target.buildingCode),
+  ]
+  for (const building of buildings) {
+    const floors = [
+      ...building.pisos.filter((f) => f.piso === target.pisoCodigo),
+      ...building.pisos.filter((f) => f.piso !== target.pisoCodigo),
+    ]
+    for (const floor of floors) {
+      const hotspot = floor.consultorios.find((c) => c.codigo === codigo)
+      if (hotspot) return { building, floor, hotspot }
+    }
+  }
+  return null
+}
+
+export function findFloor(data: FloorPlanData, buildingCode: string, piso: string): FloorPlan | null {
+  return data.edificios.find((b) => b.buildingCode === buildingCode)?.pisos.find((f) => f.piso === piso) ?? null
+}
+
+// Ubicación del perfil del kiosco solo si su piso y nodo existen en los planos
+export function resolveKioskLocation(data: FloorPlanData, location: KioskLocation | null): KioskLocation | null {
+  if (!location) return null
+  const floor = findFloor(data, location.buildingCode, location.piso)
+  if (!floor || !floor.nodos.some((n) => n.id === location.nodo)) {
+    console.warn(`[wayfinding] Ubicación del kiosco sin plano: edificio ${location.buildingCode}, piso ${location.piso}, nodo ${location.nodo}`)
+    return null
+  }
+  return location
+}
+
+// Camino más corto entre dos nodos (Dijkstra con distancia euclidiana); [] si no hay conexión
+export function findRoute(floor: FloorPlan, fromId: string, toId: string): MapPoint[] {
+  const nodes = new Map(floor.nodos.map((n) => [n.id, n]))
+  if (!nodes.has(fromId) || !nodes.has(toId)) return []
+
+  const neighbors = new Map<string, string[]>()
+  floor.pasillos.forEach(([a, b]) => {
+    neighbors.set(a, [...(neighbors.get(a) ?? []), b])
+    neighbors.set(b, [...(neighbors.get(b) ?? []), a])
+  })
+
+  const distance = (a: MapPoint, b: MapPoint) => Math.hypot(a.x - b.x, a.y - b.y)
+  const dist = new Map<string, number>([[fromId, 0]])
+  const prev = new Map<string, string>()
+  const pending = new Set(nodes.keys())
+
+  while (pending.size > 0) {
+    let current: string | null = null
+    pending.forEach((id) => {
+      if (dist.has(id) && (current === null || dist.get(id)! < dist.get(current)!)) current = id
+    })
+    if (current === null || current === toId) break
+    pending.delete(current)
+
+    const from = nodes.get(current)!
+    ;(neighbors.get(current) ?? []).forEach((next) => {
+      const node = nodes.get(next)
+      if (!node || !pending.has(next)) return
+      const candidate = dist.get(current!)! + distance(from, node)
+      if (candidate < (dist.get(next) ?? Infinity)) {
+        dist.set(next, candidate)
+        prev.set(next, current!)
+      }
+    })
+  }
+
+  if (!dist.has(toId)) return []
+  const path: MapPoint[] = []
+  for (let id: string | undefined = toId; id; id = prev.get(id)) {
+    const node = nodes.get(id)!
+    path.unshift({ x: node.x, y: node.y })
+    if (id === fromId) break
+  }
+  return path
+}
+
+export interface RouteLeg {
+  building: BuildingPlans
+  floor: FloorPlan
+  route: MapPoint[]
+  startsAtKiosk: boolean
+  endsAtTarget: boolean
+}
+
+// Tramos de la ruta: mismo piso -> kiosco a consultorio; otro piso -> kiosco a ascensor y
+// ascensor a consultorio; otro edificio o kiosco sin ubicar -> solo ascensor a consultorio
+export function planRoute(data: FloorPlanData, target: ConsultorioLocation, kiosk: KioskLocation | null): RouteLeg[] {
+  const targetLeg = (fromId: string, startsAtKiosk: boolean): RouteLeg => ({
+    building: target.building,
+    floor: target.floor,
+    route: findRoute(target.floor, fromId, target.hotspot.nodo),
+    startsAtKiosk,
+    endsAtTarget: true,
+  })
+
+  if (!kiosk || kiosk.buildingCode !== target.building.buildingCode) {
+    return [targetLeg(target.floor.ascensor, false)]
+  }
+  if (kiosk.piso === target.floor.piso) {
+    return [targetLeg(kiosk.nodo, true)]
+  }
+
+  const kioskFloor = findFloor(data, kiosk.buildingCode, kiosk.piso)
+  const legs: RouteLeg[] = []
+  if (kioskFloor) {
+    legs.push({
+      building: target.building,
+      floor: kioskFloor,
+      route: findRoute(kioskFloor, kiosk.nodo, kioskFloor.ascensor),
+      startsAtKiosk: true,
+      endsAtTarget: false,
+    })
+  }
+  legs.push(targetLeg(target.floor.ascensor, false))
+  return legs
+}
@@ -0,0 +1,30 @@
+// Pantallas del personal: la consola de agendas, los informes de /admin y el resumen de
+// estadísticas (GET /api/analytics) piden usuario y contraseña (lib/staff-auth.ts). El kiosco,
+// el tablero /ahora y la página /movil del QR siguen abiertos, igual que el envío de eventos
+// (POST /api/analytics, que el route handler limita al mismo origen).
+import { NextResponse, type NextRequest } from "next/server"
+import { isStaffAuthorized, STAFF_REALM, staffAuthConfigured } from "@/lib/staff-auth"
+
+export function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname === "/api/analytics" && request.method === "POST") return NextResponse.next()
+  if (isStaffAuthorized(request.headers.get("authorization"))) return NextResponse.next()
+
+  if (!staffAuthConfigured()) {
+    return new NextResponse("Acceso del personal no configurado (STAFF_USERNAME / STAFF_PASSWORD)", {
+      status: 503,
+      headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+    })
+  }
+  return new NextResponse("Se requiere usuario del personal", {
+    status: 401,
+    headers: {
+      "WWW-Authenticate": `Basic realm="${STAFF_REALM}", charset="UTF-8"`,
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
+}
+
+export const config = {
+  matcher: ["/agendas", "/agendas/:path*", "/admin", "/admin/:path*", "/api/analytics"],
+}
@@ -11,12 +11,17 @@ const nextConfig = {
   },
   async rewrites() {
     const base = process.env.NEXT_PUBLIC_API_URL || 'http://10.129.180.151:3001'
-    return [
-      {
-        source: '/api/:path*',
-        destination: `${base}/api/:path*`,
-      },
-    ]
+    // fallback: se aplica solo si ninguna ruta de la app coincide. Como reescritura normal
+    // (afterFiles) se adelantaría a las rutas dinámicas de app/api (p. ej. el proxy
+    // app/api/middleware/[...path]) y las mandaría al backend
+    return {
+      fallback: [
+        {
+          source: '/api/:path*',
+          destination: `${base}/api/:path*`,
+        },
+      ],
+    }
   },
 }
 
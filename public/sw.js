@@ -0,0 +1,129 @@
+// Service worker del kiosco: modo offline del directorio.
+// - App shell (páginas principales y estáticos de Next) para que la UI cargue sin red.
+// - Banners, logos y videos del kiosco (cache-first; se envían desde ServiceWorkerRegister).
+// - Los datos del backend NO pasan por aquí: se guardan como snapshot en IndexedDB (lib/offline-store.ts).
+
+const CACHE_VERSION = 'v2' // v1 guardaba también las pantallas del personal
+const SHELL_CACHE = `hvq-shell-${CACHE_VERSION}`
+const MEDIA_CACHE = `hvq-media-${CACHE_VERSION}`
+
+const APP_SHELL = ['/', '/selection', '/specialties', '/doctors/search', '/images/hvq_2025_1.png', '/favicon.ico']
+
+// Pantallas del personal (usuario y contraseña, middleware.ts): nunca se guardan en caché
+const PRIVATE_PATHS = ['/admin', '/agendas']
+
+const isPrivate = (request, url) =>
+  request.headers.has('Authorization') ||
+  PRIVATE_PATHS.some((path) => url.pathname === path || url.pathname.startsWith(`${path}/`))
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => Promise.all(APP_SHELL.map((url) => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('hvq-') && key !== SHELL_CACHE && key !== MEDIA_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+// Precache a pedido de la página: { type: 'PRECACHE', shell: string[], media: string[] }
+self.addEventListener('message', (event) => {
+  const data = event.data || {}
+  if (data.type !== 'PRECACHE') return
+  event.waitUntil(
+    Promise.all([
+      precache(SHELL_CACHE, data.shell || [], 'same-origin'),
+      precache(MEDIA_CACHE, data.media || [], 'no-cors'),
+    ])
+  )
+})
+
+async function precache(cacheName, urls, mode) {
+  const cache = await caches.open(cacheName)
+  await Promise.all(
+    urls.map(async (url) => {
+      if (await cache.match(url)) return
+      try {
+        const response = await fetch(new Request(url, { mode }))
+        if (response.ok || response.type === 'opaque') await cache.put(url, response)
+      } catch {
+        // Recurso no disponible ahora: se intentará en la próxima visita
+      }
+    })
+  )
+}
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  const sameOrigin = url.origin === self.location.origin
+
+  // Datos: los maneja HttpClient con su snapshot en IndexedDB
+  if (sameOrigin && url.pathname.startsWith('/api/')) return
+
+  // Contenido con credenciales: directo a la red, sin copia local
+  if (sameOrigin && isPrivate(request, url)) return
+
+  // Estáticos versionados de Next: cache-first
+  if (sameOrigin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(SHELL_CACHE, request))
+    return
+  }
+
+  // Imágenes y videos (incluye banners externos): cache-first
+  if (request.destination === 'image' || request.destination === 'video') {
+    event.respondWith(cacheFirst(MEDIA_CACHE, request))
+    return
+  }
+
+  // Páginas y payloads RSC de la app: network-first con respaldo en caché
+  if (sameOrigin) {
+    event.respondWith(networkFirst(SHELL_CACHE, request))
+  }
+})
+
+async function cacheFirst(cacheName, request) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request, { ignoreVary: true })
+  if (cached) return cached
+  const response = await fetch(request)
+  // Los videos se piden por rangos (206): solo se guardan respuestas completas u opacas
+  if (response.status === 200 || response.type === 'opaque') {
+    cache.put(request, response.clone()).catch(() => undefined)
+  }
+  return response
+}
+
+async function networkFirst(cacheName, request) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(request, response.clone()).catch(() => undefined)
+    return response
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreVary: true })
+    if (cached) return cached
+    // Navegación a una ruta nunca visitada: mostrar el inicio
+    if (request.mode === 'navigate') {
+      const home = await cache.match('/')
+      if (home) return home
+    }
+    throw error
+  }
+}